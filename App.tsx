@@ -4,12 +4,34 @@ import { LandingPage } from './components/LandingPage';
 import { DashboardLayout } from './components/dashboard/DashboardLayout';
 import { VoiceProfilesList } from './components/dashboard/VoiceProfilesList';
 import { VoiceProfileWizard } from './components/voice-profile/VoiceProfileWizard';
+import { VoiceExamplesReview } from './components/voice-profile/VoiceExamplesReview';
+import { ProfileVersionHistory } from './components/voice-profile/ProfileVersionHistory';
+import { ProfileReview } from './components/voice-profile/ProfileReview';
 import { GenerationForm } from './components/generation/GenerationForm';
 import { GenerationHistory } from './components/generation/GenerationHistory';
 import { NewsletterOutput } from './components/generation/NewsletterOutput';
-import { getVoiceProfiles, createVoiceProfile, deleteVoiceProfile } from './services/voiceProfileService';
+import { EmailTemplatesSection } from './components/settings/EmailTemplatesSection';
+import { PlanUsageSection, type BillingNotice } from './components/settings/PlanUsageSection';
+import { TeamSettingsSection } from './components/settings/TeamSettingsSection';
+import {
+  getVoiceProfiles,
+  createVoiceProfile,
+  updateVoiceProfile,
+  restoreVoiceProfileVersion,
+  updateVoiceProfileStatus,
+  duplicateVoiceProfile,
+  getDuplicateProfileName,
+  deleteVoiceProfile,
+} from './services/voiceProfileService';
+import {
+  exportVoiceProfile,
+  downloadVoiceProfileExport,
+  importVoiceProfile,
+} from './services/voiceProfileExportService';
 import { getGenerations, startGeneration, deleteGeneration } from './services/generationService';
-import type { AppView, VoiceProfile, VoiceProfileFormData, Generation, GenerationRequest } from './types';
+import { getSubscription, createCheckoutSession, createPortalSession } from './services/subscriptionService';
+import { VoiceProfileStatus } from './types';
+import type { AppView, VoiceProfile, VoiceProfileExport, VoiceProfileFormData, VoiceProfileVersion, Generation, GenerationRequest, Subscription, SubscriptionPlan } from './types';
 import { Loader2 } from 'lucide-react';
 
 // History view with auto-polling for processing generations
@@ -102,7 +124,7 @@ function HistoryView({ generations, isLoading, onRefresh, onDelete, deletedIds }
 
 // Main App Content (uses auth context)
 function AppContent() {
-  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
+  const { isAuthenticated, isLoading: authLoading, user, updateProfile } = useAuth();
 
   // UI State
   const [currentView, setCurrentView] = useState<AppView>('dashboard');
@@ -113,6 +135,8 @@ function AppContent() {
   const [generations, setGenerations] = useState<Generation[]>([]);
   const [latestGeneration, setLatestGeneration] = useState<Generation | null>(null);
   const [deletedGenerationIds, setDeletedGenerationIds] = useState<Set<string>>(new Set());
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [billingNotice, setBillingNotice] = useState<BillingNotice | null>(null);
 
   // Loading States
   const [isLoadingProfiles, setIsLoadingProfiles] = useState(false);
@@ -124,12 +148,59 @@ function AppContent() {
     if (isAuthenticated && user) {
       loadProfiles();
       loadGenerations();
+      loadSubscription();
     }
   }, [isAuthenticated, user]);
 
-  const loadProfiles = async () => {
+  // Refresh usage whenever the generate or settings view is opened (failed runs are refunded server-side)
+  useEffect(() => {
+    if (isAuthenticated && user && (currentView === 'generate' || currentView === 'settings')) {
+      loadSubscription();
+    }
+  }, [currentView]);
+
+  // Ratings given in the generate and history views change profile averages server-side
+  useEffect(() => {
+    if (isAuthenticated && user && currentView === 'dashboard') {
+      loadProfiles(true);
+    }
+  }, [currentView]);
+
+  // Stripe Checkout and the billing portal redirect back with ?billing=<result>
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const billing = params.get('billing');
+    if (billing === 'success' || billing === 'canceled' || billing === 'portal') {
+      setBillingNotice(billing);
+      setCurrentView('settings');
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  }, []);
+
+  const loadSubscription = async () => {
+    if (!user) return;
+    try {
+      const data = await getSubscription(user.id);
+      setSubscription(data);
+    } catch (error) {
+      console.error('Failed to load subscription:', error);
+    }
+  };
+
+  const handleChangePlan = async (plan: SubscriptionPlan) => {
+    const url = await createCheckoutSession(plan);
+    window.location.assign(url);
+  };
+
+  const handleManageBilling = async (flow?: 'update' | 'cancel') => {
+    const url = await createPortalSession(flow);
+    window.location.assign(url);
+  };
+
+  // Silent reloads keep the current cards on screen instead of showing the skeleton
+  const loadProfiles = async (silent = false) => {
     if (!user) return;
-    setIsLoadingProfiles(true);
+    if (!silent) setIsLoadingProfiles(true);
     try {
       const data = await getVoiceProfiles(user.id);
       setProfiles(data);
@@ -197,7 +268,9 @@ function AppContent() {
     try {
       const newProfile = await createVoiceProfile(user.id, formData);
       setProfiles((prev) => [newProfile, ...prev]);
-      setCurrentView('dashboard');
+      // New profiles go straight to review before they can be approved
+      setSelectedProfile(newProfile);
+      setCurrentView('review-profile');
     } catch (error) {
       console.error('Failed to create profile:', error);
       throw error;
@@ -206,6 +279,73 @@ function AppContent() {
     }
   };
 
+  const handleUpdateProfile = async (formData: VoiceProfileFormData) => {
+    if (!selectedProfile) return;
+    setIsSubmitting(true);
+    try {
+      const updatedProfile = await updateVoiceProfile(selectedProfile.id, formData);
+      setProfiles((prev) => prev.map((p) => (p.id === updatedProfile.id ? updatedProfile : p)));
+      // Edits clear approval, so the profile goes back through review
+      setSelectedProfile(updatedProfile);
+      setCurrentView('review-profile');
+    } catch (error) {
+      console.error('Failed to update profile:', error);
+      throw error;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Stays in the editor so the restored fields and the new version are visible
+  const handleRestoreProfileVersion = async (version: VoiceProfileVersion) => {
+    if (!selectedProfile) return;
+    const restoredProfile = await restoreVoiceProfileVersion(selectedProfile.id, version);
+    setProfiles((prev) => prev.map((p) => (p.id === restoredProfile.id ? restoredProfile : p)));
+    setSelectedProfile(restoredProfile);
+  };
+
+  const handleReviewDecision = async (status: VoiceProfileStatus, reviewNotes?: string) => {
+    if (!selectedProfile) return;
+    const reviewedProfile = await updateVoiceProfileStatus(selectedProfile.id, status, reviewNotes);
+    setProfiles((prev) => prev.map((p) => (p.id === reviewedProfile.id ? reviewedProfile : p)));
+    setSelectedProfile(null);
+    setCurrentView('dashboard');
+  };
+
+  // The copy opens in the wizard so it can be renamed and tuned straight away
+  const handleDuplicateProfile = async (profile: VoiceProfile) => {
+    if (!user) return;
+    try {
+      const profileName = getDuplicateProfileName(
+        profile.profile_name,
+        profiles.map((p) => p.profile_name)
+      );
+      const copy = await duplicateVoiceProfile(user.id, profile, profileName);
+      setProfiles((prev) => [copy, ...prev]);
+      setSelectedProfile(copy);
+      setCurrentView('create-profile');
+    } catch (error) {
+      console.error('Failed to duplicate profile:', error);
+    }
+  };
+
+  const handleExportProfile = async (profile: VoiceProfile) => {
+    try {
+      downloadVoiceProfileExport(await exportVoiceProfile(profile));
+    } catch (error) {
+      console.error('Failed to export profile:', error);
+    }
+  };
+
+  // Imported profiles start awaiting review, like any new profile
+  const handleImportProfile = async (document: VoiceProfileExport) => {
+    if (!user) return;
+    const importedProfile = await importVoiceProfile(user.id, document);
+    setProfiles((prev) => [importedProfile, ...prev]);
+    setSelectedProfile(importedProfile);
+    setCurrentView('review-profile');
+  };
+
   const handleDeleteProfile = async (profileId: string) => {
     if (!confirm('Are you sure you want to delete this voice profile?')) return;
     try {
@@ -238,9 +378,15 @@ function AppContent() {
     } finally {
       console.log('handleGenerate: Setting isSubmitting to false');
       setIsSubmitting(false);
+      loadSubscription();
     }
   };
 
+  const handleChangeRequireApproved = async (value: boolean) => {
+    const { error } = await updateProfile({ require_approved_profiles: value });
+    if (error) throw error;
+  };
+
   const handleDeleteGeneration = async (generationId: string) => {
     if (!user) return;
 
@@ -248,7 +394,7 @@ function AppContent() {
     setDeletedGenerationIds(prev => new Set(prev).add(generationId));
 
     try {
-      await deleteGeneration(generationId, user.id);
+      await deleteGeneration(generationId);
       // Also remove from state for cleanup
       setGenerations((prev) => prev.filter((g) => g.id !== generationId));
     } catch (error) {
@@ -310,29 +456,82 @@ function AppContent() {
             <VoiceProfilesList
               profiles={profiles}
               isLoading={isLoadingProfiles}
-              onCreateNew={() => setCurrentView('create-profile')}
+              onCreateNew={() => {
+                setSelectedProfile(null);
+                setCurrentView('create-profile');
+              }}
               onSelect={(profile) => {
                 setSelectedProfile(profile);
                 setCurrentView('create-profile');
               }}
               onDelete={handleDeleteProfile}
               onGenerate={handleSelectProfileForGeneration}
+              onReviewExamples={(profile) => {
+                setSelectedProfile(profile);
+                setCurrentView('voice-examples');
+              }}
+              onReview={(profile) => {
+                setSelectedProfile(profile);
+                setCurrentView('review-profile');
+              }}
+              onDuplicate={handleDuplicateProfile}
+              onExport={handleExportProfile}
+              onImport={handleImportProfile}
             />
           </div>
         );
 
-      case 'create-profile':
+      case 'voice-examples':
+        if (!selectedProfile) return null;
+        return (
+          <VoiceExamplesReview
+            profile={selectedProfile}
+            onBack={() => {
+              setSelectedProfile(null);
+              setCurrentView('dashboard');
+            }}
+          />
+        );
+
+      case 'review-profile':
+        if (!selectedProfile) return null;
         return (
           <div className="max-w-3xl mx-auto">
+            <ProfileReview
+              key={selectedProfile.updated_at}
+              profile={selectedProfile}
+              onApprove={() => handleReviewDecision(VoiceProfileStatus.Approved)}
+              onSendBack={(notes) => handleReviewDecision(VoiceProfileStatus.Draft, notes)}
+              onEdit={() => setCurrentView('create-profile')}
+              onBack={() => {
+                setSelectedProfile(null);
+                setCurrentView('dashboard');
+              }}
+            />
+          </div>
+        );
+
+      case 'create-profile':
+        return (
+          <div className="max-w-6xl mx-auto space-y-8">
             <VoiceProfileWizard
+              key={selectedProfile ? `${selectedProfile.id}:${selectedProfile.updated_at}` : 'new'}
+              mode={selectedProfile ? 'edit' : 'create'}
               initialData={selectedProfile || undefined}
-              onSubmit={handleCreateProfile}
+              onSubmit={selectedProfile ? handleUpdateProfile : handleCreateProfile}
               onCancel={() => {
                 setSelectedProfile(null);
                 setCurrentView('dashboard');
               }}
               isSubmitting={isSubmitting}
             />
+            {selectedProfile && (
+              <ProfileVersionHistory
+                key={selectedProfile.updated_at}
+                profileId={selectedProfile.id}
+                onRestore={handleRestoreProfileVersion}
+              />
+            )}
           </div>
         );
 
@@ -386,6 +585,7 @@ function AppContent() {
               <div className="space-y-4">
                 <NewsletterOutput
                   generation={latestGeneration}
+                  profile={profiles.find((p) => p.id === latestGeneration.profile_id)}
                   onClose={() => setLatestGeneration(null)}
                 />
                 <div className="flex justify-center">
@@ -404,6 +604,8 @@ function AppContent() {
               <div className="max-w-3xl">
                 <GenerationForm
                   profiles={profiles}
+                  requireApproved={user?.require_approved_profiles ?? false}
+                  subscription={subscription}
                   onSubmit={handleGenerate}
                   onCreateProfile={() => setCurrentView('create-profile')}
                   isSubmitting={isSubmitting}
@@ -461,6 +663,20 @@ function AppContent() {
                 </div>
               </div>
             </div>
+
+            <TeamSettingsSection
+              requireApprovedProfiles={user?.require_approved_profiles ?? false}
+              onChangeRequireApproved={handleChangeRequireApproved}
+            />
+
+            {user && <EmailTemplatesSection userId={user.id} profiles={profiles} />}
+
+            <PlanUsageSection
+              subscription={subscription}
+              notice={billingNotice}
+              onChangePlan={handleChangePlan}
+              onManageBilling={handleManageBilling}
+            />
           </div>
         );
 
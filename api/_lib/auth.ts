@@ -0,0 +1,26 @@
+import type { VercelRequest } from '@vercel/node';
+import type { User as AuthUser } from '@supabase/supabase-js';
+import { supabaseAdmin } from './supabaseAdmin.js';
+
+// Extract the Supabase access token from an `Authorization: Bearer <token>` header
+export function getBearerToken(req: VercelRequest): string | null {
+  const header = req.headers.authorization;
+  if (!header) return null;
+
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+// Resolve the calling user from their access token. Returns null when the
+// token is missing, expired or otherwise rejected by Supabase Auth.
+export async function getAuthenticatedUser(req: VercelRequest): Promise<AuthUser | null> {
+  const token = getBearerToken(req);
+  if (!token) return null;
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !data.user) {
+    return null;
+  }
+
+  return data.user;
+}
@@ -0,0 +1,35 @@
+import type { VercelResponse } from '@vercel/node';
+import type { ApiError } from '../../types.js';
+
+// Error codes returned by API routes (see "Error Responses" in data_guide.md)
+export const ERROR_CODES = {
+  AUTH_REQUIRED: 'AUTH_REQUIRED',
+  FORBIDDEN: 'FORBIDDEN',
+  NOT_FOUND: 'NOT_FOUND',
+  METHOD_NOT_ALLOWED: 'METHOD_NOT_ALLOWED',
+  VALIDATION_ERROR: 'VALIDATION_ERROR',
+  RATE_LIMIT_EXCEEDED: 'RATE_LIMIT_EXCEEDED',
+  N8N_ERROR: 'N8N_ERROR',
+  INTERNAL_ERROR: 'INTERNAL_ERROR',
+} as const;
+
+export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
+
+export function buildApiError(error: string, code: ErrorCode, details?: any): ApiError {
+  return {
+    error,
+    code,
+    ...(details !== undefined && { details }),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+export function sendError(
+  res: VercelResponse,
+  status: number,
+  error: string,
+  code: ErrorCode,
+  details?: any
+) {
+  return res.status(status).json(buildApiError(error, code, details));
+}
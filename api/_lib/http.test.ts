@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { fetchPublicText, isPrivateAddress } from './http.js';
+
+describe('isPrivateAddress', () => {
+  it.each([
+    ['0.0.0.0'],
+    ['127.0.0.1'],
+    ['10.1.2.3'],
+    ['100.64.0.1'],
+    ['169.254.169.254'],
+    ['172.16.0.1'],
+    ['192.168.1.1'],
+    ['224.0.0.1'],
+    ['255.255.255.255'],
+  ])('blocks IPv4 %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each([
+    ['::', 'unspecified'],
+    ['::1', 'loopback'],
+    ['fc00::1', 'unique local'],
+    ['fe80::1', 'link-local'],
+    ['fe80::1%eth0', 'link-local with zone'],
+    ['ff02::1', 'multicast'],
+    ['::ffff:127.0.0.1', 'mapped, dotted'],
+    ['::ffff:7f00:1', 'mapped, hex'],
+    ['::ffff:a9fe:a9fe', 'mapped, hex metadata address'],
+    ['0:0:0:0:0:ffff:7f00:1', 'mapped, expanded'],
+    ['::ffff:0:127.0.0.1', 'translated'],
+    ['::127.0.0.1', 'IPv4-compatible, dotted'],
+    ['::a00:1', 'IPv4-compatible, hex'],
+    ['64:ff9b::7f00:1', 'NAT64'],
+    ['64:ff9b::10.0.0.1', 'NAT64, dotted'],
+    ['2002:7f00:1::', '6to4'],
+    ['2002:a9fe:a9fe::1', '6to4 metadata address'],
+  ])('blocks IPv6 %s (%s)', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each([['93.184.216.34'], ['8.8.8.8'], ['2606:4700::1111'], ['::ffff:8.8.8.8'], ['64:ff9b::808:808'], ['2002:808:808::']])(
+    'allows public %s',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  );
+
+  it('treats anything that is not an address as private', () => {
+    expect(isPrivateAddress('localhost')).toBe(true);
+  });
+});
+
+describe('fetchPublicText', () => {
+  const options = { timeoutMs: 1000, maxBytes: 1024 };
+
+  it.each([
+    ['http://127.0.0.1/'],
+    ['http://0.0.0.0/'],
+    ['http://2130706433/'],
+    ['http://[::ffff:7f00:1]/'],
+    ['http://[::127.0.0.1]/'],
+    ['http://[64:ff9b::7f00:1]/'],
+    ['http://[2002:7f00:1::]/'],
+  ])('refuses %s before connecting', async (url) => {
+    await expect(fetchPublicText(url, options)).rejects.toThrow('not reachable from the import service');
+  });
+
+  it('checks the address a hostname resolves to when connecting', async () => {
+    await expect(fetchPublicText('http://localhost:9/', options)).rejects.toThrow('not reachable from the import service');
+  });
+
+  it('refuses non-http schemes', async () => {
+    await expect(fetchPublicText('file:///etc/passwd', options)).rejects.toThrow('Only http and https');
+  });
+});
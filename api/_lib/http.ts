@@ -0,0 +1,256 @@
+import type { VercelRequest } from '@vercel/node';
+import { lookup as dnsLookup } from 'node:dns';
+import { request as httpRequest, type IncomingMessage } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+
+// Read the unparsed request body, for routes that verify a signature over the
+// exact bytes sent. Vercel buffers the body and replays it on the request
+// stream, parsing req.body only when it is accessed, so routes using this
+// must not touch req.body.
+export async function readRawBody(req: VercelRequest): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+export function getHeader(req: IncomingMessage, name: string): string | null {
+  const value = req.headers[name];
+  if (Array.isArray(value)) return value[0] || null;
+  return value || null;
+}
+
+// Base URL that Stripe redirects back to after checkout or the billing portal
+export function getAppUrl(req: VercelRequest): string {
+  if (process.env.APP_URL) {
+    return process.env.APP_URL.replace(/\/$/, '');
+  }
+  const protocol = getHeader(req, 'x-forwarded-proto') || 'https';
+  return `${protocol}://${req.headers.host}`;
+}
+
+const MAX_REDIRECTS = 3;
+
+// Ranges that must never be fetched on a user's behalf: loopback, private,
+// link-local, shared, documentation, multicast and reserved space
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b:1::', 48],
+  ['100::', 64],
+  ['2001::', 32],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['fec0::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Expand an IPv6 literal into its eight 16-bit groups, including the
+// dotted-quad tail form (::ffff:127.0.0.1)
+function parseIPv6(address: string): number[] {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const fill = tail === undefined ? [] : Array(8 - headGroups.length - tailGroups.length).fill('0');
+  return [...headGroups, ...fill, ...tailGroups].map((group) => parseInt(group, 16));
+}
+
+// IPv4 address carried inside an IPv6 one: mapped (::ffff:a.b.c.d and the
+// hex ::ffff:7f00:1), translated (::ffff:0:a.b.c.d), IPv4-compatible
+// (::a.b.c.d), NAT64 (64:ff9b::/96) and 6to4 (2002::/16)
+function embeddedIPv4(groups: number[]): string | null {
+  const toIPv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+  const zeroUntil = (end: number) => groups.slice(0, end).every((group) => group === 0);
+
+  if (zeroUntil(5) && groups[5] === 0xffff) return toIPv4(groups[6], groups[7]);
+  if (zeroUntil(4) && groups[4] === 0xffff && groups[5] === 0) return toIPv4(groups[6], groups[7]);
+  if (zeroUntil(6)) return toIPv4(groups[6], groups[7]);
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+    return toIPv4(groups[6], groups[7]);
+  }
+  if (groups[0] === 0x2002) return toIPv4(groups[1], groups[2]);
+  return null;
+}
+
+// True for any literal that is not a plain public unicast address
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address.replace(/%.*$/, ''));
+  if (version === 4) return BLOCKED_ADDRESSES.check(address, 'ipv4');
+  if (version !== 6) return true;
+
+  const embedded = embeddedIPv4(parseIPv6(address));
+  if (embedded) return BLOCKED_ADDRESSES.check(embedded, 'ipv4');
+  return BLOCKED_ADDRESSES.check(address.replace(/%.*$/, ''), 'ipv6');
+}
+
+const PRIVATE_ADDRESS_MESSAGE = 'That address is not reachable from the import service';
+
+// DNS lookup used for the outgoing connection itself, so the address that
+// was checked is the one that gets connected to. Resolving once up front and
+// letting fetch resolve again would let a rebinding DNS server swap in a
+// private address between the two lookups.
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error || addresses.length === 0) {
+      callback(error ?? new Error(`Could not resolve ${hostname}`), '');
+      return;
+    }
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(new Error(PRIVATE_ADDRESS_MESSAGE), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Literal hosts never reach the lookup above, so they are checked here
+function assertPublicUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Only http and https URLs can be imported');
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new Error(PRIVATE_ADDRESS_MESSAGE);
+  }
+}
+
+function requestPublicUrl(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const request = send(
+      url,
+      {
+        agent: false,
+        lookup: lookupPublicAddress,
+        signal,
+        headers: { Accept: 'application/rss+xml, application/atom+xml, application/xml, text/html;q=0.9, */*;q=0.5' },
+      },
+      resolve
+    );
+    request.on('error', (error: NodeJS.ErrnoException) => {
+      if (signal.aborted) {
+        reject(signal.reason);
+      } else if (error.message === PRIVATE_ADDRESS_MESSAGE) {
+        reject(error);
+      } else if (error.code === 'ENOTFOUND' || error.code === 'EAI_AGAIN') {
+        reject(new Error(`Could not resolve ${url.hostname}`));
+      } else {
+        reject(new Error(`Could not reach ${url.hostname}`));
+      }
+    });
+    request.end();
+  });
+}
+
+export interface RemoteText {
+  url: string;
+  content_type: string;
+  body: string;
+}
+
+// Read the body a chunk at a time so a response without (or lying about)
+// content-length can't be buffered past the limit
+async function readTextWithLimit(response: IncomingMessage, maxBytes: number): Promise<string> {
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = '';
+
+  for await (const chunk of response) {
+    const bytes: Buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+    received += bytes.byteLength;
+    if (received > maxBytes) {
+      response.destroy();
+      throw new Error('That page is too large to import');
+    }
+    text += decoder.decode(bytes, { stream: true });
+  }
+
+  return text + decoder.decode();
+}
+
+// Fetch a public web page or feed as text. Redirects are followed by hand so
+// every hop is checked against private network addresses, and each
+// connection goes to the address that passed the check. Error messages are
+// written to be shown to the user.
+export async function fetchPublicText(
+  rawUrl: string,
+  { timeoutMs, maxBytes }: { timeoutMs: number; maxBytes: number }
+): Promise<RemoteText> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new Error('Enter a valid URL');
+  }
+
+  const signal = AbortSignal.timeout(timeoutMs);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    assertPublicUrl(url);
+
+    const response = await requestPublicUrl(url, signal);
+    const status = response.statusCode ?? 0;
+
+    const location = getHeader(response, 'location');
+    if (status >= 300 && status < 400 && location) {
+      response.destroy();
+      url = new URL(location, url);
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.destroy();
+      throw new Error(`The site responded with ${status}`);
+    }
+
+    const declaredLength = Number(getHeader(response, 'content-length') || 0);
+    if (declaredLength > maxBytes) {
+      response.destroy();
+      throw new Error('That page is too large to import');
+    }
+
+    return {
+      url: url.toString(),
+      content_type: getHeader(response, 'content-type') || '',
+      body: await readTextWithLimit(response, maxBytes).catch((error) => {
+        throw signal.aborted ? signal.reason : error;
+      }),
+    };
+  }
+
+  throw new Error('Too many redirects');
+}
@@ -0,0 +1,110 @@
+import { supabaseAdmin } from './supabaseAdmin.js';
+import {
+  copyFromArticle,
+  copyOf,
+  planNewsletterVersions,
+  type NewsletterCopy,
+} from '../../services/newsletterVersioning.js';
+import { subjectVariantsFromArticle } from '../../services/subjectVariantService.js';
+import type {
+  Newsletter,
+  NewsletterArticle,
+  NewsletterVersion,
+  NewsletterVersionSource,
+  SubjectVariant,
+} from '../../types.js';
+
+const MAX_NEWSLETTERS_PER_GENERATION = 5;
+
+// Expand a generation's articles into newsletters rows. Rows that already exist
+// are left alone, so replayed callbacks never overwrite a user's edits or ratings.
+export async function saveNewsletters(
+  generationId: string,
+  userId: string,
+  articles: NewsletterArticle[]
+): Promise<void> {
+  const rows = articles
+    .map((article, index) => ({
+      generation_id: generationId,
+      user_id: userId,
+      newsletter_number: article.idea_number || index + 1,
+      ...copyFromArticle(article),
+      subject_variants: subjectVariantsFromArticle(article),
+      source_type: article.source_type || null,
+      newsletter_type: article.newsletter_name || null,
+    }))
+    .filter((row) => {
+      const isValid = row.newsletter_number >= 1 && row.newsletter_number <= MAX_NEWSLETTERS_PER_GENERATION;
+      if (!isValid) {
+        console.warn('Skipping newsletter with out-of-range number:', row.newsletter_number, 'generation:', generationId);
+      }
+      return isValid;
+    });
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('newsletters')
+    .upsert(rows, { onConflict: 'generation_id,newsletter_number', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to save newsletters: ${error.message}`);
+  }
+}
+
+export async function getNewsletterVersions(newsletterId: string, userId: string): Promise<NewsletterVersion[]> {
+  const { data, error } = await supabaseAdmin
+    .from('newsletter_versions')
+    .select('*')
+    .eq('newsletter_id', newsletterId)
+    .eq('user_id', userId)
+    .order('version_number', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch newsletter versions: ${error.message}`);
+  }
+
+  return (data as NewsletterVersion[]) || [];
+}
+
+// Make `next` the newsletter's copy, recording it and whatever it replaces as
+// versions (see planNewsletterVersions)
+export async function replaceNewsletterCopy(
+  newsletter: Newsletter,
+  versions: NewsletterVersion[],
+  original: NewsletterArticle | null,
+  next: { copy: NewsletterCopy; source: NewsletterVersionSource; instructions: string | null },
+  // A regenerated article comes with new subject line candidates
+  subjectVariants?: SubjectVariant[]
+): Promise<{ newsletter: Newsletter; versions: NewsletterVersion[] }> {
+  const drafts = planNewsletterVersions(newsletter, versions, original, next);
+
+  const { data: inserted, error: insertError } = await supabaseAdmin
+    .from('newsletter_versions')
+    .insert(drafts)
+    .select();
+
+  if (insertError || !inserted) {
+    throw new Error(`Failed to save newsletter versions: ${insertError?.message}`);
+  }
+
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from('newsletters')
+    .update({
+      ...copyOf(next.copy),
+      current_version_number: drafts[drafts.length - 1].version_number,
+      ...(subjectVariants ? { subject_variants: subjectVariants } : {}),
+    })
+    .eq('id', newsletter.id)
+    .select()
+    .single();
+
+  if (updateError || !updated) {
+    throw new Error(`Failed to update newsletter: ${updateError?.message}`);
+  }
+
+  return {
+    newsletter: updated as Newsletter,
+    versions: [...versions, ...(inserted as NewsletterVersion[])].sort((a, b) => a.version_number - b.version_number),
+  };
+}
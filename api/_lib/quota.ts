@@ -0,0 +1,41 @@
+import { supabaseAdmin } from './supabaseAdmin.js';
+import type { SubscriptionStatus } from '../../types.js';
+
+export interface QuotaClaim {
+  allowed: boolean;
+  subscription_status: SubscriptionStatus;
+  generations_this_period: number;
+  generations_limit: number;
+  current_period_end: string;
+}
+
+// Atomically claim one generation for the user (see claim_generation_quota in schema.sql)
+export async function claimGenerationQuota(userId: string): Promise<QuotaClaim> {
+  const { data, error } = await supabaseAdmin.rpc('claim_generation_quota', {
+    p_user_id: userId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim generation quota: ${error.message}`);
+  }
+
+  const claim = Array.isArray(data) ? data[0] : data;
+  if (!claim) {
+    throw new Error('Failed to claim generation quota: empty response');
+  }
+
+  return claim as QuotaClaim;
+}
+
+// Return a previously claimed generation, e.g. when the n8n run fails.
+// Errors are logged rather than thrown so they never mask the original failure.
+export async function refundGenerationQuota(userId: string, claimedAt: string): Promise<void> {
+  const { error } = await supabaseAdmin.rpc('refund_generation_quota', {
+    p_user_id: userId,
+    p_claimed_at: claimedAt,
+  });
+
+  if (error) {
+    console.error('Failed to refund generation quota:', error);
+  }
+}
@@ -0,0 +1,71 @@
+import Stripe from 'stripe';
+import { SubscriptionPlan, SubscriptionStatus } from '../../types.js';
+
+const stripeSecretKey = process.env.STRIPE_SECRET_KEY || '';
+
+// Price ids for each plan, configured per Stripe account/mode
+const PLAN_PRICE_IDS: Record<SubscriptionPlan, string> = {
+  [SubscriptionPlan.Starter]: process.env.STRIPE_PRICE_STARTER || '',
+  [SubscriptionPlan.Professional]: process.env.STRIPE_PRICE_PROFESSIONAL || '',
+  [SubscriptionPlan.Agency]: process.env.STRIPE_PRICE_AGENCY || '',
+};
+
+let stripeClient: Stripe | null = null;
+
+// The Stripe SDK throws without a key, so the client is created on first use.
+// STRIPE_API_HOST/PORT/PROTOCOL point it at a local stripe-mock instead of api.stripe.com.
+export function getStripe(): Stripe {
+  if (!stripeClient) {
+    if (!stripeSecretKey) {
+      throw new Error('STRIPE_SECRET_KEY is not configured');
+    }
+
+    stripeClient = new Stripe(stripeSecretKey, {
+      ...(process.env.STRIPE_API_HOST && { host: process.env.STRIPE_API_HOST }),
+      ...(process.env.STRIPE_API_PORT && { port: Number(process.env.STRIPE_API_PORT) }),
+      ...(process.env.STRIPE_API_PROTOCOL && {
+        protocol: process.env.STRIPE_API_PROTOCOL as 'http' | 'https',
+      }),
+    });
+  }
+  return stripeClient;
+}
+
+export function isSubscriptionPlan(value: unknown): value is SubscriptionPlan {
+  return Object.values(SubscriptionPlan).includes(value as SubscriptionPlan);
+}
+
+export function getPriceIdForPlan(plan: SubscriptionPlan): string | null {
+  return PLAN_PRICE_IDS[plan] || null;
+}
+
+export function getPlanForPriceId(priceId: string | null | undefined): SubscriptionPlan | null {
+  if (!priceId) return null;
+
+  const match = (Object.entries(PLAN_PRICE_IDS) as Array<[SubscriptionPlan, string]>)
+    .find(([, id]) => id === priceId);
+  return match ? match[0] : null;
+}
+
+// Collapse Stripe's subscription statuses onto the four our schema allows
+export function toSubscriptionStatus(status: Stripe.Subscription.Status): SubscriptionStatus {
+  switch (status) {
+    case 'active':
+      return SubscriptionStatus.Active;
+    case 'trialing':
+      return SubscriptionStatus.Trialing;
+    case 'canceled':
+    case 'incomplete_expired':
+      return SubscriptionStatus.Canceled;
+    case 'past_due':
+    case 'unpaid':
+    case 'incomplete':
+    case 'paused':
+    default:
+      return SubscriptionStatus.PastDue;
+  }
+}
+
+export function fromUnixTimestamp(seconds: number | null | undefined): string | null {
+  return seconds ? new Date(seconds * 1000).toISOString() : null;
+}
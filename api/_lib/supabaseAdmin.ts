@@ -0,0 +1,13 @@
+import { createClient } from '@supabase/supabase-js';
+
+// Supabase client with service role for server-side operations.
+// Bypasses RLS, so every route using it must authorize the caller itself.
+const supabaseUrl = process.env.VITE_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_ANON_KEY || '';
+
+export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false,
+  },
+});
@@ -0,0 +1,69 @@
+import { supabaseAdmin } from './supabaseAdmin.js';
+import type { VoiceExamplesForPayload } from '../../services/n8nService.js';
+
+// Keep the n8n payload (and the prompt built from it) a reasonable size
+const MAX_EXAMPLES_PER_TYPE = 3;
+const MAX_EXAMPLE_LENGTH = 1500;
+
+export interface SelectedVoiceExamples extends VoiceExamplesForPayload {
+  ids: string[];
+}
+
+function truncate(content: string): string {
+  return content.length > MAX_EXAMPLE_LENGTH
+    ? `${content.slice(0, MAX_EXAMPLE_LENGTH).trimEnd()}...`
+    : content;
+}
+
+async function selectExamples(profileId: string, exampleType: 'good' | 'bad') {
+  // Strongest signal first: highest-rated good examples, lowest-rated bad ones
+  const { data, error } = await supabaseAdmin
+    .from('voice_examples')
+    .select('id, content')
+    .eq('profile_id', profileId)
+    .eq('example_type', exampleType)
+    .order('rating', { ascending: exampleType === 'bad', nullsFirst: false })
+    .order('created_at', { ascending: false })
+    .limit(MAX_EXAMPLES_PER_TYPE);
+
+  if (error) {
+    throw new Error(`Failed to load ${exampleType} voice examples: ${error.message}`);
+  }
+
+  return (data || []) as Array<{ id: string; content: string }>;
+}
+
+// Pick the examples to send with a generation. Failures are logged and
+// produce no examples, since they only refine the output.
+export async function selectVoiceExamples(profileId: string): Promise<SelectedVoiceExamples> {
+  try {
+    const [good, bad] = await Promise.all([
+      selectExamples(profileId, 'good'),
+      selectExamples(profileId, 'bad'),
+    ]);
+
+    return {
+      good: good.map((e) => truncate(e.content)),
+      bad: bad.map((e) => truncate(e.content)),
+      ids: [...good, ...bad].map((e) => e.id),
+    };
+  } catch (error) {
+    console.error('Error selecting voice examples:', error);
+    return { good: [], bad: [], ids: [] };
+  }
+}
+
+// Record that these examples have been used to steer a generation
+export async function markVoiceExamplesLearned(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('voice_examples')
+    .update({ learned_from: true })
+    .in('id', ids)
+    .eq('learned_from', false);
+
+  if (error) {
+    console.error('Error marking voice examples as learned:', error);
+  }
+}
@@ -0,0 +1,76 @@
+import { buildN8nVoiceProfile } from '../../services/n8nService.js';
+import { buildLocalRewrite, buildLocalVoicePreview, PREVIEW_TOPIC } from '../../services/voiceAnalysisService.js';
+import type { N8nWebhookPayload, VoicePreview, VoiceProfile, VoiceProfileFormData } from '../../types.js';
+
+// Optional n8n workflows that write one short paragraph synchronously. Without
+// them previews fall back to local templates so the review flow and the
+// wizard's rewrite preview still work.
+const previewWebhookUrl = process.env.N8N_PREVIEW_WEBHOOK_URL || '';
+const rewriteWebhookUrl = process.env.N8N_REWRITE_WEBHOOK_URL || '';
+const n8nApiKey = process.env.N8N_API_KEY || '';
+const N8N_API_KEY_HEADER = 'X-N8N-API-KEY';
+
+// Previews block the review screen, so don't wait as long as a full generation
+const PREVIEW_TIMEOUT_MS = 30000;
+
+// Both workflows answer with { "paragraph": "..." }
+async function requestParagraph(url: string, body: Record<string, unknown>, label: string): Promise<string> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [N8N_API_KEY_HEADER]: n8nApiKey,
+    },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(PREVIEW_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`n8n ${label} webhook failed: ${response.status} - ${errorText}`);
+  }
+
+  const data = (await response.json()) as { paragraph?: unknown };
+  if (typeof data.paragraph !== 'string' || !data.paragraph.trim()) {
+    throw new Error(`n8n ${label} webhook returned no paragraph`);
+  }
+
+  return data.paragraph.trim();
+}
+
+export async function generateVoicePreview(voiceProfile: VoiceProfile): Promise<VoicePreview> {
+  if (!previewWebhookUrl) {
+    return { paragraph: buildLocalVoicePreview(voiceProfile), source: 'local' };
+  }
+
+  const paragraph = await requestParagraph(
+    previewWebhookUrl,
+    {
+      profile_id: voiceProfile.id,
+      topic: PREVIEW_TOPIC,
+      voice_profile: buildN8nVoiceProfile(voiceProfile),
+    },
+    'preview'
+  );
+
+  return { paragraph, source: 'n8n' };
+}
+
+// Rewrite the user's own paragraph with unsaved wizard settings
+export async function rewriteWithVoice(
+  formData: VoiceProfileFormData,
+  voiceProfile: N8nWebhookPayload['voice_profile'],
+  paragraph: string
+): Promise<VoicePreview> {
+  if (!rewriteWebhookUrl) {
+    return { paragraph: buildLocalRewrite(paragraph, formData), source: 'local' };
+  }
+
+  const rewritten = await requestParagraph(
+    rewriteWebhookUrl,
+    { paragraph, voice_profile: voiceProfile },
+    'rewrite'
+  );
+
+  return { paragraph: rewritten, source: 'n8n' };
+}
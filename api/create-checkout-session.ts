@@ -0,0 +1,105 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { supabaseAdmin } from './_lib/supabaseAdmin.js';
+import { getAuthenticatedUser } from './_lib/auth.js';
+import { sendError, ERROR_CODES } from './_lib/errors.js';
+import { getAppUrl } from './_lib/http.js';
+import { getStripe, getPriceIdForPlan, isSubscriptionPlan } from './_lib/stripe.js';
+import { SubscriptionStatus } from '../types.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return sendError(res, 405, 'Method not allowed', ERROR_CODES.METHOD_NOT_ALLOWED);
+  }
+
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return sendError(res, 401, 'Unauthorized', ERROR_CODES.AUTH_REQUIRED);
+  }
+
+  const plan = req.body?.plan;
+  if (!isSubscriptionPlan(plan)) {
+    return sendError(res, 400, 'Validation failed', ERROR_CODES.VALIDATION_ERROR, {
+      plan: 'Unknown plan',
+    });
+  }
+
+  const priceId = getPriceIdForPlan(plan);
+  if (!priceId) {
+    console.error('No Stripe price configured for plan:', plan);
+    return sendError(res, 500, 'Plan is not available for purchase', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  const { data: subscription, error: fetchError } = await supabaseAdmin
+    .from('subscriptions')
+    .select('id, stripe_customer_id, stripe_subscription_id, status')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (fetchError) {
+    console.error('Error fetching subscription:', fetchError);
+    return sendError(res, 500, 'Failed to fetch subscription', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  if (!subscription) {
+    return sendError(res, 404, 'Subscription not found', ERROR_CODES.NOT_FOUND);
+  }
+
+  // Paying customers change plans through the billing portal so Stripe handles proration
+  if (subscription.stripe_subscription_id && subscription.status !== SubscriptionStatus.Canceled) {
+    return sendError(res, 400, 'Subscription already active - use the billing portal to change plans', ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  try {
+    const stripe = getStripe();
+    let customerId: string | null = subscription.stripe_customer_id;
+
+    // Create the Stripe customer up front so subscription events can be matched
+    // to this row by customer id, whatever order Stripe delivers them in
+    if (!customerId) {
+      const customer = await stripe.customers.create({
+        email: user.email,
+        metadata: { user_id: user.id },
+      });
+      customerId = customer.id;
+
+      const { error: updateError } = await supabaseAdmin
+        .from('subscriptions')
+        .update({ stripe_customer_id: customerId })
+        .eq('id', subscription.id);
+
+      if (updateError) {
+        console.error('Error saving Stripe customer id:', updateError);
+        return sendError(res, 500, 'Failed to save billing account', ERROR_CODES.INTERNAL_ERROR);
+      }
+    }
+
+    const appUrl = getAppUrl(req);
+    const session = await stripe.checkout.sessions.create({
+      mode: 'subscription',
+      customer: customerId,
+      client_reference_id: user.id,
+      line_items: [{ price: priceId, quantity: 1 }],
+      metadata: { user_id: user.id, plan },
+      subscription_data: {
+        metadata: { user_id: user.id },
+      },
+      allow_promotion_codes: true,
+      success_url: `${appUrl}/?billing=success`,
+      cancel_url: `${appUrl}/?billing=canceled`,
+    });
+
+    return res.status(200).json({ url: session.url });
+  } catch (error) {
+    console.error('Checkout session error:', error);
+    return sendError(res, 500, 'Failed to start checkout', ERROR_CODES.INTERNAL_ERROR);
+  }
+}
@@ -0,0 +1,90 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type Stripe from 'stripe';
+import { supabaseAdmin } from './_lib/supabaseAdmin.js';
+import { getAuthenticatedUser } from './_lib/auth.js';
+import { sendError, ERROR_CODES } from './_lib/errors.js';
+import { getAppUrl } from './_lib/http.js';
+import { getStripe } from './_lib/stripe.js';
+import { SubscriptionStatus } from '../types.js';
+
+// Optional deep links into the portal; without one the portal home page opens
+type PortalFlow = 'update' | 'cancel';
+
+function isPortalFlow(value: unknown): value is PortalFlow {
+  return value === 'update' || value === 'cancel';
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return sendError(res, 405, 'Method not allowed', ERROR_CODES.METHOD_NOT_ALLOWED);
+  }
+
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return sendError(res, 401, 'Unauthorized', ERROR_CODES.AUTH_REQUIRED);
+  }
+
+  const flow = req.body?.flow;
+  if (flow !== undefined && !isPortalFlow(flow)) {
+    return sendError(res, 400, 'Validation failed', ERROR_CODES.VALIDATION_ERROR, {
+      flow: 'Flow must be "update" or "cancel"',
+    });
+  }
+
+  const { data: subscription, error: fetchError } = await supabaseAdmin
+    .from('subscriptions')
+    .select('stripe_customer_id, stripe_subscription_id, status')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (fetchError) {
+    console.error('Error fetching subscription:', fetchError);
+    return sendError(res, 500, 'Failed to fetch subscription', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  if (!subscription?.stripe_customer_id) {
+    return sendError(res, 404, 'No billing account found', ERROR_CODES.NOT_FOUND);
+  }
+
+  const hasActiveSubscription = !!subscription.stripe_subscription_id &&
+    subscription.status !== SubscriptionStatus.Canceled;
+
+  if (flow && !hasActiveSubscription) {
+    return sendError(res, 400, 'No active subscription to change', ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  let flowData: Stripe.BillingPortal.SessionCreateParams.FlowData | undefined;
+  if (flow === 'update') {
+    flowData = {
+      type: 'subscription_update',
+      subscription_update: { subscription: subscription.stripe_subscription_id },
+    };
+  } else if (flow === 'cancel') {
+    flowData = {
+      type: 'subscription_cancel',
+      subscription_cancel: { subscription: subscription.stripe_subscription_id },
+    };
+  }
+
+  try {
+    const session = await getStripe().billingPortal.sessions.create({
+      customer: subscription.stripe_customer_id,
+      return_url: `${getAppUrl(req)}/?billing=portal`,
+      ...(flowData && { flow_data: flowData }),
+    });
+
+    return res.status(200).json({ url: session.url });
+  } catch (error) {
+    console.error('Billing portal session error:', error);
+    return sendError(res, 500, 'Failed to open billing portal', ERROR_CODES.INTERNAL_ERROR);
+  }
+}
@@ -1,11 +1,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { createClient } from '@supabase/supabase-js';
-
-// Initialize Supabase client with service role for server-side operations
-const supabaseUrl = process.env.VITE_SUPABASE_URL || '';
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_ANON_KEY || '';
-
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
+import { supabaseAdmin } from './_lib/supabaseAdmin.js';
+import { getAuthenticatedUser } from './_lib/auth.js';
+import { sendError, ERROR_CODES } from './_lib/errors.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Enable CORS
@@ -18,32 +14,56 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   if (req.method !== 'DELETE') {
-    return res.status(405).json({ error: 'Method not allowed' });
+    return sendError(res, 405, 'Method not allowed', ERROR_CODES.METHOD_NOT_ALLOWED);
   }
 
   try {
-    const { generation_id, user_id } = req.body;
+    // The caller is derived from their access token, never from the request body
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return sendError(res, 401, 'Unauthorized', ERROR_CODES.AUTH_REQUIRED);
+    }
+
+    const { generation_id } = req.body || {};
 
     if (!generation_id) {
-      return res.status(400).json({ error: 'Missing generation_id' });
+      return sendError(res, 400, 'Missing generation_id', ERROR_CODES.VALIDATION_ERROR, {
+        generation_id: 'Required',
+      });
+    }
+
+    // Verify ownership before deleting with the service role
+    const { data: generation, error: fetchError } = await supabaseAdmin
+      .from('generations')
+      .select('id, user_id')
+      .eq('id', generation_id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching generation:', fetchError);
+      return sendError(res, 500, 'Failed to fetch generation', ERROR_CODES.INTERNAL_ERROR);
     }
 
-    if (!user_id) {
-      return res.status(400).json({ error: 'Missing user_id' });
+    if (!generation) {
+      return sendError(res, 404, 'Generation not found', ERROR_CODES.NOT_FOUND);
     }
 
-    console.log('Deleting generation:', generation_id, 'for user:', user_id);
+    if (generation.user_id !== user.id) {
+      console.warn('Rejected delete of generation', generation_id, 'by non-owner', user.id);
+      return sendError(res, 403, 'You do not have access to this generation', ERROR_CODES.FORBIDDEN);
+    }
+
+    console.log('Deleting generation:', generation_id, 'for user:', user.id);
 
-    // Delete the generation (verify it belongs to the user)
-    const { error: deleteError } = await supabase
+    const { error: deleteError } = await supabaseAdmin
       .from('generations')
       .delete()
       .eq('id', generation_id)
-      .eq('user_id', user_id);
+      .eq('user_id', user.id);
 
     if (deleteError) {
       console.error('Error deleting generation:', deleteError);
-      return res.status(500).json({ error: 'Failed to delete generation', details: deleteError });
+      return sendError(res, 500, 'Failed to delete generation', ERROR_CODES.INTERNAL_ERROR);
     }
 
     console.log('Generation deleted successfully:', generation_id);
@@ -55,9 +75,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     });
   } catch (error) {
     console.error('Delete handler error:', error);
-    return res.status(500).json({
-      error: 'Internal server error',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
+    return sendError(
+      res,
+      500,
+      'Internal server error',
+      ERROR_CODES.INTERNAL_ERROR,
+      { message: error instanceof Error ? error.message : 'Unknown error' }
+    );
   }
 }
@@ -0,0 +1,329 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { supabaseAdmin } from './_lib/supabaseAdmin.js';
+import { getAuthenticatedUser } from './_lib/auth.js';
+import { sendError, ERROR_CODES } from './_lib/errors.js';
+import { claimGenerationQuota, refundGenerationQuota } from './_lib/quota.js';
+import { saveNewsletters } from './_lib/newsletters.js';
+import { selectVoiceExamples, markVoiceExamplesLearned } from './_lib/voiceExamples.js';
+import {
+  buildN8nWebhookPayload,
+  getContentSourceValue,
+  validateGenerationRequest,
+} from '../services/n8nService.js';
+import { isRecord, voiceProfileFromRow, type VoiceProfileRow } from '../services/voiceProfileMapper.js';
+import {
+  ContentSource,
+  type Generation,
+  type GenerationRequest,
+  type N8nWebhookResponse,
+  SubscriptionStatus,
+} from '../types.js';
+
+// n8n trigger configuration (server-only, never exposed to the browser)
+const n8nWebhookUrl = process.env.N8N_WEBHOOK_URL || '';
+const n8nApiKey = process.env.N8N_API_KEY || '';
+const N8N_API_KEY_HEADER = 'X-N8N-API-KEY';
+
+function getCallbackUrl(req: VercelRequest): string {
+  if (process.env.N8N_CALLBACK_URL) {
+    return process.env.N8N_CALLBACK_URL;
+  }
+  return `https://${req.headers.host}/api/webhook`;
+}
+
+const CONTENT_SOURCES = Object.values(ContentSource) as string[];
+
+// Missing or empty strings come back undefined; anything that isn't a string is an error
+function readOptionalString(body: Record<string, unknown>, key: string, errors: string[]): string | undefined {
+  const value = body[key];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') {
+    errors.push(`${key} must be a string`);
+    return undefined;
+  }
+  return value;
+}
+
+function readDeliveryOptions(value: unknown, errors: string[]): GenerationRequest['delivery_options'] {
+  if (value === undefined || value === null) return undefined;
+  if (
+    !isRecord(value) ||
+    typeof value.email !== 'boolean' ||
+    typeof value.google_drive !== 'boolean' ||
+    (value.slack !== undefined && typeof value.slack !== 'string')
+  ) {
+    errors.push('delivery_options must be { email: boolean, google_drive: boolean, slack?: string }');
+    return undefined;
+  }
+  return {
+    email: value.email,
+    google_drive: value.google_drive,
+    ...(typeof value.slack === 'string' ? { slack: value.slack } : {}),
+  };
+}
+
+// Copy only the fields we know about, checking their types, so arbitrary JSON
+// never reaches input_data. Returns the type errors; required fields and
+// formats are checked by validateGenerationRequest.
+function parseGenerationRequest(body: unknown): { request: GenerationRequest; errors: string[] } {
+  const errors: string[] = [];
+  const record = isRecord(body) ? body : {};
+  if (!isRecord(body)) {
+    errors.push('Request body must be a JSON object');
+  }
+
+  const contentSource = readOptionalString(record, 'content_source', errors);
+  if (contentSource !== undefined && !CONTENT_SOURCES.includes(contentSource)) {
+    errors.push(`content_source must be one of ${CONTENT_SOURCES.join(', ')}`);
+  }
+
+  return {
+    request: {
+      profile_id: readOptionalString(record, 'profile_id', errors) ?? '',
+      newsletter_name: readOptionalString(record, 'newsletter_name', errors)?.trim() ?? '',
+      content_source: CONTENT_SOURCES.includes(contentSource ?? '') ? (contentSource as ContentSource) : undefined,
+      twitter_username: readOptionalString(record, 'twitter_username', errors),
+      youtube_url: readOptionalString(record, 'youtube_url', errors),
+      article_content: readOptionalString(record, 'article_content', errors),
+      custom_instructions: readOptionalString(record, 'custom_instructions', errors),
+      delivery_options: readDeliveryOptions(record.delivery_options, errors),
+    },
+    errors,
+  };
+}
+
+async function markGenerationFailed(generationId: string, message: string) {
+  const { error } = await supabaseAdmin
+    .from('generations')
+    .update({ status: 'failed', error_message: message })
+    .eq('id', generationId);
+
+  if (error) {
+    console.error('Failed to mark generation as failed:', error);
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return sendError(res, 405, 'Method not allowed', ERROR_CODES.METHOD_NOT_ALLOWED);
+  }
+
+  if (!n8nWebhookUrl) {
+    console.error('N8N_WEBHOOK_URL is not configured');
+    return sendError(res, 500, 'Generation service not configured', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return sendError(res, 401, 'Unauthorized', ERROR_CODES.AUTH_REQUIRED);
+  }
+
+  const { request, errors: typeErrors } = parseGenerationRequest(req.body);
+
+  const validationErrors = typeErrors.length > 0 ? typeErrors : validateGenerationRequest(request);
+  if (validationErrors.length > 0) {
+    return sendError(res, 400, 'Validation failed', ERROR_CODES.VALIDATION_ERROR, {
+      errors: validationErrors,
+    });
+  }
+
+  // Load the voice profile server-side, scoped to the caller
+  const { data: profileData, error: profileError } = await supabaseAdmin
+    .from('voice_profiles')
+    .select('*')
+    .eq('id', request.profile_id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (profileError) {
+    console.error('Error fetching voice profile:', profileError);
+    return sendError(res, 500, 'Failed to fetch voice profile', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  if (!profileData) {
+    return sendError(res, 404, 'Voice profile not found', ERROR_CODES.NOT_FOUND);
+  }
+
+  const voiceProfile = voiceProfileFromRow(profileData as VoiceProfileRow);
+
+  if (voiceProfile.status !== 'ready' && voiceProfile.status !== 'approved') {
+    return sendError(res, 400, 'Voice profile is not ready for generation', ERROR_CODES.VALIDATION_ERROR, {
+      profile_id: `Profile status is ${voiceProfile.status}`,
+    });
+  }
+
+  // Team setting: unapproved profiles can't be used even when they are ready
+  if (voiceProfile.status !== 'approved') {
+    const { data: settings, error: settingsError } = await supabaseAdmin
+      .from('users')
+      .select('require_approved_profiles')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (settingsError) {
+      console.error('Error fetching user settings:', settingsError);
+      return sendError(res, 500, 'Failed to fetch user settings', ERROR_CODES.INTERNAL_ERROR);
+    }
+
+    if (settings?.require_approved_profiles) {
+      return sendError(res, 400, 'Voice profile must be approved before generating', ERROR_CODES.VALIDATION_ERROR, {
+        profile_id: 'Your team requires approved voice profiles',
+      });
+    }
+  }
+
+  // Claim one generation from the subscription quota before doing any work
+  let claimedAt = new Date().toISOString();
+  try {
+    const claim = await claimGenerationQuota(user.id);
+    if (
+      !claim.allowed &&
+      claim.subscription_status !== SubscriptionStatus.Active &&
+      claim.subscription_status !== SubscriptionStatus.Trialing
+    ) {
+      return sendError(res, 403, 'Subscription is not active', ERROR_CODES.FORBIDDEN, {
+        status: claim.subscription_status,
+      });
+    }
+    if (!claim.allowed) {
+      return sendError(res, 429, 'Generation limit reached', ERROR_CODES.RATE_LIMIT_EXCEEDED, {
+        limit: claim.generations_limit,
+        used: claim.generations_this_period,
+        reset_at: claim.current_period_end,
+      });
+    }
+  } catch (error) {
+    console.error('Error claiming generation quota:', error);
+    return sendError(res, 500, 'Failed to check generation limit', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  // Create the generation record
+  const { data: generationData, error: insertError } = await supabaseAdmin
+    .from('generations')
+    .insert({
+      user_id: user.id,
+      profile_id: request.profile_id,
+      content_type: request.content_source,
+      content_source: getContentSourceValue(request),
+      input_data: request,
+      status: 'pending',
+    })
+    .select()
+    .single();
+
+  if (insertError || !generationData) {
+    console.error('Error creating generation:', insertError);
+    await refundGenerationQuota(user.id, claimedAt);
+    return sendError(res, 500, 'Failed to create generation', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  const generation = generationData as Generation;
+  claimedAt = generation.created_at || claimedAt;
+
+  try {
+    const voiceExamples = await selectVoiceExamples(voiceProfile.id);
+
+    const payload = buildN8nWebhookPayload({
+      userId: user.id,
+      profileId: request.profile_id,
+      generationId: generation.id,
+      request,
+      voiceProfile,
+      voiceExamples,
+      callbackUrl: getCallbackUrl(req),
+    });
+
+    console.log('Triggering n8n workflow for generation:', generation.id);
+
+    const response = await fetch(n8nWebhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [N8N_API_KEY_HEADER]: n8nApiKey,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    console.log('n8n response status:', response.status);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('n8n webhook error:', errorText);
+      throw new Error(`n8n webhook failed: ${response.status}`);
+    }
+
+    const n8nResponse = (await response.json()) as N8nWebhookResponse;
+
+    // Check if the response indicates success and contains newsletters
+    const isCompleted = n8nResponse.success && n8nResponse.status === 'completed' && n8nResponse.newsletters?.length > 0;
+    const now = new Date().toISOString();
+
+    const { data: updatedData, error: updateError } = await supabaseAdmin
+      .from('generations')
+      .update({
+        status: isCompleted ? 'completed' : 'processing',
+        n8n_execution_id: n8nResponse.execution_id,
+        started_at: now,
+        completed_at: isCompleted ? now : null,
+        newsletters: isCompleted ? n8nResponse.newsletters : null,
+        word_count_total: isCompleted ? n8nResponse.total_words : null,
+      })
+      .eq('id', generation.id)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error('Error updating generation:', updateError);
+      throw new Error('Failed to record n8n execution');
+    }
+
+    await markVoiceExamplesLearned(voiceExamples.ids);
+
+    // n8n answered synchronously with the articles - expand them into rows now
+    if (isCompleted) {
+      try {
+        await saveNewsletters(generation.id, user.id, n8nResponse.newsletters);
+      } catch (error) {
+        console.error('Error saving newsletters:', error);
+      }
+    }
+
+    // Update voice profile last_used_at and increment total_generations
+    const { error: profileUpdateError } = await supabaseAdmin
+      .from('voice_profiles')
+      .update({
+        last_used_at: now,
+        total_generations: (voiceProfile.total_generations || 0) + 1,
+      })
+      .eq('id', voiceProfile.id);
+
+    if (profileUpdateError) {
+      console.error('Error updating voice profile usage:', profileUpdateError);
+    }
+
+    return res.status(200).json({
+      success: true,
+      generation: updatedData as Generation,
+      execution_id: n8nResponse.execution_id,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Generate handler error:', error);
+    await markGenerationFailed(generation.id, message);
+    await refundGenerationQuota(user.id, claimedAt);
+
+    return sendError(res, 502, 'Workflow execution failed', ERROR_CODES.N8N_ERROR, {
+      generation_id: generation.id,
+      error_message: message,
+    });
+  }
+}
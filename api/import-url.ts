@@ -0,0 +1,52 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAuthenticatedUser } from './_lib/auth.js';
+import { sendError, ERROR_CODES } from './_lib/errors.js';
+import { fetchPublicText } from './_lib/http.js';
+
+const FETCH_TIMEOUT_MS = 15000;
+// Large enough for a full RSS archive, small enough to stay well inside the function's memory
+const MAX_BYTES = 5 * 1024 * 1024;
+
+// Fetch a feed or page for the writing sample importer. Browsers can't read
+// most feeds directly because of CORS, so the route returns the raw text and
+// the client does the parsing.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return sendError(res, 405, 'Method not allowed', ERROR_CODES.METHOD_NOT_ALLOWED);
+  }
+
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return sendError(res, 401, 'Unauthorized', ERROR_CODES.AUTH_REQUIRED);
+  }
+
+  const url = req.body?.url;
+  if (typeof url !== 'string' || !url.trim()) {
+    return sendError(res, 400, 'Validation failed', ERROR_CODES.VALIDATION_ERROR, {
+      url: 'URL is required',
+    });
+  }
+
+  try {
+    const remote = await fetchPublicText(url.trim(), { timeoutMs: FETCH_TIMEOUT_MS, maxBytes: MAX_BYTES });
+    return res.status(200).json(remote);
+  } catch (error) {
+    const message =
+      error instanceof Error && error.name === 'TimeoutError'
+        ? 'The site took too long to respond'
+        : error instanceof Error
+          ? error.message
+          : 'Could not fetch that URL';
+    console.error('Error importing URL:', url, error);
+    return sendError(res, 400, 'Could not import that URL', ERROR_CODES.VALIDATION_ERROR, { url: message });
+  }
+}
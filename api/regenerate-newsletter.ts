@@ -0,0 +1,230 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { supabaseAdmin } from './_lib/supabaseAdmin.js';
+import { getAuthenticatedUser } from './_lib/auth.js';
+import { sendError, ERROR_CODES } from './_lib/errors.js';
+import { getNewsletterVersions, replaceNewsletterCopy } from './_lib/newsletters.js';
+import { selectVoiceExamples } from './_lib/voiceExamples.js';
+import { buildN8nWebhookPayload } from '../services/n8nService.js';
+import {
+  copyFromArticle,
+  getOriginalArticle,
+  MAX_NEWSLETTER_INSTRUCTIONS_LENGTH,
+} from '../services/newsletterVersioning.js';
+import { subjectVariantsFromArticle } from '../services/subjectVariantService.js';
+import { voiceProfileFromRow, type VoiceProfileRow } from '../services/voiceProfileMapper.js';
+import type {
+  GenerationRequest,
+  N8nWebhookResponse,
+  Newsletter,
+  NewsletterArticle,
+  NewsletterVersion,
+} from '../types.js';
+
+// Same workflow as /api/generate; the regenerate block tells it to write one idea
+const n8nWebhookUrl = process.env.N8N_WEBHOOK_URL || '';
+const n8nApiKey = process.env.N8N_API_KEY || '';
+const N8N_API_KEY_HEADER = 'X-N8N-API-KEY';
+
+// One article is written synchronously, so wait for it but not forever. Keep this
+// under the route's maxDuration in vercel.json (150s) so the timeout error is sent.
+const REGENERATE_TIMEOUT_MS = 120000;
+
+// Regenerations don't use the generation quota, so cap them per article instead
+const MAX_REGENERATIONS_PER_NEWSLETTER = 5;
+
+function getCallbackUrl(req: VercelRequest): string {
+  if (process.env.N8N_CALLBACK_URL) {
+    return process.env.N8N_CALLBACK_URL;
+  }
+  return `https://${req.headers.host}/api/webhook`;
+}
+
+// Rewrite one article of a completed generation with the same input and the
+// profile as it is now. The new copy becomes the article's current version;
+// the other articles are not touched.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return sendError(res, 405, 'Method not allowed', ERROR_CODES.METHOD_NOT_ALLOWED);
+  }
+
+  if (!n8nWebhookUrl) {
+    console.error('N8N_WEBHOOK_URL is not configured');
+    return sendError(res, 500, 'Generation service not configured', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return sendError(res, 401, 'Unauthorized', ERROR_CODES.AUTH_REQUIRED);
+  }
+
+  const newsletterId = req.body?.newsletter_id;
+  const rawInstructions = req.body?.instructions;
+  const errors: Record<string, string> = {};
+  if (typeof newsletterId !== 'string' || !newsletterId) {
+    errors.newsletter_id = 'Required';
+  }
+  if (rawInstructions !== undefined && rawInstructions !== null && typeof rawInstructions !== 'string') {
+    errors.instructions = 'Must be a string';
+  } else if (typeof rawInstructions === 'string' && rawInstructions.length > MAX_NEWSLETTER_INSTRUCTIONS_LENGTH) {
+    errors.instructions = `Must be at most ${MAX_NEWSLETTER_INSTRUCTIONS_LENGTH} characters`;
+  }
+  if (Object.keys(errors).length > 0) {
+    return sendError(res, 400, 'Validation failed', ERROR_CODES.VALIDATION_ERROR, errors);
+  }
+  const instructions = typeof rawInstructions === 'string' && rawInstructions.trim() ? rawInstructions.trim() : null;
+
+  const { data: newsletterData, error: newsletterError } = await supabaseAdmin
+    .from('newsletters')
+    .select('*')
+    .eq('id', newsletterId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (newsletterError) {
+    console.error('Error fetching newsletter:', newsletterError);
+    return sendError(res, 500, 'Failed to fetch newsletter', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  if (!newsletterData) {
+    return sendError(res, 404, 'Newsletter not found', ERROR_CODES.NOT_FOUND);
+  }
+
+  const newsletter = newsletterData as Newsletter;
+
+  const { data: generation, error: generationError } = await supabaseAdmin
+    .from('generations')
+    .select('id, profile_id, status, input_data, newsletters')
+    .eq('id', newsletter.generation_id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (generationError) {
+    console.error('Error fetching generation:', generationError);
+    return sendError(res, 500, 'Failed to fetch generation', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  if (!generation || generation.status !== 'completed' || !generation.input_data) {
+    return sendError(res, 400, 'Only completed generations can be regenerated', ERROR_CODES.VALIDATION_ERROR, {
+      newsletter_id: 'The generation for this newsletter is not completed',
+    });
+  }
+
+  if (!generation.profile_id) {
+    return sendError(res, 400, 'Voice profile was deleted', ERROR_CODES.VALIDATION_ERROR, {
+      newsletter_id: 'The voice profile used for this newsletter no longer exists',
+    });
+  }
+
+  let versions: NewsletterVersion[];
+  try {
+    versions = await getNewsletterVersions(newsletter.id, user.id);
+  } catch (error) {
+    console.error('Error fetching newsletter versions:', error);
+    return sendError(res, 500, 'Failed to check regeneration limit', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  const regenerations = versions.filter((v) => v.source === 'regenerated').length;
+  if (regenerations >= MAX_REGENERATIONS_PER_NEWSLETTER) {
+    return sendError(res, 429, 'Regeneration limit reached', ERROR_CODES.RATE_LIMIT_EXCEEDED, {
+      limit: MAX_REGENERATIONS_PER_NEWSLETTER,
+      used: regenerations,
+    });
+  }
+
+  const { data: profileData, error: profileError } = await supabaseAdmin
+    .from('voice_profiles')
+    .select('*')
+    .eq('id', generation.profile_id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (profileError) {
+    console.error('Error fetching voice profile:', profileError);
+    return sendError(res, 500, 'Failed to fetch voice profile', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  if (!profileData) {
+    return sendError(res, 404, 'Voice profile not found', ERROR_CODES.NOT_FOUND);
+  }
+
+  const voiceProfile = voiceProfileFromRow(profileData as VoiceProfileRow);
+  const ideaNumber = newsletter.newsletter_number;
+  let article: NewsletterArticle | undefined;
+
+  try {
+    const voiceExamples = await selectVoiceExamples(voiceProfile.id);
+
+    const payload = buildN8nWebhookPayload({
+      userId: user.id,
+      profileId: voiceProfile.id,
+      generationId: generation.id,
+      request: generation.input_data as GenerationRequest,
+      voiceProfile,
+      voiceExamples,
+      callbackUrl: getCallbackUrl(req),
+      regenerate: {
+        idea_number: ideaNumber,
+        instructions,
+        previous_title: newsletter.title,
+        previous_content: newsletter.content_markdown,
+      },
+    });
+
+    console.log('Regenerating newsletter', ideaNumber, 'of generation:', generation.id);
+
+    const response = await fetch(n8nWebhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [N8N_API_KEY_HEADER]: n8nApiKey,
+      },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(REGENERATE_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('n8n webhook error:', errorText);
+      throw new Error(`n8n webhook failed: ${response.status}`);
+    }
+
+    const n8nResponse = (await response.json()) as N8nWebhookResponse;
+    if (n8nResponse.success && n8nResponse.status === 'completed') {
+      const articles = n8nResponse.newsletters || [];
+      article = articles.find((a) => a.idea_number === ideaNumber) || (articles.length === 1 ? articles[0] : undefined);
+    }
+
+    if (!article) {
+      throw new Error('n8n did not return the regenerated article');
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Regenerate handler error:', error);
+    return sendError(res, 502, 'Workflow execution failed', ERROR_CODES.N8N_ERROR, {
+      error_message: message,
+    });
+  }
+
+  try {
+    const original = getOriginalArticle(generation.newsletters as NewsletterArticle[] | null, ideaNumber);
+    const result = await replaceNewsletterCopy(newsletter, versions, original, {
+      copy: copyFromArticle(article),
+      source: 'regenerated',
+      instructions,
+    }, subjectVariantsFromArticle(article));
+
+    return res.status(200).json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error saving regenerated newsletter:', error);
+    return sendError(res, 500, 'Failed to save regenerated newsletter', ERROR_CODES.INTERNAL_ERROR);
+  }
+}
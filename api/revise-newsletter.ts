@@ -0,0 +1,215 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { supabaseAdmin } from './_lib/supabaseAdmin.js';
+import { getAuthenticatedUser } from './_lib/auth.js';
+import { sendError, ERROR_CODES } from './_lib/errors.js';
+import { getNewsletterVersions, replaceNewsletterCopy } from './_lib/newsletters.js';
+import { buildN8nVoiceProfile } from '../services/n8nService.js';
+import {
+  getOriginalArticle,
+  MAX_NEWSLETTER_INSTRUCTIONS_LENGTH,
+  type NewsletterCopy,
+} from '../services/newsletterVersioning.js';
+import { countWords } from '../services/voiceAnalysisService.js';
+import { voiceProfileFromRow, type VoiceProfileRow } from '../services/voiceProfileMapper.js';
+import type { Newsletter, NewsletterArticle, NewsletterVersion } from '../types.js';
+
+// n8n workflow that rewrites one article as instructed and answers synchronously
+const revisionWebhookUrl = process.env.N8N_REVISION_WEBHOOK_URL || '';
+const n8nApiKey = process.env.N8N_API_KEY || '';
+const N8N_API_KEY_HEADER = 'X-N8N-API-KEY';
+
+// Kept under the route's maxDuration in vercel.json (150s) so the timeout error is sent
+const REVISION_TIMEOUT_MS = 120000;
+
+// Revisions don't use the generation quota, so cap them per article instead
+const MAX_REVISIONS_PER_NEWSLETTER = 10;
+
+// Fields the workflow may send back; the ones it leaves out keep their copy
+const REVISABLE_FIELDS = ['title', 'subject_line', 'preview_text', 'content_markdown'] as const;
+
+// Targeted rewrite of one article's current copy ("shorter", "punchier subject
+// line", ...). The result becomes the article's current version, with the
+// instructions that produced it.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return sendError(res, 405, 'Method not allowed', ERROR_CODES.METHOD_NOT_ALLOWED);
+  }
+
+  if (!revisionWebhookUrl) {
+    console.error('N8N_REVISION_WEBHOOK_URL is not configured');
+    return sendError(res, 500, 'Revision service not configured', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return sendError(res, 401, 'Unauthorized', ERROR_CODES.AUTH_REQUIRED);
+  }
+
+  const newsletterId = req.body?.newsletter_id;
+  const instructions = typeof req.body?.instructions === 'string' ? req.body.instructions.trim() : '';
+  const errors: Record<string, string> = {};
+  if (typeof newsletterId !== 'string' || !newsletterId) {
+    errors.newsletter_id = 'Required';
+  }
+  if (!instructions) {
+    errors.instructions = 'Required';
+  } else if (instructions.length > MAX_NEWSLETTER_INSTRUCTIONS_LENGTH) {
+    errors.instructions = `Must be at most ${MAX_NEWSLETTER_INSTRUCTIONS_LENGTH} characters`;
+  }
+  if (Object.keys(errors).length > 0) {
+    return sendError(res, 400, 'Validation failed', ERROR_CODES.VALIDATION_ERROR, errors);
+  }
+
+  const { data: newsletterData, error: newsletterError } = await supabaseAdmin
+    .from('newsletters')
+    .select('*')
+    .eq('id', newsletterId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (newsletterError) {
+    console.error('Error fetching newsletter:', newsletterError);
+    return sendError(res, 500, 'Failed to fetch newsletter', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  if (!newsletterData) {
+    return sendError(res, 404, 'Newsletter not found', ERROR_CODES.NOT_FOUND);
+  }
+
+  const newsletter = newsletterData as Newsletter;
+
+  const { data: generation, error: generationError } = await supabaseAdmin
+    .from('generations')
+    .select('id, profile_id, newsletters')
+    .eq('id', newsletter.generation_id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (generationError || !generation) {
+    console.error('Error fetching generation:', generationError);
+    return sendError(res, 500, 'Failed to fetch generation', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  if (!generation.profile_id) {
+    return sendError(res, 400, 'Voice profile was deleted', ERROR_CODES.VALIDATION_ERROR, {
+      newsletter_id: 'The voice profile used for this newsletter no longer exists',
+    });
+  }
+
+  let versions: NewsletterVersion[];
+  try {
+    versions = await getNewsletterVersions(newsletter.id, user.id);
+  } catch (error) {
+    console.error('Error fetching newsletter versions:', error);
+    return sendError(res, 500, 'Failed to check revision limit', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  const revisions = versions.filter((v) => v.source === 'revised').length;
+  if (revisions >= MAX_REVISIONS_PER_NEWSLETTER) {
+    return sendError(res, 429, 'Revision limit reached', ERROR_CODES.RATE_LIMIT_EXCEEDED, {
+      limit: MAX_REVISIONS_PER_NEWSLETTER,
+      used: revisions,
+    });
+  }
+
+  const { data: profileData, error: profileError } = await supabaseAdmin
+    .from('voice_profiles')
+    .select('*')
+    .eq('id', generation.profile_id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (profileError) {
+    console.error('Error fetching voice profile:', profileError);
+    return sendError(res, 500, 'Failed to fetch voice profile', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  if (!profileData) {
+    return sendError(res, 404, 'Voice profile not found', ERROR_CODES.NOT_FOUND);
+  }
+
+  const voiceProfile = voiceProfileFromRow(profileData as VoiceProfileRow);
+  let revised: NewsletterCopy;
+
+  try {
+    console.log('Revising newsletter', newsletter.id, 'of generation:', generation.id);
+
+    const response = await fetch(revisionWebhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [N8N_API_KEY_HEADER]: n8nApiKey,
+      },
+      body: JSON.stringify({
+        newsletter_id: newsletter.id,
+        instructions,
+        article: {
+          title: newsletter.title,
+          subject_line: newsletter.subject_line,
+          preview_text: newsletter.preview_text,
+          content_markdown: newsletter.content_markdown,
+        },
+        voice_profile: buildN8nVoiceProfile(voiceProfile),
+      }),
+      signal: AbortSignal.timeout(REVISION_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('n8n revision webhook error:', errorText);
+      throw new Error(`n8n revision webhook failed: ${response.status}`);
+    }
+
+    const data = (await response.json()) as Partial<Record<(typeof REVISABLE_FIELDS)[number], unknown>>;
+    const returned = REVISABLE_FIELDS.filter((field) => {
+      const value = data[field];
+      return typeof value === 'string' && value.trim() !== '';
+    });
+    if (returned.length === 0) {
+      throw new Error('n8n did not return the revised article');
+    }
+
+    const pick = (field: (typeof REVISABLE_FIELDS)[number]) =>
+      returned.includes(field) ? (data[field] as string).trim() : newsletter[field];
+    const contentMarkdown = pick('content_markdown');
+    revised = {
+      title: pick('title'),
+      subject_line: pick('subject_line'),
+      preview_text: pick('preview_text'),
+      content_markdown: contentMarkdown,
+      word_count: contentMarkdown === newsletter.content_markdown ? newsletter.word_count : countWords(contentMarkdown),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Revise handler error:', error);
+    return sendError(res, 502, 'Workflow execution failed', ERROR_CODES.N8N_ERROR, {
+      error_message: message,
+    });
+  }
+
+  try {
+    const original = getOriginalArticle(
+      generation.newsletters as NewsletterArticle[] | null,
+      newsletter.newsletter_number
+    );
+    const result = await replaceNewsletterCopy(newsletter, versions, original, {
+      copy: revised,
+      source: 'revised',
+      instructions,
+    });
+
+    return res.status(200).json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error saving revised newsletter:', error);
+    return sendError(res, 500, 'Failed to save revised newsletter', ERROR_CODES.INTERNAL_ERROR);
+  }
+}
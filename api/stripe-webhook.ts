@@ -0,0 +1,264 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type Stripe from 'stripe';
+import { supabaseAdmin } from './_lib/supabaseAdmin.js';
+import { readRawBody, getHeader } from './_lib/http.js';
+import {
+  getStripe,
+  getPlanForPriceId,
+  toSubscriptionStatus,
+  fromUnixTimestamp,
+} from './_lib/stripe.js';
+import { PLAN_GENERATION_LIMITS, SubscriptionPlan, SubscriptionStatus } from '../types.js';
+
+// Signing secret of the Stripe webhook endpoint (or `stripe listen`)
+const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET || '';
+
+// Stripe signs the raw body, so the handler reads it with readRawBody and
+// lets constructEvent parse it instead of using req.body
+
+interface SubscriptionRow {
+  id: string;
+  status: SubscriptionStatus;
+  current_period_start: string;
+  stripe_event_at: string | null;
+}
+
+function getCustomerId(customer: string | Stripe.Customer | Stripe.DeletedCustomer | null): string | null {
+  if (!customer) return null;
+  return typeof customer === 'string' ? customer : customer.id;
+}
+
+// Billing periods live on the subscription item in current API versions and
+// on the subscription itself in older ones (and older recorded fixtures)
+function getSubscriptionPeriod(subscription: Stripe.Subscription) {
+  const item = subscription.items?.data[0] as Partial<Stripe.SubscriptionItem> | undefined;
+  const legacy = subscription as unknown as { current_period_start?: number; current_period_end?: number };
+
+  return {
+    start: fromUnixTimestamp(item?.current_period_start ?? legacy.current_period_start),
+    end: fromUnixTimestamp(item?.current_period_end ?? legacy.current_period_end),
+  };
+}
+
+// Match by subscription id first, then customer id (stored before checkout),
+// then the user id we attach as subscription metadata
+async function findSubscriptionRow(subscription: Stripe.Subscription): Promise<SubscriptionRow | null> {
+  const candidates: Array<[string, string | null | undefined]> = [
+    ['stripe_subscription_id', subscription.id],
+    ['stripe_customer_id', getCustomerId(subscription.customer)],
+    ['user_id', subscription.metadata?.user_id],
+  ];
+
+  for (const [column, value] of candidates) {
+    if (!value) continue;
+
+    const { data, error } = await supabaseAdmin
+      .from('subscriptions')
+      .select('id, status, current_period_start, stripe_event_at')
+      .eq(column, value)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to look up subscription by ${column}: ${error.message}`);
+    }
+    if (data) {
+      return data as SubscriptionRow;
+    }
+  }
+
+  return null;
+}
+
+async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
+  const userId = session.client_reference_id || session.metadata?.user_id;
+  if (session.mode !== 'subscription' || !userId) {
+    return;
+  }
+
+  const subscriptionId = typeof session.subscription === 'string'
+    ? session.subscription
+    : session.subscription?.id;
+
+  const { error } = await supabaseAdmin
+    .from('subscriptions')
+    .update({
+      stripe_customer_id: getCustomerId(session.customer),
+      stripe_subscription_id: subscriptionId || null,
+    })
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to link checkout session: ${error.message}`);
+  }
+}
+
+// Stripe doesn't deliver events in order, so a subscription event older than
+// the last one applied is stale. Within the same second a deletion wins.
+function isStaleEvent(row: SubscriptionRow, eventCreated: number, deleted: boolean): boolean {
+  if (!row.stripe_event_at) return false;
+
+  const eventAt = eventCreated * 1000;
+  const lastAt = new Date(row.stripe_event_at).getTime();
+  return eventAt < lastAt || (eventAt === lastAt && !deleted && row.status === SubscriptionStatus.Canceled);
+}
+
+async function syncSubscription(subscription: Stripe.Subscription, deleted: boolean, eventCreated: number) {
+  const row = await findSubscriptionRow(subscription);
+  if (!row) {
+    console.warn('No subscription row for Stripe subscription:', subscription.id);
+    return;
+  }
+
+  if (isStaleEvent(row, eventCreated, deleted)) {
+    console.log('Skipping out-of-order Stripe event for subscription:', subscription.id);
+    return;
+  }
+
+  let updateData: Record<string, unknown>;
+
+  if (deleted) {
+    // Ended subscriptions fall back to the free starter allowance
+    updateData = {
+      stripe_subscription_id: null,
+      stripe_price_id: null,
+      plan_name: SubscriptionPlan.Starter,
+      status: SubscriptionStatus.Canceled,
+      generations_limit: PLAN_GENERATION_LIMITS[SubscriptionPlan.Starter],
+      cancel_at: null,
+      canceled_at: fromUnixTimestamp(subscription.canceled_at) || new Date().toISOString(),
+      trial_ends_at: null,
+    };
+  } else {
+    const priceId = subscription.items?.data[0]?.price?.id || null;
+    const plan = getPlanForPriceId(priceId);
+    const period = getSubscriptionPeriod(subscription);
+
+    updateData = {
+      stripe_customer_id: getCustomerId(subscription.customer),
+      stripe_subscription_id: subscription.id,
+      stripe_price_id: priceId,
+      status: toSubscriptionStatus(subscription.status),
+      cancel_at: fromUnixTimestamp(subscription.cancel_at) ||
+        (subscription.cancel_at_period_end ? period.end : null),
+      canceled_at: fromUnixTimestamp(subscription.canceled_at),
+      trial_ends_at: fromUnixTimestamp(subscription.trial_end),
+    };
+
+    if (plan) {
+      updateData.plan_name = plan;
+      updateData.generations_limit = PLAN_GENERATION_LIMITS[plan];
+    } else {
+      console.error('Stripe price is not mapped to a plan:', priceId);
+    }
+
+    if (period.start && period.end) {
+      updateData.current_period_start = period.start;
+      updateData.current_period_end = period.end;
+
+      // A renewal starts a new period; claim_generation_quota rolls over to the
+      // same start, so only a strictly later start resets usage
+      if (new Date(period.start).getTime() > new Date(row.current_period_start).getTime()) {
+        updateData.generations_this_period = 0;
+      }
+    }
+  }
+
+  updateData.stripe_event_at = fromUnixTimestamp(eventCreated);
+
+  const { error } = await supabaseAdmin
+    .from('subscriptions')
+    .update(updateData)
+    .eq('id', row.id);
+
+  if (error) {
+    throw new Error(`Failed to update subscription: ${error.message}`);
+  }
+}
+
+// Stripe retries events it didn't see a 2xx for, and may send one twice
+async function isProcessedEvent(eventId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('stripe_events')
+    .select('id')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up Stripe event: ${error.message}`);
+  }
+  return data !== null;
+}
+
+async function recordProcessedEvent(event: Stripe.Event) {
+  const { error } = await supabaseAdmin
+    .from('stripe_events')
+    .upsert({ id: event.id, type: event.type }, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to record Stripe event: ${error.message}`);
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!webhookSecret) {
+    console.error('STRIPE_WEBHOOK_SECRET is not configured - rejecting event');
+    return res.status(500).json({ error: 'Webhook secret not configured' });
+  }
+
+  let event: Stripe.Event;
+  try {
+    const rawBody = await readRawBody(req);
+    const signature = getHeader(req, 'stripe-signature');
+
+    if (!signature) {
+      return res.status(400).json({ error: 'Missing Stripe-Signature header' });
+    }
+
+    event = getStripe().webhooks.constructEvent(rawBody, signature, webhookSecret);
+  } catch (error) {
+    console.error('Stripe signature verification failed:', error);
+    return res.status(400).json({ error: 'Invalid signature' });
+  }
+
+  console.log('Received Stripe event:', event.type, event.id);
+
+  try {
+    if (await isProcessedEvent(event.id)) {
+      console.log('Stripe event already processed:', event.id);
+      return res.status(200).json({ received: true, duplicate: true });
+    }
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+        await handleCheckoutCompleted(event.data.object);
+        break;
+
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+        await syncSubscription(event.data.object, false, event.created);
+        break;
+
+      case 'customer.subscription.deleted':
+        await syncSubscription(event.data.object, true, event.created);
+        break;
+
+      default:
+        // Other events are acknowledged so Stripe stops retrying them
+        break;
+    }
+
+    await recordProcessedEvent(event);
+    return res.status(200).json({ received: true });
+  } catch (error) {
+    // A non-2xx response makes Stripe retry the event later
+    console.error('Stripe webhook handler error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { supabaseAdmin } from './_lib/supabaseAdmin.js';
+import { getAuthenticatedUser } from './_lib/auth.js';
+import { sendError, ERROR_CODES } from './_lib/errors.js';
+import { generateVoicePreview } from './_lib/voicePreview.js';
+import { voiceProfileFromRow, type VoiceProfileRow } from '../services/voiceProfileMapper.js';
+
+// Write a short test paragraph with one of the caller's voice profiles.
+// Previews don't count against the generation quota.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return sendError(res, 405, 'Method not allowed', ERROR_CODES.METHOD_NOT_ALLOWED);
+  }
+
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return sendError(res, 401, 'Unauthorized', ERROR_CODES.AUTH_REQUIRED);
+  }
+
+  const profileId = req.body?.profile_id;
+  if (typeof profileId !== 'string' || !profileId) {
+    return sendError(res, 400, 'Validation failed', ERROR_CODES.VALIDATION_ERROR, {
+      profile_id: 'Voice profile is required',
+    });
+  }
+
+  const { data: profileData, error: profileError } = await supabaseAdmin
+    .from('voice_profiles')
+    .select('*')
+    .eq('id', profileId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (profileError) {
+    console.error('Error fetching voice profile:', profileError);
+    return sendError(res, 500, 'Failed to fetch voice profile', ERROR_CODES.INTERNAL_ERROR);
+  }
+
+  if (!profileData) {
+    return sendError(res, 404, 'Voice profile not found', ERROR_CODES.NOT_FOUND);
+  }
+
+  try {
+    const preview = await generateVoicePreview(voiceProfileFromRow(profileData as VoiceProfileRow));
+    return res.status(200).json(preview);
+  } catch (error) {
+    console.error('Error generating voice preview:', error);
+    return sendError(res, 502, 'Preview generation failed', ERROR_CODES.N8N_ERROR);
+  }
+}
@@ -0,0 +1,53 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAuthenticatedUser } from './_lib/auth.js';
+import { sendError, ERROR_CODES } from './_lib/errors.js';
+import { rewriteWithVoice } from './_lib/voicePreview.js';
+import { buildDraftN8nVoiceProfile } from '../services/n8nService.js';
+import { MAX_REWRITE_CHARS } from '../services/voiceAnalysisService.js';
+import { validateVoiceProfileFormData } from '../services/voiceProfileMapper.js';
+import type { VoiceProfileFormData } from '../types.js';
+
+// Rewrite a paragraph with the settings currently open in the profile wizard.
+// The profile may not be saved yet, so the form data comes with the request.
+// Like previews, rewrites don't count against the generation quota.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return sendError(res, 405, 'Method not allowed', ERROR_CODES.METHOD_NOT_ALLOWED);
+  }
+
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    return sendError(res, 401, 'Unauthorized', ERROR_CODES.AUTH_REQUIRED);
+  }
+
+  const errors = validateVoiceProfileFormData(req.body?.voice_profile, 'voice_profile.');
+  const paragraph = typeof req.body?.paragraph === 'string' ? req.body.paragraph.trim() : '';
+  if (!paragraph) {
+    errors.paragraph = 'Paragraph is required';
+  } else if (paragraph.length > MAX_REWRITE_CHARS) {
+    errors.paragraph = `Must be at most ${MAX_REWRITE_CHARS} characters`;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return sendError(res, 400, 'Validation failed', ERROR_CODES.VALIDATION_ERROR, errors);
+  }
+
+  const formData = req.body.voice_profile as VoiceProfileFormData;
+
+  try {
+    const preview = await rewriteWithVoice(formData, buildDraftN8nVoiceProfile(formData), paragraph);
+    return res.status(200).json(preview);
+  } catch (error) {
+    console.error('Error rewriting paragraph:', error);
+    return sendError(res, 502, 'Rewrite failed', ERROR_CODES.N8N_ERROR);
+  }
+}
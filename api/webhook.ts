@@ -1,5 +1,9 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { refundGenerationQuota } from './_lib/quota.js';
+import { readRawBody, getHeader } from './_lib/http.js';
+import { saveNewsletters } from './_lib/newsletters.js';
 
 // Initialize Supabase client with service role for server-side operations
 const supabaseUrl = process.env.VITE_SUPABASE_URL || '';
@@ -7,6 +11,18 @@ const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+// Shared secret used by n8n to sign completion callbacks
+const webhookSecret = process.env.N8N_WEBHOOK_SECRET || '';
+
+const SIGNATURE_HEADER = 'x-n8n-signature';
+const TIMESTAMP_HEADER = 'x-n8n-timestamp';
+
+// Callbacks signed more than 5 minutes ago (or in the future) are rejected as replays
+const REPLAY_WINDOW_SECONDS = 5 * 60;
+
+// The signature is computed over the raw body, so the handler reads it with
+// readRawBody and parses the JSON itself instead of using req.body
+
 interface N8nCompletionPayload {
   execution_id: string;
   generation_id: string;
@@ -17,6 +33,7 @@ interface N8nCompletionPayload {
     title: string;
     subject_line: string;
     preview_text: string;
+    subject_variants?: Array<{ subject_line: string; preview_text: string }>;
     content: string;
     markdown_content: string;
     word_count: number;
@@ -36,37 +53,122 @@ interface N8nCompletionPayload {
   error_message?: string;
 }
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // Enable CORS
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+// Signature is hex(HMAC-SHA256(secret, `${timestamp}.${rawBody}`))
+function isValidSignature(rawBody: string, timestamp: string, signature: string): boolean {
+  const expected = createHmac('sha256', webhookSecret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest('hex');
+
+  const received = signature.replace(/^sha256=/, '');
+  const expectedBuffer = Buffer.from(expected, 'utf8');
+  const receivedBuffer = Buffer.from(received, 'utf8');
 
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
+  if (expectedBuffer.length !== receivedBuffer.length) {
+    return false;
   }
 
+  return timingSafeEqual(expectedBuffer, receivedBuffer);
+}
+
+function isWithinReplayWindow(timestamp: string): boolean {
+  const signedAt = Number(timestamp);
+  if (!Number.isFinite(signedAt)) return false;
+
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  return Math.abs(nowSeconds - signedAt) <= REPLAY_WINDOW_SECONDS;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  if (!webhookSecret) {
+    console.error('N8N_WEBHOOK_SECRET is not configured - rejecting callback');
+    return res.status(500).json({ error: 'Webhook secret not configured' });
+  }
+
   try {
-    const payload = req.body as N8nCompletionPayload;
+    const rawBody = await readRawBody(req);
+    const signature = getHeader(req, SIGNATURE_HEADER);
+    const timestamp = getHeader(req, TIMESTAMP_HEADER);
+
+    if (!signature || !timestamp) {
+      return res.status(401).json({ error: 'Missing signature headers' });
+    }
+
+    if (!isWithinReplayWindow(timestamp)) {
+      return res.status(401).json({ error: 'Signature timestamp outside allowed window' });
+    }
+
+    if (!isValidSignature(rawBody, timestamp, signature)) {
+      return res.status(401).json({ error: 'Invalid signature' });
+    }
+
+    let payload: N8nCompletionPayload;
+    try {
+      payload = JSON.parse(rawBody) as N8nCompletionPayload;
+    } catch {
+      return res.status(400).json({ error: 'Invalid JSON body' });
+    }
 
-    console.log('Received n8n callback:', JSON.stringify(payload, null, 2));
+    console.log('Received n8n callback for generation:', payload.generation_id, 'status:', payload.status);
 
     if (!payload.generation_id) {
       return res.status(400).json({ error: 'Missing generation_id' });
     }
 
+    if (!payload.execution_id) {
+      return res.status(400).json({ error: 'Missing execution_id' });
+    }
+
+    // Only accept callbacks for the execution that startGeneration recorded
+    const { data: existing, error: fetchError } = await supabase
+      .from('generations')
+      .select('id, user_id, status, n8n_execution_id, created_at')
+      .eq('id', payload.generation_id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching generation:', fetchError);
+      return res.status(500).json({ error: 'Failed to fetch generation', details: fetchError });
+    }
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Generation not found' });
+    }
+
+    if (!existing.n8n_execution_id || existing.n8n_execution_id !== payload.execution_id) {
+      console.warn('Execution id mismatch for generation:', payload.generation_id);
+      return res.status(409).json({ error: 'Execution id does not match generation' });
+    }
+
+    if (existing.status === 'completed' || existing.status === 'failed') {
+      return res.status(200).json({
+        success: true,
+        message: 'Generation already finalized',
+        generation_id: payload.generation_id,
+      });
+    }
+
     // Calculate total word count if not provided
     const wordCountTotal = payload.total_words ||
       payload.newsletters?.reduce((sum, n) => sum + (n.word_count || 0), 0) || 0;
 
+    // Store each article as its own row before finalizing, so a failure here
+    // leaves the generation open and n8n's retry can complete it
+    if (payload.status === 'completed' && payload.newsletters?.length) {
+      try {
+        await saveNewsletters(payload.generation_id, existing.user_id, payload.newsletters);
+      } catch (error) {
+        console.error('Error saving newsletters:', error);
+        return res.status(500).json({ error: 'Failed to save newsletters' });
+      }
+    }
+
     // Update the generation record in Supabase
     const updateData: Record<string, unknown> = {
       status: payload.status,
-      n8n_execution_id: payload.execution_id,
     };
 
     if (payload.status === 'completed') {
@@ -80,22 +182,34 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       updateData.error_message = payload.error_message || 'Unknown error';
     }
 
-    console.log('Updating generation with data:', JSON.stringify(updateData, null, 2));
-    console.log('Using Supabase URL:', supabaseUrl ? 'Set' : 'NOT SET');
-    console.log('Using Service Key:', supabaseServiceKey ? 'Set (length: ' + supabaseServiceKey.length + ')' : 'NOT SET');
-
-    const { data: updateResult, error: updateError } = await supabase
+    // Only an open generation can be finalized, so of two concurrent
+    // deliveries of the same callback exactly one updates the row
+    const { data: updated, error: updateError } = await supabase
       .from('generations')
       .update(updateData)
       .eq('id', payload.generation_id)
-      .select();
+      .eq('n8n_execution_id', payload.execution_id)
+      .in('status', ['pending', 'processing'])
+      .select('id');
 
     if (updateError) {
       console.error('Error updating generation:', updateError);
       return res.status(500).json({ error: 'Failed to update generation', details: updateError });
     }
 
-    console.log('Update result:', JSON.stringify(updateResult, null, 2));
+    if (!updated || updated.length === 0) {
+      return res.status(200).json({
+        success: true,
+        message: 'Generation already finalized',
+        generation_id: payload.generation_id,
+      });
+    }
+
+    // Failed runs do not count against the user's generation limit
+    if (payload.status === 'failed') {
+      await refundGenerationQuota(existing.user_id, existing.created_at);
+    }
+
     console.log('Generation updated successfully:', payload.generation_id);
 
     return res.status(200).json({
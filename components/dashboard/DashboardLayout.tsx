@@ -93,7 +93,7 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({
             <NavItem
               icon={<Mic2 size={20} />}
               label="Voice Profiles"
-              isActive={currentView === 'create-profile' || currentView === 'dashboard'}
+              isActive={currentView === 'create-profile' || currentView === 'review-profile' || currentView === 'voice-examples' || currentView === 'dashboard'}
               onClick={() => onViewChange('dashboard')}
             />
 
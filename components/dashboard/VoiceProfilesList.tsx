@@ -9,8 +9,15 @@ import {
   Zap,
   Trash2,
   Edit3,
+  Star,
+  BookOpen,
+  ClipboardCheck,
+  MessageSquareWarning,
+  Download,
+  Copy,
 } from 'lucide-react';
-import type { VoiceProfile, VoiceProfileStatus } from '../../types';
+import type { VoiceProfile, VoiceProfileExport, VoiceProfileStatus } from '../../types';
+import { ProfileImportButton } from '../voice-profile/ProfileImportButton';
 
 interface VoiceProfilesListProps {
   profiles: VoiceProfile[];
@@ -19,6 +26,11 @@ interface VoiceProfilesListProps {
   onSelect: (profile: VoiceProfile) => void;
   onDelete: (profileId: string) => void;
   onGenerate: (profileId: string) => void;
+  onReviewExamples: (profile: VoiceProfile) => void;
+  onReview: (profile: VoiceProfile) => void;
+  onDuplicate: (profile: VoiceProfile) => void;
+  onExport: (profile: VoiceProfile) => void;
+  onImport: (document: VoiceProfileExport) => Promise<void>;
 }
 
 const StatusBadge: React.FC<{ status: VoiceProfileStatus }> = ({ status }) => {
@@ -46,6 +58,11 @@ export const VoiceProfilesList: React.FC<VoiceProfilesListProps> = ({
   onSelect,
   onDelete,
   onGenerate,
+  onReviewExamples,
+  onReview,
+  onDuplicate,
+  onExport,
+  onImport,
 }) => {
   if (isLoading) {
     return (
@@ -83,6 +100,9 @@ export const VoiceProfilesList: React.FC<VoiceProfilesListProps> = ({
           <Plus size={18} />
           Create Voice Profile
         </button>
+        <div className="mt-4">
+          <ProfileImportButton onImport={onImport} />
+        </div>
       </div>
     );
   }
@@ -107,6 +127,10 @@ export const VoiceProfilesList: React.FC<VoiceProfilesListProps> = ({
         </div>
       </button>
 
+      <div className="flex justify-end">
+        <ProfileImportButton onImport={onImport} />
+      </div>
+
       {/* Profile Cards */}
       {profiles.map((profile) => (
         <div
@@ -140,6 +164,20 @@ export const VoiceProfilesList: React.FC<VoiceProfilesListProps> = ({
                       <Zap size={18} />
                     </button>
                   )}
+                  <button
+                    onClick={() => onReview(profile)}
+                    className="p-2 rounded-lg bg-slate-50 text-slate-600 hover:bg-slate-100 transition-colors"
+                    title="Review and approve profile"
+                  >
+                    <ClipboardCheck size={18} />
+                  </button>
+                  <button
+                    onClick={() => onReviewExamples(profile)}
+                    className="p-2 rounded-lg bg-slate-50 text-slate-600 hover:bg-slate-100 transition-colors"
+                    title="Review voice examples"
+                  >
+                    <BookOpen size={18} />
+                  </button>
                   <button
                     onClick={() => onSelect(profile)}
                     className="p-2 rounded-lg bg-slate-50 text-slate-600 hover:bg-slate-100 transition-colors"
@@ -147,6 +185,20 @@ export const VoiceProfilesList: React.FC<VoiceProfilesListProps> = ({
                   >
                     <Edit3 size={18} />
                   </button>
+                  <button
+                    onClick={() => onDuplicate(profile)}
+                    className="p-2 rounded-lg bg-slate-50 text-slate-600 hover:bg-slate-100 transition-colors"
+                    title="Duplicate profile"
+                  >
+                    <Copy size={18} />
+                  </button>
+                  <button
+                    onClick={() => onExport(profile)}
+                    className="p-2 rounded-lg bg-slate-50 text-slate-600 hover:bg-slate-100 transition-colors"
+                    title="Export profile as JSON"
+                  >
+                    <Download size={18} />
+                  </button>
                   <button
                     onClick={() => onDelete(profile.id)}
                     className="p-2 rounded-lg bg-slate-50 text-slate-600 hover:bg-red-50 hover:text-red-600 transition-colors"
@@ -157,6 +209,13 @@ export const VoiceProfilesList: React.FC<VoiceProfilesListProps> = ({
                 </div>
               </div>
 
+              {profile.status === 'draft' && profile.review_notes && (
+                <div className="mt-4 flex items-start gap-2 p-3 rounded-xl bg-amber-50 text-sm text-amber-800">
+                  <MessageSquareWarning size={16} className="shrink-0 mt-0.5" />
+                  <p className="line-clamp-2">{profile.review_notes}</p>
+                </div>
+              )}
+
               {/* Stats */}
               <div className="mt-4 flex items-center gap-6 text-sm">
                 <div>
@@ -170,11 +229,12 @@ export const VoiceProfilesList: React.FC<VoiceProfilesListProps> = ({
                   <span className="text-slate-500">Generations:</span>{' '}
                   <span className="font-medium text-slate-700">{profile.total_generations}</span>
                 </div>
-                {profile.average_rating && (
-                  <div>
+                {profile.average_rating != null && (
+                  <div className="flex items-center gap-1">
                     <span className="text-slate-500">Avg Rating:</span>{' '}
+                    <Star size={14} className="fill-amber-400 text-amber-400" />
                     <span className="font-medium text-slate-700">
-                      {profile.average_rating.toFixed(1)}/5
+                      {Number(profile.average_rating).toFixed(1)}/5
                     </span>
                   </div>
                 )}
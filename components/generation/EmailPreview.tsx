@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { Monitor, Smartphone } from 'lucide-react';
+
+type PreviewWidth = 'desktop' | 'mobile';
+
+const PREVIEW_WIDTHS: Record<PreviewWidth, number> = {
+  desktop: 680,
+  mobile: 375,
+};
+
+interface EmailPreviewProps {
+  html: string;
+  title?: string;
+}
+
+// Renders email HTML in a sandboxed frame (no scripts) at inbox widths
+export const EmailPreview: React.FC<EmailPreviewProps> = ({ html, title = 'Email preview' }) => {
+  const [width, setWidth] = useState<PreviewWidth>('desktop');
+
+  const widthButtonClass = (active: boolean) =>
+    `flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+      active ? 'bg-slate-900 text-white' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-100'
+    }`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <button onClick={() => setWidth('desktop')} className={widthButtonClass(width === 'desktop')}>
+          <Monitor size={14} />
+          Desktop
+        </button>
+        <button onClick={() => setWidth('mobile')} className={widthButtonClass(width === 'mobile')}>
+          <Smartphone size={14} />
+          Mobile
+        </button>
+        <span className="text-xs text-slate-400">{PREVIEW_WIDTHS[width]}px</span>
+      </div>
+      <div className="overflow-x-auto rounded-xl border border-slate-200 bg-slate-100 p-4">
+        <iframe
+          title={title}
+          srcDoc={html}
+          sandbox=""
+          style={{ width: PREVIEW_WIDTHS[width] }}
+          className="mx-auto block h-[600px] rounded-lg bg-white shadow-sm transition-[width]"
+        />
+      </div>
+    </div>
+  );
+};
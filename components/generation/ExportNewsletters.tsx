@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, Archive, Download, Eye, X } from 'lucide-react';
+import type { EmailTemplate, Generation, Newsletter } from '../../types';
+import { findEmailTemplate, getEmailTemplates } from '../../services/emailTemplateService';
+import {
+  EXPORT_FORMATS,
+  exportGeneration,
+  exportNewsletter,
+  getNewsletterFileName,
+  renderEmailHtml,
+  toExportDocument,
+  type ExportFormat,
+} from '../../services/newsletterExportService';
+import { EmailPreview } from './EmailPreview';
+
+interface ExportNewslettersProps {
+  newsletter: Newsletter;
+  newsletters: Newsletter[];
+  generation: Generation;
+  onClose: () => void;
+}
+
+// Template choice for email HTML: the brand matched to this newsletter, no
+// brand, or a template picked by id
+type TemplateChoice = 'auto' | 'none' | string;
+
+// Downloads the current copy of one article, or every article of the
+// generation as a zip, in a format ready for an ESP or an editor
+export const ExportNewsletters: React.FC<ExportNewslettersProps> = ({ newsletter, newsletters, generation, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('html');
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [templateChoice, setTemplateChoice] = useState<TemplateChoice>('auto');
+  const [showPreview, setShowPreview] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const newsletterName = generation.input_data?.newsletter_name || generation.newsletters?.[0]?.newsletter_name || '';
+  const matched = findEmailTemplate(templates, newsletterName, generation.profile_id);
+  const brand =
+    templateChoice === 'auto' ? matched
+      : templateChoice === 'none' ? null
+        : templates.find((t) => t.id === templateChoice) ?? null;
+
+  useEffect(() => {
+    getEmailTemplates(generation.user_id)
+      .then(setTemplates)
+      .catch((err) => console.error('Failed to load email templates:', err));
+  }, [generation.user_id]);
+
+  const previewHtml = useMemo(
+    () => (showPreview ? renderEmailHtml(toExportDocument(newsletter), { brand, newsletterName }) : ''),
+    [showPreview, newsletter, brand, newsletterName]
+  );
+
+  const runExport = (exportFn: () => void) => {
+    setError(null);
+    try {
+      exportFn();
+    } catch (err) {
+      console.error('Failed to export newsletters:', err);
+      setError('Failed to build the export file');
+    }
+  };
+
+  return (
+    <div className="p-6 border-b border-slate-100 bg-slate-50 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-slate-700">Export</h4>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        Email HTML is a responsive, inline-styled template with the subject line and preview text set, ready to paste
+        into your email platform.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setFormat(key)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+              format === key
+                ? 'bg-indigo-50 border-indigo-200 text-indigo-700'
+                : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-100'
+            }`}
+          >
+            {EXPORT_FORMATS[key].label}
+          </button>
+        ))}
+      </div>
+
+      {format === 'html' && (
+        <div className="flex items-center gap-3 flex-wrap">
+          <label className="text-xs font-medium text-slate-500">Brand template</label>
+          <select
+            value={templateChoice}
+            onChange={(e) => setTemplateChoice(e.target.value)}
+            className="px-3 py-1.5 rounded-lg bg-white border border-slate-200 text-sm text-slate-700 outline-none focus:border-indigo-500"
+          >
+            <option value="auto">{matched ? `${matched.name} (matched)` : 'Automatic (none matched)'}</option>
+            <option value="none">No template</option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowPreview((prev) => !prev)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+              showPreview ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-100'
+            }`}
+          >
+            <Eye size={14} />
+            {showPreview ? 'Hide preview' : 'Preview email'}
+          </button>
+        </div>
+      )}
+
+      {format === 'html' && showPreview && <EmailPreview html={previewHtml} title={newsletter.subject_line} />}
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <button
+          onClick={() =>
+            runExport(() => exportNewsletter(newsletter, generation.newsletters, format, { brand, newsletterName }))
+          }
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-900 text-white text-sm font-medium hover:bg-slate-800 transition-colors"
+        >
+          <Download size={16} />
+          Download this article
+        </button>
+        <button
+          onClick={() =>
+            runExport(() => exportGeneration(newsletterName, newsletters, generation.newsletters, format, brand))
+          }
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white border border-slate-200 text-slate-700 text-sm font-medium hover:bg-slate-100 transition-colors"
+        >
+          <Archive size={16} />
+          Download all {newsletters.length} (.zip)
+        </button>
+        <span className="text-xs text-slate-400">
+          {getNewsletterFileName(newsletter, generation.newsletters, format)}
+        </span>
+      </div>
+
+      {error && (
+        <p className="flex items-start gap-2 text-sm text-red-600">
+          <AlertCircle size={16} className="shrink-0 mt-0.5" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
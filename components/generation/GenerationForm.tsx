@@ -9,16 +9,22 @@ import {
   Loader2,
   CheckCircle2,
   Mic2,
+  Gauge,
 } from 'lucide-react';
 import type {
   VoiceProfile,
   GenerationRequest,
   ContentSource,
+  Subscription,
 } from '../../types';
 import { validateGenerationRequest } from '../../services/n8nService';
+import { getGenerationsUsed, getRemainingGenerations, isPeriodExpired } from '../../services/subscriptionService';
 
 interface GenerationFormProps {
   profiles: VoiceProfile[];
+  // Team setting: only approved profiles can be picked
+  requireApproved?: boolean;
+  subscription?: Subscription | null;
   onSubmit: (request: GenerationRequest) => Promise<void>;
   onCreateProfile: () => void;
   isSubmitting: boolean;
@@ -26,6 +32,8 @@ interface GenerationFormProps {
 
 export const GenerationForm: React.FC<GenerationFormProps> = ({
   profiles,
+  requireApproved = false,
+  subscription,
   onSubmit,
   onCreateProfile,
   isSubmitting,
@@ -40,7 +48,12 @@ export const GenerationForm: React.FC<GenerationFormProps> = ({
   });
   const [errors, setErrors] = useState<string[]>([]);
 
-  const readyProfiles = profiles.filter((p) => p.status === 'ready' || p.status === 'approved');
+  const readyProfiles = profiles.filter((p) =>
+    requireApproved ? p.status === 'approved' : p.status === 'ready' || p.status === 'approved'
+  );
+
+  const remainingGenerations = subscription ? getRemainingGenerations(subscription) : null;
+  const isLimitReached = remainingGenerations !== null && remainingGenerations <= 0;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -48,6 +61,11 @@ export const GenerationForm: React.FC<GenerationFormProps> = ({
     console.log('GenerationForm: formData:', formData);
     setErrors([]);
 
+    if (isLimitReached) {
+      setErrors(['You have used all generations for this billing period']);
+      return;
+    }
+
     const validationErrors = validateGenerationRequest(formData);
     console.log('GenerationForm: validationErrors:', validationErrors);
     if (validationErrors.length > 0) {
@@ -105,9 +123,13 @@ export const GenerationForm: React.FC<GenerationFormProps> = ({
         <div className="w-16 h-16 bg-amber-50 rounded-2xl flex items-center justify-center mx-auto mb-6">
           <Mic2 className="text-amber-600" size={32} />
         </div>
-        <h3 className="text-xl font-bold text-slate-900 mb-2">No Ready Voice Profiles</h3>
+        <h3 className="text-xl font-bold text-slate-900 mb-2">
+          {requireApproved ? 'No Approved Voice Profiles' : 'No Ready Voice Profiles'}
+        </h3>
         <p className="text-slate-500 mb-6 max-w-md mx-auto">
-          You need at least one approved voice profile before you can generate newsletters.
+          {requireApproved
+            ? 'Your team only generates with approved voice profiles. Review and approve a profile from the Voice Profiles page to get started.'
+            : 'You need at least one approved voice profile before you can generate newsletters.'}
         </p>
         <button
           onClick={onCreateProfile}
@@ -141,6 +163,41 @@ export const GenerationForm: React.FC<GenerationFormProps> = ({
         </div>
       </div>
 
+      {/* Usage */}
+      {subscription && (
+        <div
+          className={`p-4 rounded-xl border flex items-center gap-3 ${
+            isLimitReached
+              ? 'bg-amber-50 border-amber-200 text-amber-800'
+              : 'bg-white border-slate-100 text-slate-600'
+          }`}
+        >
+          <Gauge size={20} className={isLimitReached ? 'text-amber-600' : 'text-indigo-600'} />
+          <div className="flex-1 text-sm">
+            {isLimitReached ? (
+              <p className="font-medium">
+                Generation limit reached ({getGenerationsUsed(subscription)}/{subscription.generations_limit} used).
+              </p>
+            ) : (
+              <p>
+                <span className="font-bold text-slate-900">{remainingGenerations}</span> of{' '}
+                {subscription.generations_limit} generations left this period
+              </p>
+            )}
+            {!isPeriodExpired(subscription) && (
+              <p className="text-xs opacity-75">
+                Resets{' '}
+                {new Date(subscription.current_period_end).toLocaleDateString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                })}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Errors */}
       {errors.length > 0 && (
         <div className="p-4 bg-red-50 text-red-600 rounded-xl border border-red-100">
@@ -163,6 +220,11 @@ export const GenerationForm: React.FC<GenerationFormProps> = ({
         {/* Voice Profile Selection */}
         <div>
           <label className={labelClass}>Voice Profile</label>
+          {requireApproved && (
+            <p className="text-xs text-slate-500 ml-1 mb-3">
+              Only approved profiles are shown because your team requires approval.
+            </p>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
             {readyProfiles.map((profile) => (
               <button
@@ -287,9 +349,9 @@ export const GenerationForm: React.FC<GenerationFormProps> = ({
         {/* Submit Button */}
         <button
           type="submit"
-          disabled={isSubmitting}
+          disabled={isSubmitting || isLimitReached}
           className={`w-full py-5 rounded-xl font-bold text-lg shadow-xl flex items-center justify-center gap-3 transition-all duration-300 ${
-            isSubmitting
+            isSubmitting || isLimitReached
               ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
               : 'bg-indigo-600 hover:bg-indigo-500 text-white hover:shadow-indigo-500/40 active:scale-[0.98]'
           }`}
@@ -299,6 +361,11 @@ export const GenerationForm: React.FC<GenerationFormProps> = ({
               <Loader2 size={22} className="animate-spin" />
               Starting Generation...
             </>
+          ) : isLimitReached ? (
+            <>
+              <AlertCircle size={22} />
+              Generation Limit Reached
+            </>
           ) : (
             <>
               <Zap size={22} fill="currentColor" />
@@ -12,8 +12,12 @@ import {
   ChevronUp,
   FolderOpen,
   Trash2,
+  Star,
 } from 'lucide-react';
-import type { Generation, GenerationStatus, NewsletterArticle } from '../../types';
+import type { Generation, GenerationStatus, Newsletter } from '../../types';
+import { getNewsletters } from '../../services/newsletterService';
+import { NewsletterRating } from './NewsletterRating';
+import { VoiceFeedback } from './VoiceFeedback';
 
 interface GenerationHistoryProps {
   generations: Generation[];
@@ -74,11 +78,12 @@ const ContentSourceIcon: React.FC<{ type: string }> = ({ type }) => {
 };
 
 interface NewsletterCardProps {
-  newsletter: NewsletterArticle;
-  index: number;
+  newsletter: Newsletter;
+  profileId: string | null;
+  onUpdated: (newsletter: Newsletter) => void;
 }
 
-const NewsletterCard: React.FC<NewsletterCardProps> = ({ newsletter, index }) => {
+const NewsletterCard: React.FC<NewsletterCardProps> = ({ newsletter, profileId, onUpdated }) => {
   const [isContentExpanded, setIsContentExpanded] = React.useState(false);
 
   return (
@@ -87,11 +92,22 @@ const NewsletterCard: React.FC<NewsletterCardProps> = ({ newsletter, index }) =>
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-2 mb-1">
             <span className="text-xs font-bold text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded">
-              #{newsletter.idea_number || index + 1}
+              #{newsletter.newsletter_number}
             </span>
             <span className="text-xs text-slate-400">
-              {newsletter.word_count} words
+              {newsletter.word_count ?? '-'} words
             </span>
+            {newsletter.was_published && (
+              <span className="text-xs font-medium text-green-700 bg-green-100 px-2 py-0.5 rounded">
+                Published
+              </span>
+            )}
+            {newsletter.rating && (
+              <span className="flex items-center gap-0.5 text-xs font-medium text-amber-600">
+                <Star size={12} className="fill-amber-400 text-amber-400" />
+                {newsletter.rating}/5
+              </span>
+            )}
           </div>
           <h4 className="font-medium text-slate-900 mb-1">{newsletter.title}</h4>
           <p className="text-sm text-slate-500 mb-2">
@@ -113,9 +129,13 @@ const NewsletterCard: React.FC<NewsletterCardProps> = ({ newsletter, index }) =>
         <div className="mt-4 p-4 bg-slate-50 rounded-lg border border-slate-200">
           <div className="prose prose-sm max-w-none prose-slate">
             <pre className="whitespace-pre-wrap text-sm text-slate-700 font-sans overflow-x-auto">
-              {newsletter.markdown_content || newsletter.content}
+              {newsletter.content_markdown}
             </pre>
           </div>
+          <div className="mt-4 pt-4 border-t border-slate-200 space-y-4">
+            <NewsletterRating newsletter={newsletter} onUpdated={onUpdated} compact />
+            <VoiceFeedback newsletter={newsletter} profileId={profileId} />
+          </div>
         </div>
       )}
     </div>
@@ -131,6 +151,25 @@ interface GenerationCardProps {
 const GenerationCard: React.FC<GenerationCardProps> = ({ generation, onViewDetails, onDelete }) => {
   const [isExpanded, setIsExpanded] = React.useState(false);
   const [isDeleting, setIsDeleting] = React.useState(false);
+  const [newsletters, setNewsletters] = React.useState<Newsletter[] | null>(null);
+  const [isLoadingNewsletters, setIsLoadingNewsletters] = React.useState(false);
+
+  // Newsletters are loaded from their own table the first time the list is opened
+  const handleToggleExpanded = async () => {
+    const nextExpanded = !isExpanded;
+    setIsExpanded(nextExpanded);
+
+    if (!nextExpanded || newsletters !== null) return;
+
+    setIsLoadingNewsletters(true);
+    try {
+      setNewsletters(await getNewsletters(generation.id));
+    } catch (error) {
+      console.error('Failed to load newsletters:', error);
+    } finally {
+      setIsLoadingNewsletters(false);
+    }
+  };
 
   const handleDelete = async () => {
     if (!onDelete) return;
@@ -178,7 +217,12 @@ const GenerationCard: React.FC<GenerationCardProps> = ({ generation, onViewDetai
                 <h3 className="font-bold text-slate-900">{generation.content_source || 'Generation'}</h3>
                 <StatusBadge status={generation.status} />
               </div>
-              <p className="text-sm text-slate-500">{formatDate(generation.created_at)}</p>
+              <p className="text-sm text-slate-500">
+                {formatDate(generation.created_at)}
+                {generation.profile_version && (
+                  <span title="Voice profile version used"> · Voice v{generation.profile_version}</span>
+                )}
+              </p>
             </div>
           </div>
 
@@ -247,7 +291,7 @@ const GenerationCard: React.FC<GenerationCardProps> = ({ generation, onViewDetai
       {generation.status === 'completed' && generation.newsletters && generation.newsletters.length > 0 && (
         <>
           <button
-            onClick={() => setIsExpanded(!isExpanded)}
+            onClick={handleToggleExpanded}
             className="w-full px-6 py-3 bg-slate-50 border-t border-slate-100 flex items-center justify-between text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors"
           >
             <span>View {generation.newsletters.length} Generated Newsletters</span>
@@ -256,9 +300,23 @@ const GenerationCard: React.FC<GenerationCardProps> = ({ generation, onViewDetai
 
           {isExpanded && (
             <div className="border-t border-slate-100 divide-y divide-slate-100">
-              {generation.newsletters.map((newsletter, index) => (
-                <NewsletterCard key={index} newsletter={newsletter} index={index} />
-              ))}
+              {isLoadingNewsletters ? (
+                <div className="flex items-center justify-center gap-2 p-6 text-sm text-slate-500">
+                  <Loader2 size={16} className="animate-spin" />
+                  Loading newsletters...
+                </div>
+              ) : (
+                (newsletters || []).map((newsletter) => (
+                  <NewsletterCard
+                    key={newsletter.id}
+                    newsletter={newsletter}
+                    profileId={generation.profile_id}
+                    onUpdated={(updated) =>
+                      setNewsletters((prev) => (prev || []).map((n) => (n.id === updated.id ? updated : n)))
+                    }
+                  />
+                ))
+              )}
             </div>
           )}
         </>
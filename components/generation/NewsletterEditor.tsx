@@ -0,0 +1,177 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { AlertCircle, Check, Loader2, RotateCcw } from 'lucide-react';
+import type { Newsletter } from '../../types';
+import { updateNewsletter } from '../../services/newsletterService';
+import type { NewsletterEditableFields } from '../../services/newsletterVersioning';
+import { countWords } from '../../services/voiceAnalysisService';
+
+interface NewsletterEditorProps {
+  newsletter: Newsletter;
+  // The unedited copy of the current version, for "Restore original"
+  original: NewsletterEditableFields | null;
+  onSaved: (newsletter: Newsletter) => void;
+  onDone: () => void;
+}
+
+type SaveStatus = 'saved' | 'pending' | 'saving' | 'error';
+
+// Edits are saved this long after the last keystroke
+const AUTOSAVE_DELAY_MS = 1500;
+
+export const NewsletterEditor: React.FC<NewsletterEditorProps> = ({ newsletter, original, onSaved, onDone }) => {
+  const [draft, setDraft] = useState<NewsletterEditableFields>(() => ({
+    title: newsletter.title,
+    subject_line: newsletter.subject_line,
+    preview_text: newsletter.preview_text,
+    content_markdown: newsletter.content_markdown,
+  }));
+  const [status, setStatus] = useState<SaveStatus>('saved');
+
+  // Latest unsaved draft; saves run one at a time so an older save can't land last
+  const pendingRef = useRef<NewsletterEditableFields | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+  const onSavedRef = useRef(onSaved);
+  onSavedRef.current = onSaved;
+
+  const flush = useCallback((): Promise<void> => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const changes = pendingRef.current;
+    if (!changes) return saveChainRef.current;
+    pendingRef.current = null;
+    setStatus('saving');
+
+    saveChainRef.current = saveChainRef.current.then(async () => {
+      try {
+        onSavedRef.current(await updateNewsletter(newsletter.id, changes));
+        setStatus(pendingRef.current ? 'pending' : 'saved');
+      } catch (err) {
+        console.error('Failed to save newsletter:', err);
+        // Keep the edit so the next keystroke or Done retries it
+        pendingRef.current = pendingRef.current || changes;
+        setStatus('error');
+      }
+    });
+    return saveChainRef.current;
+  }, [newsletter.id]);
+
+  // Switching articles or leaving the page still saves the last edit
+  useEffect(() => () => void flush(), [flush]);
+
+  const applyDraft = (next: NewsletterEditableFields) => {
+    setDraft(next);
+    pendingRef.current = next;
+    setStatus('pending');
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(flush, AUTOSAVE_DELAY_MS);
+  };
+
+  const updateField = (field: keyof NewsletterEditableFields, value: string) => {
+    applyDraft({ ...draft, [field]: value });
+  };
+
+  const handleDone = async () => {
+    await flush();
+    if (!pendingRef.current) onDone();
+  };
+
+  const inputClass =
+    'w-full px-4 py-2.5 rounded-lg bg-white border border-slate-200 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-500/10 outline-none text-sm text-slate-900';
+  const labelClass = 'text-xs font-medium text-slate-500 uppercase tracking-wide mb-1 block';
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="flex items-center gap-2 text-sm text-slate-500">
+          {status === 'saving' && (
+            <>
+              <Loader2 size={16} className="animate-spin" /> Saving...
+            </>
+          )}
+          {status === 'pending' && 'Unsaved changes'}
+          {status === 'saved' && (
+            <>
+              <Check size={16} className="text-green-600" /> All changes saved
+            </>
+          )}
+          {status === 'error' && (
+            <span className="flex items-center gap-2 text-red-600">
+              <AlertCircle size={16} /> Couldn't save, retrying on your next edit
+            </span>
+          )}
+          <span className="text-slate-300">•</span>
+          {countWords(draft.content_markdown).toLocaleString()} words
+        </p>
+        <div className="flex items-center gap-2">
+          {original && (
+            <button
+              onClick={() =>
+                applyDraft({
+                  title: original.title,
+                  subject_line: original.subject_line,
+                  preview_text: original.preview_text,
+                  content_markdown: original.content_markdown,
+                })
+              }
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 transition-colors"
+            >
+              <RotateCcw size={16} />
+              Restore original
+            </button>
+          )}
+          <button
+            onClick={handleDone}
+            disabled={status === 'saving'}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-500 transition-colors disabled:opacity-50"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="md:col-span-2">
+          <label className={labelClass}>Title</label>
+          <input className={inputClass} value={draft.title} onChange={(e) => updateField('title', e.target.value)} />
+        </div>
+        <div>
+          <label className={labelClass}>Subject Line</label>
+          <input
+            className={inputClass}
+            value={draft.subject_line}
+            onChange={(e) => updateField('subject_line', e.target.value)}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Preview Text</label>
+          <input
+            className={inputClass}
+            value={draft.preview_text}
+            onChange={(e) => updateField('preview_text', e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Markdown</label>
+          <textarea
+            value={draft.content_markdown}
+            onChange={(e) => updateField('content_markdown', e.target.value)}
+            className={`${inputClass} font-mono min-h-[32rem] resize-y leading-relaxed`}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Preview</label>
+          <article className="prose prose-slate max-w-none p-4 rounded-lg border border-slate-100 bg-slate-50 min-h-[32rem] max-h-[48rem] overflow-y-auto prose-headings:font-bold prose-p:leading-relaxed">
+            <ReactMarkdown>{draft.content_markdown}</ReactMarkdown>
+          </article>
+        </div>
+      </div>
+    </div>
+  );
+};
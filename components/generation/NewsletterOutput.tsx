@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import {
   FileText,
@@ -11,35 +11,172 @@ import {
   Copy,
   ExternalLink,
   FolderOpen,
+  Loader2,
+  Send,
+  Pencil,
+  History,
+  RefreshCw,
+  Wand2,
+  Layers,
+  AlertTriangle,
+  Download,
 } from 'lucide-react';
-import type { Generation, NewsletterArticle } from '../../types';
+import type { Generation, Newsletter, NewsletterVersion, VoiceProfile } from '../../types';
+import {
+  getNewsletters,
+  getNewsletterVersions,
+  updateNewsletter,
+  type NewsletterChange,
+} from '../../services/newsletterService';
+import { getBaselineCopy, getOriginalArticle, isSameCopy } from '../../services/newsletterVersioning';
+import { checkSubjectVariant, getSubjectVariants } from '../../services/subjectVariantService';
+import { lintArticle } from '../../services/voiceLintService';
+import { ExportNewsletters } from './ExportNewsletters';
+import { NewsletterEditor } from './NewsletterEditor';
+import { NewsletterRating } from './NewsletterRating';
+import { NewsletterVersionHistory } from './NewsletterVersionHistory';
+import { RegenerateNewsletter } from './RegenerateNewsletter';
+import { ReviseNewsletter } from './ReviseNewsletter';
+import { SubjectVariants } from './SubjectVariants';
+import { VoiceFeedback } from './VoiceFeedback';
+import { HighlightedMarkdown, VoiceMatchPanel } from './VoiceMatchPanel';
+
+type ActionPanel = 'subjects' | 'revise' | 'regenerate' | 'versions' | 'export';
 
 interface NewsletterOutputProps {
   generation: Generation;
+  // Profile the articles were written with; enables the voice match check
+  profile?: VoiceProfile | null;
   onClose?: () => void;
 }
 
 export const NewsletterOutput: React.FC<NewsletterOutputProps> = ({
   generation,
+  profile,
   onClose,
 }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [copied, setCopied] = useState(false);
+  const [newsletters, setNewsletters] = useState<Newsletter[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [showHighlights, setShowHighlights] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [panel, setPanel] = useState<ActionPanel | null>(null);
+  // Version history per newsletter id, loaded when its tab is opened
+  const [versionsById, setVersionsById] = useState<Record<string, NewsletterVersion[]>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setCurrentIndex(0);
+    setVersionsById({});
+
+    getNewsletters(generation.id)
+      .then((data) => {
+        if (!cancelled) setNewsletters(data);
+      })
+      .catch((error) => console.error('Failed to load newsletters:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [generation.id]);
 
-  const newsletters = generation.newsletters || [];
   const currentNewsletter = newsletters[currentIndex];
+  const currentId = currentNewsletter?.id;
+  const versions = currentId ? versionsById[currentId] : undefined;
+
+  useEffect(() => {
+    if (!currentId || versions) return;
+    let cancelled = false;
+
+    getNewsletterVersions(currentId)
+      .then((data) => {
+        if (!cancelled) setVersionsById((prev) => ({ ...prev, [currentId]: data }));
+      })
+      .catch((error) => console.error('Failed to load newsletter versions:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentId, versions]);
+
+  const original = currentNewsletter ? getOriginalArticle(generation.newsletters, currentNewsletter.newsletter_number) : null;
+  // The unedited copy of the current version; unknown until a versioned article's history loads
+  const baseline = currentNewsletter && (versions || currentNewsletter.current_version_number === null)
+    ? getBaselineCopy(currentNewsletter, versions || [], original)
+    : null;
+  const isEdited = currentNewsletter && baseline ? !isSameCopy(baseline, currentNewsletter) : false;
+  const isShowingOriginal = showOriginal && isEdited && !isEditing;
+
+  // What the page shows: the stored (possibly edited) copy or the version it started from
+  const shown = isShowingOriginal && baseline ? baseline : currentNewsletter;
+  const shownMarkdown = shown?.content_markdown;
+
+  const voiceMatch = useMemo(
+    () => (profile && shownMarkdown !== undefined ? lintArticle(shownMarkdown, profile) : null),
+    [profile, shownMarkdown]
+  );
 
-  if (!currentNewsletter) {
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center gap-3 p-12 text-slate-500">
+        <Loader2 size={20} className="animate-spin" />
+        Loading newsletters...
+      </div>
+    );
+  }
+
+  if (!currentNewsletter || !shown) {
     return null;
   }
 
+  const subjectChecks = checkSubjectVariant(shown);
+
   const handleCopy = async () => {
-    const content = currentNewsletter.markdown_content || currentNewsletter.content;
-    await navigator.clipboard.writeText(content);
+    await navigator.clipboard.writeText(shown.content_markdown);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const handleNewsletterUpdated = (updated: Newsletter) => {
+    setNewsletters((prev) => prev.map((n) => (n.id === updated.id ? updated : n)));
+  };
+
+  const handleChanged = ({ newsletter, versions: updatedVersions }: NewsletterChange) => {
+    handleNewsletterUpdated(newsletter);
+    setVersionsById((prev) => ({ ...prev, [newsletter.id]: updatedVersions }));
+    setShowOriginal(false);
+  };
+
+  const togglePanel = (next: ActionPanel) => {
+    setPanel((prev) => (prev === next ? null : next));
+  };
+
+  const panelButtonClass = (active: boolean) =>
+    `flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+      active ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+    }`;
+
+  const handleTogglePublished = async () => {
+    setIsUpdating(true);
+    try {
+      const updated = await updateNewsletter(currentNewsletter.id, {
+        was_published: !currentNewsletter.was_published,
+      });
+      handleNewsletterUpdated(updated);
+    } catch (error) {
+      console.error('Failed to update newsletter:', error);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   const goToPrevious = () => {
     setCurrentIndex((prev) => Math.max(0, prev - 1));
   };
@@ -82,7 +219,7 @@ export const NewsletterOutput: React.FC<NewsletterOutputProps> = ({
       <div className="flex items-center gap-2 overflow-x-auto pb-2">
         {newsletters.map((newsletter, index) => (
           <button
-            key={index}
+            key={newsletter.id}
             onClick={() => setCurrentIndex(index)}
             className={`px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition-all ${
               index === currentIndex
@@ -90,7 +227,10 @@ export const NewsletterOutput: React.FC<NewsletterOutputProps> = ({
                 : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
             }`}
           >
-            Newsletter #{newsletter.idea_number || index + 1}
+            Newsletter #{newsletter.newsletter_number}
+            {newsletter.was_published && (
+              <CheckCircle2 size={14} className="inline ml-1.5 -mt-0.5" />
+            )}
           </button>
         ))}
       </div>
@@ -100,7 +240,12 @@ export const NewsletterOutput: React.FC<NewsletterOutputProps> = ({
         {/* Newsletter header */}
         <div className="bg-gradient-to-r from-slate-50 to-slate-100 p-6 border-b border-slate-200">
           <h2 className="text-2xl font-bold text-slate-900 mb-4">
-            {currentNewsletter.title}
+            {shown.title}
+            {isEdited && (
+              <span className="ml-3 align-middle px-2 py-0.5 rounded-md text-xs font-medium bg-indigo-100 text-indigo-700">
+                {isShowingOriginal ? 'Original' : 'Edited'}
+              </span>
+            )}
           </h2>
 
           {/* Metadata table */}
@@ -109,64 +254,203 @@ export const NewsletterOutput: React.FC<NewsletterOutputProps> = ({
               <Mail size={18} className="text-slate-400 mt-0.5" />
               <div>
                 <p className="text-xs font-medium text-slate-500 uppercase tracking-wide">Subject Line</p>
-                <p className="text-sm text-slate-900 font-medium">{currentNewsletter.subject_line}</p>
+                <p className="text-sm text-slate-900 font-medium">
+                  {shown.subject_line}
+                  {subjectChecks.length > 0 && (
+                    <span title={subjectChecks.map((check) => check.message).join('. ')}>
+                      <AlertTriangle size={14} className="inline ml-1.5 -mt-0.5 text-amber-500" />
+                    </span>
+                  )}
+                </p>
               </div>
             </div>
             <div className="flex items-start gap-3">
               <Eye size={18} className="text-slate-400 mt-0.5" />
               <div>
                 <p className="text-xs font-medium text-slate-500 uppercase tracking-wide">Preview Text</p>
-                <p className="text-sm text-slate-900">{currentNewsletter.preview_text}</p>
+                <p className="text-sm text-slate-900">{shown.preview_text}</p>
               </div>
             </div>
             <div className="flex items-start gap-3">
               <FileText size={18} className="text-slate-400 mt-0.5" />
               <div>
                 <p className="text-xs font-medium text-slate-500 uppercase tracking-wide">Word Count</p>
-                <p className="text-sm text-slate-900">{currentNewsletter.word_count} words</p>
+                <p className="text-sm text-slate-900">{shown.word_count ?? '-'} words</p>
               </div>
             </div>
             <div className="flex items-start gap-3">
               <Hash size={18} className="text-slate-400 mt-0.5" />
               <div>
                 <p className="text-xs font-medium text-slate-500 uppercase tracking-wide">Newsletter #</p>
-                <p className="text-sm text-slate-900">{currentNewsletter.idea_number || currentIndex + 1}</p>
+                <p className="text-sm text-slate-900">{currentNewsletter.newsletter_number}</p>
               </div>
             </div>
           </div>
         </div>
 
-        {/* Copy button */}
-        <div className="flex justify-end p-4 border-b border-slate-100">
-          <button
-            onClick={handleCopy}
-            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
-              copied
-                ? 'bg-green-100 text-green-700'
-                : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
-            }`}
-          >
-            {copied ? (
-              <>
-                <CheckCircle2 size={16} />
-                Copied!
-              </>
-            ) : (
-              <>
-                <Copy size={16} />
-                Copy Markdown
-              </>
+        {isEditing ? (
+          <NewsletterEditor
+            key={currentNewsletter.id}
+            newsletter={currentNewsletter}
+            original={baseline}
+            onSaved={handleNewsletterUpdated}
+            onDone={() => setIsEditing(false)}
+          />
+        ) : (
+          <>
+            {/* Actions */}
+            <div className="flex justify-end gap-2 p-4 border-b border-slate-100">
+              {isEdited && (
+                <button
+                  onClick={() => setShowOriginal((prev) => !prev)}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                    isShowingOriginal ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  }`}
+                >
+                  <History size={16} />
+                  {isShowingOriginal ? 'Showing original' : 'Show original'}
+                </button>
+              )}
+              <button onClick={() => togglePanel('subjects')} className={panelButtonClass(panel === 'subjects')}>
+                <Mail size={16} />
+                Subject lines ({getSubjectVariants(currentNewsletter).length})
+              </button>
+              <button onClick={() => togglePanel('versions')} className={panelButtonClass(panel === 'versions')}>
+                <Layers size={16} />
+                Versions
+              </button>
+              <button onClick={() => togglePanel('revise')} className={panelButtonClass(panel === 'revise')}>
+                <Wand2 size={16} />
+                Revise
+              </button>
+              <button onClick={() => togglePanel('regenerate')} className={panelButtonClass(panel === 'regenerate')}>
+                <RefreshCw size={16} />
+                Regenerate
+              </button>
+              <button onClick={() => togglePanel('export')} className={panelButtonClass(panel === 'export')}>
+                <Download size={16} />
+                Export
+              </button>
+              <button
+                onClick={() => setIsEditing(true)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all"
+              >
+                <Pencil size={16} />
+                Edit
+              </button>
+              <button
+                onClick={handleTogglePublished}
+                disabled={isUpdating}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all disabled:opacity-50 ${
+                  currentNewsletter.was_published
+                    ? 'bg-green-100 text-green-700 hover:bg-green-200'
+                    : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                }`}
+              >
+                {isUpdating ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
+                {currentNewsletter.was_published ? 'Published' : 'Mark as Published'}
+              </button>
+              <button
+                onClick={handleCopy}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  copied
+                    ? 'bg-green-100 text-green-700'
+                    : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                }`}
+              >
+                {copied ? (
+                  <>
+                    <CheckCircle2 size={16} />
+                    Copied!
+                  </>
+                ) : (
+                  <>
+                    <Copy size={16} />
+                    Copy Markdown
+                  </>
+                )}
+              </button>
+            </div>
+
+            {panel === 'subjects' && (
+              <SubjectVariants
+                key={currentNewsletter.id}
+                newsletter={currentNewsletter}
+                onUpdated={handleNewsletterUpdated}
+                onClose={() => setPanel(null)}
+              />
             )}
-          </button>
-        </div>
 
-        {/* Markdown content */}
-        <div className="p-6 md:p-8">
-          <article className="prose prose-slate prose-lg max-w-none prose-headings:font-bold prose-h1:text-3xl prose-h2:text-2xl prose-h2:mt-8 prose-h2:mb-4 prose-p:leading-relaxed prose-ul:my-4 prose-li:my-1 prose-hr:my-8">
-            <ReactMarkdown>
-              {currentNewsletter.markdown_content || currentNewsletter.content}
-            </ReactMarkdown>
-          </article>
+            {panel === 'versions' && versions && (
+              <NewsletterVersionHistory
+                key={currentNewsletter.id}
+                newsletter={currentNewsletter}
+                versions={versions}
+                original={original}
+                onSelected={handleChanged}
+                onClose={() => setPanel(null)}
+              />
+            )}
+
+            {panel === 'revise' && (
+              <ReviseNewsletter
+                key={currentNewsletter.id}
+                newsletter={currentNewsletter}
+                onRevised={handleChanged}
+                onClose={() => setPanel(null)}
+              />
+            )}
+
+            {panel === 'regenerate' && (
+              <RegenerateNewsletter
+                key={currentNewsletter.id}
+                newsletter={currentNewsletter}
+                onRegenerated={handleChanged}
+                onClose={() => setPanel(null)}
+              />
+            )}
+
+            {panel === 'export' && (
+              <ExportNewsletters
+                newsletter={currentNewsletter}
+                newsletters={newsletters}
+                generation={generation}
+                onClose={() => setPanel(null)}
+              />
+            )}
+
+            {/* Voice match */}
+            {voiceMatch && (
+              <VoiceMatchPanel
+                result={voiceMatch}
+                showHighlights={showHighlights}
+                onToggleHighlights={() => setShowHighlights((prev) => !prev)}
+              />
+            )}
+
+            {/* Markdown content */}
+            <div className="p-6 md:p-8">
+              {voiceMatch && showHighlights ? (
+                <HighlightedMarkdown content={shown.content_markdown} highlights={voiceMatch.highlights} />
+              ) : (
+                <article className="prose prose-slate prose-lg max-w-none prose-headings:font-bold prose-h1:text-3xl prose-h2:text-2xl prose-h2:mt-8 prose-h2:mb-4 prose-p:leading-relaxed prose-ul:my-4 prose-li:my-1 prose-hr:my-8">
+                  <ReactMarkdown>
+                    {shown.content_markdown}
+                  </ReactMarkdown>
+                </article>
+              )}
+            </div>
+          </>
+        )}
+
+        {/* Rating and feedback */}
+        <div className="p-6 border-t border-slate-100 space-y-6">
+          <NewsletterRating newsletter={currentNewsletter} onUpdated={handleNewsletterUpdated} />
+          <VoiceFeedback
+            key={currentNewsletter.id}
+            newsletter={currentNewsletter}
+            profileId={generation.profile_id}
+          />
         </div>
 
         {/* Navigation footer */}
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Star, Loader2, CheckCircle2 } from 'lucide-react';
+import type { Newsletter } from '../../types';
+import { updateNewsletter } from '../../services/newsletterService';
+
+interface NewsletterRatingProps {
+  newsletter: Newsletter;
+  onUpdated: (newsletter: Newsletter) => void;
+  compact?: boolean;
+}
+
+const STAR_VALUES = [1, 2, 3, 4, 5];
+
+export const NewsletterRating: React.FC<NewsletterRatingProps> = ({
+  newsletter,
+  onUpdated,
+  compact = false,
+}) => {
+  const [hoverRating, setHoverRating] = useState<number | null>(null);
+  const [feedback, setFeedback] = useState(newsletter.feedback_text || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedFeedback, setSavedFeedback] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the draft when switching to another newsletter
+  useEffect(() => {
+    setFeedback(newsletter.feedback_text || '');
+    setSavedFeedback(false);
+    setError(null);
+  }, [newsletter.id]);
+
+  const save = async (updates: { rating?: number | null; feedback_text?: string | null }) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const updated = await updateNewsletter(newsletter.id, updates);
+      onUpdated(updated);
+      return true;
+    } catch (err) {
+      console.error('Failed to save rating:', err);
+      setError('Could not save - please try again');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRate = (value: number) => {
+    // Clicking the current rating again clears it
+    save({ rating: newsletter.rating === value ? null : value });
+  };
+
+  const handleSaveFeedback = async () => {
+    const saved = await save({ feedback_text: feedback.trim() || null });
+    if (saved) {
+      setSavedFeedback(true);
+      setTimeout(() => setSavedFeedback(false), 2000);
+    }
+  };
+
+  const displayRating = hoverRating ?? newsletter.rating ?? 0;
+  const feedbackChanged = feedback.trim() !== (newsletter.feedback_text || '');
+
+  return (
+    <div className={compact ? 'space-y-3' : 'space-y-4'}>
+      <div className="flex items-center gap-3">
+        <span className="text-xs font-medium text-slate-500 uppercase tracking-wide">Rate this newsletter</span>
+        <div className="flex items-center gap-0.5" onMouseLeave={() => setHoverRating(null)}>
+          {STAR_VALUES.map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => handleRate(value)}
+              onMouseEnter={() => setHoverRating(value)}
+              disabled={isSaving}
+              className="p-0.5 disabled:cursor-wait"
+              title={`${value} star${value === 1 ? '' : 's'}`}
+            >
+              <Star
+                size={compact ? 18 : 22}
+                className={value <= displayRating ? 'text-amber-400 fill-amber-400' : 'text-slate-300'}
+              />
+            </button>
+          ))}
+        </div>
+        {isSaving && <Loader2 size={16} className="text-slate-400 animate-spin" />}
+      </div>
+
+      <div>
+        <textarea
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          placeholder="What worked or didn't? (optional)"
+          rows={compact ? 2 : 3}
+          className="w-full px-4 py-3 rounded-xl bg-slate-50 border border-transparent focus:bg-white focus:border-indigo-500 focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all duration-300 text-sm text-slate-700 placeholder:text-slate-400 resize-none"
+        />
+        <div className="flex items-center justify-end gap-3 mt-2">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {savedFeedback && (
+            <span className="flex items-center gap-1 text-sm text-green-600">
+              <CheckCircle2 size={14} />
+              Saved
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={handleSaveFeedback}
+            disabled={isSaving || !feedbackChanged}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-indigo-50 text-indigo-600 hover:bg-indigo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save Feedback
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
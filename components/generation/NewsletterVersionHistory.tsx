@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, Check, Loader2, X } from 'lucide-react';
+import type { Newsletter, NewsletterArticle, NewsletterVersion } from '../../types';
+import { selectNewsletterVersion, type NewsletterChange } from '../../services/newsletterService';
+import {
+  diffWords,
+  isSameCopy,
+  NEWSLETTER_VERSION_SOURCE_LABELS,
+  type NewsletterEditableFields,
+} from '../../services/newsletterVersioning';
+
+interface NewsletterVersionHistoryProps {
+  newsletter: Newsletter;
+  versions: NewsletterVersion[];
+  // The generation's article, recorded as the first version on the first switch
+  original: NewsletterArticle | null;
+  onSelected: (result: NewsletterChange) => void;
+  onClose: () => void;
+}
+
+const DIFF_FIELDS: Array<{ field: keyof NewsletterEditableFields; label: string }> = [
+  { field: 'title', label: 'Title' },
+  { field: 'subject_line', label: 'Subject Line' },
+  { field: 'preview_text', label: 'Preview Text' },
+  { field: 'content_markdown', label: 'Content' },
+];
+
+const DiffText: React.FC<{ before: string; after: string }> = ({ before, after }) => {
+  const segments = useMemo(() => diffWords(before, after), [before, after]);
+
+  return (
+    <p className="whitespace-pre-wrap text-sm text-slate-700 leading-relaxed">
+      {segments.map((segment, index) => {
+        if (segment.kind === 'added') {
+          return (
+            <ins key={index} className="no-underline bg-green-100 text-green-800 rounded-sm">
+              {segment.text}
+            </ins>
+          );
+        }
+        if (segment.kind === 'removed') {
+          return (
+            <del key={index} className="bg-red-100 text-red-700 rounded-sm">
+              {segment.text}
+            </del>
+          );
+        }
+        return <span key={index}>{segment.text}</span>;
+      })}
+    </p>
+  );
+};
+
+// Every copy the article has had, each compared with the one before it
+export const NewsletterVersionHistory: React.FC<NewsletterVersionHistoryProps> = ({
+  newsletter,
+  versions,
+  original,
+  onSelected,
+  onClose,
+}) => {
+  const [selectedNumber, setSelectedNumber] = useState<number | null>(
+    newsletter.current_version_number ?? versions[versions.length - 1]?.version_number ?? null
+  );
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedIndex = versions.findIndex((v) => v.version_number === selectedNumber);
+  const selected = selectedIndex >= 0 ? versions[selectedIndex] : null;
+  const previous = selectedIndex > 0 ? versions[selectedIndex - 1] : null;
+  const isCurrent = (version: NewsletterVersion) =>
+    version.version_number === newsletter.current_version_number && isSameCopy(version, newsletter);
+
+  const handleUse = async (version: NewsletterVersion) => {
+    setIsSwitching(true);
+    setError(null);
+    try {
+      const result = await selectNewsletterVersion(newsletter, versions, version, original);
+      onSelected(result);
+      setSelectedNumber(version.version_number);
+    } catch (err) {
+      console.error('Failed to switch newsletter version:', err);
+      setError('Failed to switch to this version');
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div className="p-6 border-b border-slate-100 bg-slate-50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-slate-700">Versions of Newsletter #{newsletter.newsletter_number}</h4>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      {versions.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          No other versions yet. Regenerating or revising this article starts its history.
+        </p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-[14rem_minmax(0,1fr)]">
+          <ul className="space-y-1">
+            {[...versions].reverse().map((version) => (
+              <li key={version.id}>
+                <button
+                  onClick={() => setSelectedNumber(version.version_number)}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                    version.version_number === selectedNumber
+                      ? 'bg-white border border-indigo-200 shadow-sm'
+                      : 'border border-transparent hover:bg-white'
+                  }`}
+                >
+                  <span className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-slate-800">
+                      v{version.version_number} · {NEWSLETTER_VERSION_SOURCE_LABELS[version.source]}
+                    </span>
+                    {isCurrent(version) && (
+                      <span className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-green-100 text-green-700">
+                        Current
+                      </span>
+                    )}
+                  </span>
+                  {version.instructions && (
+                    <span className="block text-xs text-slate-500 truncate" title={version.instructions}>
+                      "{version.instructions}"
+                    </span>
+                  )}
+                  <span className="block text-xs text-slate-400">
+                    {new Date(version.created_at).toLocaleString()} · {version.word_count ?? '-'} words
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected && (
+            <div className="bg-white rounded-xl border border-slate-200 p-4 space-y-4 min-w-0">
+              <div className="flex items-center justify-between gap-4 flex-wrap">
+                <p className="text-xs text-slate-500">
+                  {previous
+                    ? `Changes from v${previous.version_number} to v${selected.version_number}`
+                    : `v${selected.version_number} is the first version`}
+                </p>
+                {isCurrent(selected) ? (
+                  <span className="flex items-center gap-1.5 text-sm text-green-700">
+                    <Check size={16} /> In use
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => handleUse(selected)}
+                    disabled={isSwitching}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-900 text-white text-sm font-medium hover:bg-slate-800 transition-colors disabled:opacity-50"
+                  >
+                    {isSwitching && <Loader2 size={16} className="animate-spin" />}
+                    Use this version
+                  </button>
+                )}
+              </div>
+
+              {DIFF_FIELDS.map(({ field, label }) => {
+                const before = previous ? previous[field] : selected[field];
+                if (previous && before === selected[field] && field !== 'content_markdown') return null;
+                return (
+                  <div key={field}>
+                    <p className="text-xs font-medium text-slate-500 uppercase tracking-wide mb-1">{label}</p>
+                    <DiffText before={before} after={selected[field]} />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <p className="flex items-start gap-2 text-sm text-red-600">
+          <AlertCircle size={16} className="shrink-0 mt-0.5" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
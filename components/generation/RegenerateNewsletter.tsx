@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { AlertCircle, Loader2, RefreshCw, X } from 'lucide-react';
+import type { Newsletter } from '../../types';
+import { regenerateNewsletter, type NewsletterChange } from '../../services/newsletterService';
+import { MAX_NEWSLETTER_INSTRUCTIONS_LENGTH } from '../../services/newsletterVersioning';
+
+interface RegenerateNewsletterProps {
+  newsletter: Newsletter;
+  onRegenerated: (result: NewsletterChange) => void;
+  onClose: () => void;
+}
+
+// Rewrites the current idea only; the other articles of the batch stay as they are
+export const RegenerateNewsletter: React.FC<RegenerateNewsletterProps> = ({
+  newsletter,
+  onRegenerated,
+  onClose,
+}) => {
+  const [instructions, setInstructions] = useState('');
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [result, setResult] = useState<NewsletterChange | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRegenerate = async () => {
+    setIsRegenerating(true);
+    setError(null);
+    try {
+      const regenerated = await regenerateNewsletter(newsletter.id, instructions.trim() || undefined);
+      setResult(regenerated);
+      setInstructions('');
+      onRegenerated(regenerated);
+    } catch (err) {
+      console.error('Failed to regenerate newsletter:', err);
+      setError(err instanceof Error ? err.message : 'Failed to regenerate newsletter');
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  return (
+    <div className="p-6 border-b border-slate-100 bg-slate-50 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-slate-700">Regenerate Newsletter #{newsletter.newsletter_number}</h4>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      {result ? (
+        <p className="text-sm text-slate-600">
+          Regenerated as version {result.newsletter.current_version_number}. Earlier copies are under Versions.
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-slate-500">
+            Writes this idea again from the same source with your current voice profile. Your edits to this
+            copy are kept under Versions.
+          </p>
+          <textarea
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            maxLength={MAX_NEWSLETTER_INSTRUCTIONS_LENGTH}
+            placeholder="Optional: what should be different? e.g. shorter intro, stronger hook, more data"
+            className="w-full p-3 rounded-xl bg-white border border-slate-200 focus:border-indigo-500 outline-none text-sm text-slate-700 min-h-[80px] resize-none"
+          />
+          <button
+            onClick={handleRegenerate}
+            disabled={isRegenerating}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-900 text-white text-sm font-medium hover:bg-slate-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRegenerating ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+            {isRegenerating ? 'Regenerating...' : 'Regenerate'}
+          </button>
+        </>
+      )}
+
+      {error && (
+        <p className="flex items-start gap-2 text-sm text-red-600">
+          <AlertCircle size={16} className="shrink-0 mt-0.5" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { AlertCircle, Check, Loader2, Wand2, X } from 'lucide-react';
+import type { Newsletter } from '../../types';
+import { reviseNewsletter, type NewsletterChange } from '../../services/newsletterService';
+import { MAX_NEWSLETTER_INSTRUCTIONS_LENGTH, REVISION_PRESETS } from '../../services/newsletterVersioning';
+
+interface ReviseNewsletterProps {
+  newsletter: Newsletter;
+  onRevised: (result: NewsletterChange) => void;
+  onClose: () => void;
+}
+
+// Targeted rewrite of the copy as it is now, edits included
+export const ReviseNewsletter: React.FC<ReviseNewsletterProps> = ({ newsletter, onRevised, onClose }) => {
+  const [instructions, setInstructions] = useState('');
+  const [isRevising, setIsRevising] = useState(false);
+  const [revisedVersion, setRevisedVersion] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRevise = async () => {
+    setIsRevising(true);
+    setError(null);
+    try {
+      const result = await reviseNewsletter(newsletter.id, instructions.trim());
+      setRevisedVersion(result.newsletter.current_version_number);
+      setInstructions('');
+      onRevised(result);
+    } catch (err) {
+      console.error('Failed to revise newsletter:', err);
+      setError(err instanceof Error ? err.message : 'Failed to revise newsletter');
+    } finally {
+      setIsRevising(false);
+    }
+  };
+
+  return (
+    <div className="p-6 border-b border-slate-100 bg-slate-50 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-slate-700">Revise Newsletter #{newsletter.newsletter_number}</h4>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        Rewrites the current copy as you ask, and saves the result as a new version.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        {REVISION_PRESETS.map((preset) => (
+          <button
+            key={preset.label}
+            onClick={() => setInstructions(preset.instructions)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+              instructions === preset.instructions
+                ? 'bg-indigo-50 border-indigo-200 text-indigo-700'
+                : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-100'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={instructions}
+        onChange={(e) => setInstructions(e.target.value)}
+        maxLength={MAX_NEWSLETTER_INSTRUCTIONS_LENGTH}
+        placeholder="What should change? e.g. cut the intro to two sentences, end with a question"
+        className="w-full p-3 rounded-xl bg-white border border-slate-200 focus:border-indigo-500 outline-none text-sm text-slate-700 min-h-[80px] resize-none"
+      />
+
+      <div className="flex items-center gap-4 flex-wrap">
+        <button
+          onClick={handleRevise}
+          disabled={isRevising || !instructions.trim()}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-900 text-white text-sm font-medium hover:bg-slate-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRevising ? <Loader2 size={16} className="animate-spin" /> : <Wand2 size={16} />}
+          {isRevising ? 'Revising...' : 'Revise'}
+        </button>
+        {revisedVersion !== null && !isRevising && (
+          <p className="flex items-center gap-1.5 text-sm text-slate-600">
+            <Check size={16} className="text-green-600" />
+            Saved as version {revisedVersion}
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <p className="flex items-start gap-2 text-sm text-red-600">
+          <AlertCircle size={16} className="shrink-0 mt-0.5" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { AlertCircle, AlertTriangle, Check, Download, Loader2, Plus, Trash2, X } from 'lucide-react';
+import type { Newsletter, NewsletterUpdate, SubjectVariant } from '../../types';
+import { updateNewsletter } from '../../services/newsletterService';
+import {
+  checkSubjectVariant,
+  downloadSubjectTestCsv,
+  getSubjectVariants,
+  isSameVariant,
+  MAX_SUBJECT_VARIANTS,
+  normalizeSubjectVariants,
+  variantLabel,
+  type SubjectLengthCheck,
+} from '../../services/subjectVariantService';
+
+interface SubjectVariantsProps {
+  newsletter: Newsletter;
+  onUpdated: (newsletter: Newsletter) => void;
+  onClose: () => void;
+}
+
+const EMPTY_VARIANT: SubjectVariant = { subject_line: '', preview_text: '' };
+
+const LengthChecks: React.FC<{ checks: SubjectLengthCheck[]; field: keyof SubjectVariant }> = ({ checks, field }) => (
+  <>
+    {checks
+      .filter((check) => check.field === field)
+      .map((check) => (
+        <p
+          key={check.message}
+          className={`flex items-center gap-1.5 text-xs ${check.level === 'error' ? 'text-red-600' : 'text-amber-600'}`}
+        >
+          {check.level === 'error' ? <AlertCircle size={12} /> : <AlertTriangle size={12} />}
+          {check.message}
+        </p>
+      ))}
+  </>
+);
+
+// Subject line / preview text candidates: length checks against inbox
+// truncation, picking the one in use, and an A/B test export for the ESP
+export const SubjectVariants: React.FC<SubjectVariantsProps> = ({ newsletter, onUpdated, onClose }) => {
+  const [draft, setDraft] = useState<SubjectVariant>(EMPTY_VARIANT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const variants = getSubjectVariants(newsletter);
+  const draftChecks = draft.subject_line.trim() ? checkSubjectVariant(draft) : [];
+  const isFull = variants.length >= MAX_SUBJECT_VARIANTS;
+
+  const save = async (updates: NewsletterUpdate, failure: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      onUpdated(await updateNewsletter(newsletter.id, updates));
+      return true;
+    } catch (err) {
+      console.error('Failed to update subject variants:', err);
+      setError(failure);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // The list is saved along with the pick so the replaced pair stays a candidate
+  const handleUse = (variant: SubjectVariant) =>
+    save(
+      { subject_line: variant.subject_line, preview_text: variant.preview_text, subject_variants: variants },
+      'Failed to switch subject line'
+    );
+
+  const handleRemove = (variant: SubjectVariant) =>
+    save(
+      { subject_variants: variants.filter((v) => !isSameVariant(v, variant)) },
+      'Failed to remove variant'
+    );
+
+  const handleAdd = async () => {
+    const added = await save(
+      { subject_variants: normalizeSubjectVariants([...variants, draft]) },
+      'Failed to add variant'
+    );
+    if (added) setDraft(EMPTY_VARIANT);
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 rounded-lg bg-white border border-slate-200 focus:border-indigo-500 outline-none text-sm text-slate-900';
+
+  return (
+    <div className="p-6 border-b border-slate-100 bg-slate-50 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h4 className="text-sm font-bold text-slate-700">Subject Lines for Newsletter #{newsletter.newsletter_number}</h4>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => downloadSubjectTestCsv(newsletter)}
+            disabled={variants.length < 2}
+            title={variants.length < 2 ? 'Add another variant to test against' : undefined}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download size={16} />
+            Export A/B test (CSV)
+          </button>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {variants.map((variant, index) => {
+          const inUse = isSameVariant(variant, newsletter);
+          const checks = checkSubjectVariant(variant);
+          return (
+            <li
+              key={`${variant.subject_line}|${variant.preview_text}`}
+              className={`flex items-start gap-3 p-3 rounded-xl bg-white border ${
+                inUse ? 'border-indigo-200' : 'border-slate-200'
+              }`}
+            >
+              <span className="w-6 h-6 shrink-0 rounded-md bg-slate-100 text-slate-600 text-xs font-bold flex items-center justify-center">
+                {variantLabel(index)}
+              </span>
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="text-sm font-medium text-slate-900">
+                  {variant.subject_line}
+                  <span className="ml-2 text-xs font-normal text-slate-400">{variant.subject_line.length} chars</span>
+                </p>
+                <LengthChecks checks={checks} field="subject_line" />
+                <p className="text-sm text-slate-600">
+                  {variant.preview_text || <span className="italic text-slate-400">No preview text</span>}
+                  <span className="ml-2 text-xs text-slate-400">{variant.preview_text.length} chars</span>
+                </p>
+                <LengthChecks checks={checks} field="preview_text" />
+                {checks.length === 0 && (
+                  <p className="flex items-center gap-1.5 text-xs text-green-600">
+                    <Check size={12} /> Fits on mobile
+                  </p>
+                )}
+              </div>
+              {inUse ? (
+                <span className="shrink-0 px-2 py-0.5 rounded-md text-xs font-medium bg-indigo-100 text-indigo-700">
+                  In use
+                </span>
+              ) : (
+                <div className="shrink-0 flex items-center gap-1">
+                  <button
+                    onClick={() => handleUse(variant)}
+                    disabled={isSaving}
+                    className="px-3 py-1 rounded-lg text-xs font-medium text-white bg-slate-900 hover:bg-slate-800 transition-colors disabled:opacity-50"
+                  >
+                    Use
+                  </button>
+                  <button
+                    onClick={() => handleRemove(variant)}
+                    disabled={isSaving}
+                    className="p-1.5 text-slate-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                    title="Remove variant"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {!isFull && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-slate-500 uppercase tracking-wide">Add your own</p>
+          <input
+            value={draft.subject_line}
+            onChange={(e) => setDraft({ ...draft, subject_line: e.target.value })}
+            placeholder="Subject line"
+            className={inputClass}
+          />
+          <LengthChecks checks={draftChecks} field="subject_line" />
+          <input
+            value={draft.preview_text}
+            onChange={(e) => setDraft({ ...draft, preview_text: e.target.value })}
+            placeholder="Preview text"
+            className={inputClass}
+          />
+          <LengthChecks checks={draftChecks} field="preview_text" />
+          <button
+            onClick={handleAdd}
+            disabled={isSaving || !draft.subject_line.trim()}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Plus size={16} />}
+            Add variant
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="flex items-start gap-2 text-sm text-red-600">
+          <AlertCircle size={16} className="shrink-0 mt-0.5" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
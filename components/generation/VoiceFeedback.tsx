@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { ThumbsUp, ThumbsDown, ListChecks, Loader2 } from 'lucide-react';
+import { VoiceExampleType, type Newsletter } from '../../types';
+import { createVoiceExample } from '../../services/voiceExampleService';
+
+interface VoiceFeedbackProps {
+  newsletter: Newsletter;
+  profileId: string | null;
+}
+
+// Paragraphs long enough to say something about voice; headings and rules are skipped
+const MIN_PARAGRAPH_LENGTH = 40;
+
+function splitParagraphs(markdown: string): string[] {
+  return markdown
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter((p) => p.length >= MIN_PARAGRAPH_LENGTH && !p.startsWith('#') && !/^[-*_]{3,}$/.test(p));
+}
+
+// Keys are 'article' or the paragraph index
+type MarkedState = Record<string, VoiceExampleType>;
+
+export const VoiceFeedback: React.FC<VoiceFeedbackProps> = ({ newsletter, profileId }) => {
+  const [marked, setMarked] = useState<MarkedState>({});
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+  const [showParagraphs, setShowParagraphs] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The voice profile was deleted after this generation ran
+  if (!profileId) {
+    return null;
+  }
+
+  const paragraphs = splitParagraphs(newsletter.content_markdown);
+
+  const markExample = async (key: string, content: string, exampleType: VoiceExampleType) => {
+    setPendingKey(key);
+    setError(null);
+    try {
+      await createVoiceExample({
+        profile_id: profileId,
+        generation_id: newsletter.generation_id,
+        newsletter_id: newsletter.id,
+        content,
+        example_type: exampleType,
+        rating: key === 'article' ? newsletter.rating : null,
+      });
+      setMarked((prev) => ({ ...prev, [key]: exampleType }));
+    } catch (err) {
+      console.error('Failed to save voice example:', err);
+      setError('Could not save - please try again');
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  const renderButtons = (key: string, content: string, size: number) => {
+    const current = marked[key];
+    const isPending = pendingKey === key;
+
+    if (isPending) {
+      return <Loader2 size={size} className="text-slate-400 animate-spin" />;
+    }
+
+    return (
+      <div className="flex items-center gap-1 shrink-0">
+        <button
+          type="button"
+          onClick={() => markExample(key, content, VoiceExampleType.Good)}
+          disabled={pendingKey !== null || current !== undefined}
+          className={`p-1.5 rounded-lg transition-colors disabled:cursor-default ${
+            current === VoiceExampleType.Good
+              ? 'bg-green-100 text-green-700'
+              : 'text-slate-400 hover:bg-green-50 hover:text-green-600 disabled:opacity-40'
+          }`}
+          title="Sounds like me"
+        >
+          <ThumbsUp size={size} />
+        </button>
+        <button
+          type="button"
+          onClick={() => markExample(key, content, VoiceExampleType.Bad)}
+          disabled={pendingKey !== null || current !== undefined}
+          className={`p-1.5 rounded-lg transition-colors disabled:cursor-default ${
+            current === VoiceExampleType.Bad
+              ? 'bg-red-100 text-red-700'
+              : 'text-slate-400 hover:bg-red-50 hover:text-red-600 disabled:opacity-40'
+          }`}
+          title="Doesn't sound like me"
+        >
+          <ThumbsDown size={size} />
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <span className="text-xs font-medium text-slate-500 uppercase tracking-wide">Does this sound like you?</span>
+          {renderButtons('article', newsletter.content_markdown, 18)}
+        </div>
+        {paragraphs.length > 1 && (
+          <button
+            type="button"
+            onClick={() => setShowParagraphs(!showParagraphs)}
+            className="flex items-center gap-1.5 text-sm font-medium text-indigo-600 hover:text-indigo-700"
+          >
+            <ListChecks size={16} />
+            {showParagraphs ? 'Hide paragraphs' : 'Mark paragraphs'}
+          </button>
+        )}
+      </div>
+
+      {showParagraphs && (
+        <div className="space-y-2">
+          {paragraphs.map((paragraph, index) => (
+            <div
+              key={index}
+              className="flex items-start gap-3 p-3 rounded-lg bg-slate-50 border border-slate-100"
+            >
+              <p className="flex-1 text-sm text-slate-700 whitespace-pre-wrap">{paragraph}</p>
+              {renderButtons(String(index), paragraph, 16)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
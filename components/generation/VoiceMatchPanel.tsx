@@ -0,0 +1,140 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2, Highlighter } from 'lucide-react';
+import type { VoiceLintHighlight, VoiceLintResult } from '../../services/voiceLintService';
+
+interface VoiceMatchPanelProps {
+  result: VoiceLintResult;
+  showHighlights: boolean;
+  onToggleHighlights: () => void;
+}
+
+const HIGHLIGHT_CLASSES: Record<VoiceLintHighlight['kind'], string> = {
+  avoid_phrase: 'bg-red-100 text-red-800 decoration-red-400 underline decoration-wavy',
+  emoji: 'bg-amber-100',
+  signature_phrase: 'bg-green-100 text-green-800',
+  question: 'bg-amber-50 text-amber-900',
+};
+
+const HIGHLIGHT_LABELS: Record<VoiceLintHighlight['kind'], string> = {
+  avoid_phrase: 'Avoided phrase',
+  emoji: 'Emoji',
+  signature_phrase: 'Signature phrase',
+  question: 'Question',
+};
+
+// When ranges overlap the higher priority kind colours the shared characters
+const HIGHLIGHT_PRIORITY: VoiceLintHighlight['kind'][] = ['avoid_phrase', 'emoji', 'signature_phrase', 'question'];
+
+function scoreClasses(score: number): string {
+  if (score >= 85) return 'bg-green-100 text-green-700';
+  if (score >= 60) return 'bg-amber-100 text-amber-700';
+  return 'bg-red-100 text-red-700';
+}
+
+export const VoiceMatchPanel: React.FC<VoiceMatchPanelProps> = ({ result, showHighlights, onToggleHighlights }) => {
+  const usedPhrases = result.signature_phrases.filter((p) => p.count > 0);
+
+  return (
+    <div className="p-6 border-b border-slate-100 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <span className={`px-3 py-1 rounded-lg text-lg font-bold ${scoreClasses(result.score)}`}>
+            {result.score}
+          </span>
+          <div>
+            <p className="text-sm font-bold text-slate-900">Voice Match</p>
+            <p className="text-xs text-slate-500">
+              {result.avg_sentence_length !== null && result.target_sentence_length
+                ? `Sentences average ${Math.round(result.avg_sentence_length)} words (target ${Math.round(result.target_sentence_length)})`
+                : 'Checked against your profile settings'}
+            </p>
+          </div>
+        </div>
+        {result.highlights.length > 0 && (
+          <button
+            onClick={onToggleHighlights}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              showHighlights ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+            }`}
+          >
+            <Highlighter size={16} />
+            {showHighlights ? 'Hide highlights' : 'Show highlights'}
+          </button>
+        )}
+      </div>
+
+      {result.issues.length === 0 ? (
+        <p className="flex items-center gap-2 text-sm text-green-700">
+          <CheckCircle2 size={16} />
+          No voice issues found
+        </p>
+      ) : (
+        <ul className="space-y-1.5">
+          {result.issues.map((issue, index) => (
+            <li
+              key={`${issue.rule}-${index}`}
+              className={`flex items-start gap-2 text-sm ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-700'}`}
+            >
+              {issue.severity === 'error' ? (
+                <AlertCircle size={16} className="shrink-0 mt-0.5" />
+              ) : (
+                <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+              )}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {usedPhrases.length > 0 && (
+        <p className="text-xs text-slate-500">
+          Signature phrases: {usedPhrases.map((p) => `"${p.phrase}" ×${p.count}`).join(', ')}
+        </p>
+      )}
+
+      {showHighlights && (
+        <div className="flex flex-wrap gap-2">
+          {HIGHLIGHT_PRIORITY.filter((kind) => result.highlights.some((h) => h.kind === kind)).map((kind) => (
+            <span key={kind} className={`px-2 py-0.5 rounded text-xs font-medium ${HIGHLIGHT_CLASSES[kind]}`}>
+              {HIGHLIGHT_LABELS[kind]}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface HighlightedMarkdownProps {
+  content: string;
+  highlights: VoiceLintHighlight[];
+}
+
+// The raw markdown with lint ranges marked. Offsets refer to the source text,
+// so highlights are shown here instead of in the rendered article.
+export const HighlightedMarkdown: React.FC<HighlightedMarkdownProps> = ({ content, highlights }) => {
+  const boundaries = [
+    ...new Set([0, content.length, ...highlights.flatMap((h) => [h.start, h.end])]),
+  ].sort((a, b) => a - b);
+
+  const segments = boundaries.slice(0, -1).map((start, index) => {
+    const end = boundaries[index + 1];
+    const covering = highlights.filter((h) => h.start <= start && h.end >= end);
+    const kind = HIGHLIGHT_PRIORITY.find((k) => covering.some((h) => h.kind === k));
+    return { start, end, kind };
+  });
+
+  return (
+    <pre className="whitespace-pre-wrap break-words font-sans text-slate-700 leading-relaxed">
+      {segments.map(({ start, end, kind }) =>
+        kind ? (
+          <mark key={start} className={`rounded px-0.5 ${HIGHLIGHT_CLASSES[kind]}`} title={HIGHLIGHT_LABELS[kind]}>
+            {content.slice(start, end)}
+          </mark>
+        ) : (
+          <React.Fragment key={start}>{content.slice(start, end)}</React.Fragment>
+        )
+      )}
+    </pre>
+  );
+};
@@ -0,0 +1,352 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, Loader2, Palette, Pencil, Plus, Trash2 } from 'lucide-react';
+import type { EmailTemplate, EmailTemplateInput, SponsorSlotPosition, VoiceProfile } from '../../types';
+import {
+  createEmailTemplate,
+  deleteEmailTemplate,
+  getEmailTemplates,
+  SPONSOR_SLOT_POSITIONS,
+  STARTER_EMAIL_TEMPLATE,
+  updateEmailTemplate,
+  validateEmailTemplate,
+} from '../../services/emailTemplateService';
+import { EMAIL_TEMPLATE_PLACEHOLDERS, renderEmailHtml } from '../../services/newsletterExportService';
+import { parseMarkdown } from '../../services/markdownBlocks';
+import { EmailPreview } from '../generation/EmailPreview';
+
+interface EmailTemplatesSectionProps {
+  userId: string;
+  profiles: VoiceProfile[];
+}
+
+// Stand-in article for previewing a template before any newsletter uses it
+const SAMPLE_DOCUMENT = {
+  title: 'Three things we learned this week',
+  subject_line: 'Three things we learned this week',
+  preview_text: 'A short read on pricing, hiring and the tool we stopped using.',
+  blocks: parseMarkdown(`# Three things we learned this week
+
+Every week we pick the ideas that changed how we work. This week it's **pricing**, *hiring* and a [tool we dropped](https://example.com).
+
+## Pricing is a product decision
+
+Raising prices lost us fewer customers than we feared. The ones who stayed asked for more.
+
+## Hire for the next year
+
+- Write the role for the problems you'll have in twelve months
+- Ask candidates to teach you something
+
+## The tool we stopped using
+
+> If a tool needs a meeting to explain it, it isn't saving time.
+
+See you next week.`),
+};
+
+const COLOR_FIELDS: { key: 'accent_color' | 'background_color' | 'text_color'; label: string }[] = [
+  { key: 'accent_color', label: 'Accent' },
+  { key: 'background_color', label: 'Background' },
+  { key: 'text_color', label: 'Text' },
+];
+
+const inputClass =
+  'w-full px-3 py-2 rounded-lg bg-white border border-slate-200 focus:border-indigo-500 outline-none text-sm text-slate-700';
+
+function toInput(template: EmailTemplate): EmailTemplateInput {
+  const { id, user_id, created_at, updated_at, ...input } = template;
+  return input;
+}
+
+// Brand layouts for email HTML exports, each attached to a newsletter name or
+// a voice profile, with a live preview at desktop and mobile widths
+export const EmailTemplatesSection: React.FC<EmailTemplatesSectionProps> = ({ userId, profiles }) => {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // null when no editor is open, 'new' for an unsaved template
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EmailTemplateInput>(STARTER_EMAIL_TEMPLATE);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getEmailTemplates(userId)
+      .then(setTemplates)
+      .catch((err) => {
+        console.error('Failed to load email templates:', err);
+        setError('Failed to load email templates');
+      })
+      .finally(() => setIsLoading(false));
+  }, [userId]);
+
+  const previewHtml = useMemo(
+    () =>
+      editingId
+        ? renderEmailHtml(SAMPLE_DOCUMENT, {
+            brand: draft,
+            newsletterName: draft.newsletter_name || 'Your Newsletter',
+          })
+        : '',
+    [editingId, draft]
+  );
+
+  const openEditor = (template: EmailTemplate | null) => {
+    setEditingId(template ? template.id : 'new');
+    setDraft(template ? toInput(template) : STARTER_EMAIL_TEMPLATE);
+    setError(null);
+  };
+
+  const updateDraft = (changes: Partial<EmailTemplateInput>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+  };
+
+  const sponsorHtml = (position: SponsorSlotPosition) =>
+    draft.sponsor_slots.find((slot) => slot.position === position)?.html ?? '';
+
+  const setSponsorHtml = (position: SponsorSlotPosition, html: string) => {
+    updateDraft({
+      sponsor_slots: [
+        ...draft.sponsor_slots.filter((slot) => slot.position !== position),
+        ...(html ? [{ position, html }] : []),
+      ],
+    });
+  };
+
+  const handleSave = async () => {
+    const validationError = validateEmailTemplate(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = editingId === 'new'
+        ? await createEmailTemplate(userId, draft)
+        : await updateEmailTemplate(editingId as string, draft);
+      setTemplates((prev) => [saved, ...prev.filter((t) => t.id !== saved.id)]);
+      setEditingId(null);
+    } catch (err) {
+      console.error('Failed to save email template:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: EmailTemplate) => {
+    if (!window.confirm(`Delete the "${template.name}" template?`)) return;
+
+    setError(null);
+    try {
+      await deleteEmailTemplate(template.id);
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      if (editingId === template.id) setEditingId(null);
+    } catch (err) {
+      console.error('Failed to delete email template:', err);
+      setError('Failed to delete template');
+    }
+  };
+
+  const appliesTo = (template: EmailTemplate) => {
+    const profile = profiles.find((p) => p.id === template.profile_id);
+    const targets = [
+      template.newsletter_name && `"${template.newsletter_name}"`,
+      profile && `${profile.profile_name} profile`,
+    ].filter(Boolean);
+    return targets.length > 0 ? `Used for ${targets.join(' and ')}` : 'Not attached; pick it when exporting';
+  };
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-slate-900">Email Templates</h2>
+        {!editingId && (
+          <button
+            onClick={() => openEditor(null)}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-900 text-white text-sm font-medium hover:bg-slate-800 transition-colors"
+          >
+            <Plus size={16} />
+            New template
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-slate-500 mb-6">
+        Header, footer, colors and sponsor slots for each newsletter's email HTML export. A template attached to a
+        newsletter name is used over one attached to a voice profile.
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-slate-500">
+          <Loader2 size={16} className="animate-spin" />
+          Loading templates...
+        </div>
+      ) : !editingId && (
+        templates.length === 0 ? (
+          <p className="text-sm text-slate-400">No templates yet. Exports use the plain layout.</p>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {templates.map((template) => (
+              <li key={template.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Palette size={18} style={{ color: template.accent_color }} className="shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-slate-900 truncate">{template.name}</p>
+                    <p className="text-xs text-slate-500 truncate">{appliesTo(template)}</p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    onClick={() => openEditor(template)}
+                    className="p-2 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100"
+                    title="Edit"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(template)}
+                    className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50"
+                    title="Delete"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+
+      {editingId && (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Template name</label>
+              <input
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="e.g. Newsletter Bytes"
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Newsletter name</label>
+                <input
+                  value={draft.newsletter_name ?? ''}
+                  onChange={(e) => updateDraft({ newsletter_name: e.target.value })}
+                  placeholder="As entered when generating"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Voice profile</label>
+                <select
+                  value={draft.profile_id ?? ''}
+                  onChange={(e) => updateDraft({ profile_id: e.target.value || null })}
+                  className={inputClass}
+                >
+                  <option value="">Any profile</option>
+                  {profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.profile_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-4">
+              {COLOR_FIELDS.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="color"
+                    value={draft[key]}
+                    onChange={(e) => updateDraft({ [key]: e.target.value })}
+                    className="w-8 h-8 rounded border border-slate-200 bg-white"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Layout (header and footer)</label>
+              <textarea
+                value={draft.layout_html}
+                onChange={(e) => updateDraft({ layout_html: e.target.value })}
+                spellCheck={false}
+                className={`${inputClass} font-mono text-xs min-h-[220px]`}
+              />
+              <p className="mt-1 text-xs text-slate-500">
+                Placeholders:{' '}
+                {EMAIL_TEMPLATE_PLACEHOLDERS.map((placeholder, index) => (
+                  <span key={placeholder.name} title={placeholder.description}>
+                    {index > 0 && ', '}
+                    <code className="text-slate-700">{`{{${placeholder.name}}}`}</code>
+                  </span>
+                ))}
+                . Other <code>{'{{...}}'}</code> tags are left for your email platform.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Unsubscribe link</label>
+              <input
+                value={draft.unsubscribe_url}
+                onChange={(e) => updateDraft({ unsubscribe_url: e.target.value })}
+                placeholder="URL or merge tag, e.g. *|UNSUB|* or {{ unsubscribe_url }}"
+                className={inputClass}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <p className="text-sm font-medium text-slate-700">Sponsor slots (HTML, optional)</p>
+              {SPONSOR_SLOT_POSITIONS.map(({ position, label }) => (
+                <div key={position}>
+                  <label className="block text-xs text-slate-500 mb-1">{label}</label>
+                  <textarea
+                    value={sponsorHtml(position)}
+                    onChange={(e) => setSponsorHtml(position, e.target.value)}
+                    spellCheck={false}
+                    placeholder={'<p><strong>Sponsored by Acme</strong> — ...</p>'}
+                    className={`${inputClass} font-mono text-xs min-h-[60px]`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-900 text-white text-sm font-medium hover:bg-slate-800 transition-colors disabled:opacity-50"
+              >
+                {isSaving && <Loader2 size={16} className="animate-spin" />}
+                {editingId === 'new' ? 'Create template' : 'Save template'}
+              </button>
+              <button
+                onClick={() => setEditingId(null)}
+                disabled={isSaving}
+                className="px-4 py-2 rounded-lg bg-slate-100 text-slate-600 text-sm font-medium hover:bg-slate-200 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+
+          <EmailPreview html={previewHtml} title="Template preview" />
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-4 flex items-start gap-2 text-sm text-red-600">
+          <AlertCircle size={16} className="shrink-0 mt-0.5" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
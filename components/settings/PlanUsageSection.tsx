@@ -0,0 +1,314 @@
+import React, { useState } from 'react';
+import {
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle2,
+  Clock,
+  CreditCard,
+  Gauge,
+  Loader2,
+  XCircle,
+} from 'lucide-react';
+import {
+  PLAN_GENERATION_LIMITS,
+  SubscriptionPlan,
+  SubscriptionStatus,
+  type Subscription,
+} from '../../types';
+import { getGenerationsUsed, isPeriodExpired } from '../../services/subscriptionService';
+
+export type BillingNotice = 'success' | 'canceled' | 'portal';
+
+interface PlanUsageSectionProps {
+  subscription: Subscription | null;
+  notice?: BillingNotice | null;
+  onChangePlan: (plan: SubscriptionPlan) => Promise<void>;
+  onManageBilling: (flow?: 'update' | 'cancel') => Promise<void>;
+}
+
+// Cheapest first, so the index decides between "Upgrade" and "Downgrade"
+const PLAN_ORDER: SubscriptionPlan[] = [
+  SubscriptionPlan.Starter,
+  SubscriptionPlan.Professional,
+  SubscriptionPlan.Agency,
+];
+
+const PLAN_LABELS: Record<SubscriptionPlan, string> = {
+  [SubscriptionPlan.Starter]: 'Starter',
+  [SubscriptionPlan.Professional]: 'Professional',
+  [SubscriptionPlan.Agency]: 'Agency',
+};
+
+const NOTICE_MESSAGES: Record<BillingNotice, string> = {
+  success: 'Payment received. Your new plan will appear here in a few moments.',
+  canceled: 'Checkout was canceled. Your plan has not changed.',
+  portal: 'Billing changes made in the portal will appear here in a few moments.',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function getDaysUntil(value: string): number {
+  return Math.max(0, Math.ceil((new Date(value).getTime() - Date.now()) / DAY_MS));
+}
+
+const StatusBadge: React.FC<{ status: SubscriptionStatus }> = ({ status }) => {
+  const config = {
+    active: {
+      icon: CheckCircle2,
+      label: 'Active',
+      className: 'bg-green-100 text-green-700',
+    },
+    trialing: {
+      icon: Clock,
+      label: 'Trial',
+      className: 'bg-indigo-100 text-indigo-700',
+    },
+    past_due: {
+      icon: AlertTriangle,
+      label: 'Past Due',
+      className: 'bg-amber-100 text-amber-700',
+    },
+    canceled: {
+      icon: XCircle,
+      label: 'Canceled',
+      className: 'bg-slate-100 text-slate-600',
+    },
+  };
+
+  const statusConfig = config[status] || config.active;
+  const Icon = statusConfig.icon;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium ${statusConfig.className}`}
+    >
+      <Icon size={14} />
+      {statusConfig.label}
+    </span>
+  );
+};
+
+export const PlanUsageSection: React.FC<PlanUsageSectionProps> = ({
+  subscription,
+  notice,
+  onChangePlan,
+  onManageBilling,
+}) => {
+  // Which action is waiting on a redirect, e.g. 'plan:agency' or 'cancel'
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const runAction = async (key: string, action: () => Promise<void>) => {
+    setPendingAction(key);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Billing request failed');
+      setPendingAction(null);
+    }
+  };
+
+  if (!subscription) {
+    return (
+      <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm">
+        <h2 className="text-xl font-bold text-slate-900 mb-4">Plan & Usage</h2>
+        <div className="flex items-center gap-3 text-slate-500">
+          <Loader2 size={20} className="animate-spin" />
+          <p>Loading your plan...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const used = getGenerationsUsed(subscription);
+  const limit = subscription.generations_limit;
+  const remaining = Math.max(0, limit - used);
+  const usagePercent = limit > 0 ? Math.min(100, Math.round((used / limit) * 100)) : 100;
+  const usageBarColor = usagePercent >= 100
+    ? 'bg-red-500'
+    : usagePercent >= 80
+      ? 'bg-amber-500'
+      : 'bg-indigo-600';
+
+  const isCanceled = subscription.status === SubscriptionStatus.Canceled;
+  const hasStripeSubscription = !!subscription.stripe_subscription_id && !isCanceled;
+  const currentPlanIndex = PLAN_ORDER.indexOf(subscription.plan_name);
+
+  const handlePlanClick = (plan: SubscriptionPlan) => {
+    // Existing Stripe subscriptions switch plans in the portal so proration is handled there
+    if (hasStripeSubscription) {
+      return runAction(`plan:${plan}`, () => onManageBilling('update'));
+    }
+    return runAction(`plan:${plan}`, () => onChangePlan(plan));
+  };
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900 mb-1">Plan & Usage</h2>
+          <div className="flex items-center gap-3">
+            <p className="text-lg text-slate-900 font-medium">
+              {PLAN_LABELS[subscription.plan_name] || subscription.plan_name} plan
+            </p>
+            <StatusBadge status={subscription.status} />
+          </div>
+        </div>
+        {subscription.stripe_customer_id && (
+          <button
+            onClick={() => runAction('portal', () => onManageBilling())}
+            disabled={pendingAction !== null}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors text-sm font-medium disabled:opacity-50"
+          >
+            {pendingAction === 'portal' ? <Loader2 size={16} className="animate-spin" /> : <CreditCard size={16} />}
+            Manage Billing
+          </button>
+        )}
+      </div>
+
+      {/* Return from Stripe */}
+      {notice && (
+        <div className="p-4 bg-indigo-50 text-indigo-700 rounded-xl border border-indigo-100 text-sm">
+          {NOTICE_MESSAGES[notice]}
+        </div>
+      )}
+
+      {/* Status warnings */}
+      {subscription.status === SubscriptionStatus.Trialing && subscription.trial_ends_at && (
+        <div className="flex items-start gap-3 p-4 bg-indigo-50 text-indigo-800 rounded-xl border border-indigo-100">
+          <Clock size={20} className="shrink-0 mt-0.5" />
+          <p className="text-sm">
+            <span className="font-bold">
+              {getDaysUntil(subscription.trial_ends_at)} day{getDaysUntil(subscription.trial_ends_at) === 1 ? '' : 's'}
+            </span>{' '}
+            left in your trial. It ends on {formatDate(subscription.trial_ends_at)}.
+          </p>
+        </div>
+      )}
+
+      {subscription.status === SubscriptionStatus.PastDue && (
+        <div className="flex items-start gap-3 p-4 bg-amber-50 text-amber-800 rounded-xl border border-amber-200">
+          <AlertTriangle size={20} className="shrink-0 mt-0.5" />
+          <div className="text-sm">
+            <p className="font-medium">Your last payment failed.</p>
+            <p>Update your payment method to keep generating newsletters.</p>
+            {subscription.stripe_customer_id && (
+              <button
+                onClick={() => runAction('portal', () => onManageBilling())}
+                disabled={pendingAction !== null}
+                className="mt-2 font-medium underline hover:no-underline disabled:opacity-50"
+              >
+                Update payment method
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {subscription.cancel_at && !isCanceled && (
+        <div className="flex items-start gap-3 p-4 bg-slate-50 text-slate-700 rounded-xl border border-slate-200">
+          <AlertCircle size={20} className="shrink-0 mt-0.5" />
+          <p className="text-sm">
+            Your subscription is set to cancel on {formatDate(subscription.cancel_at)}.
+          </p>
+        </div>
+      )}
+
+      {/* Usage */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2 text-sm font-medium text-slate-500">
+            <Gauge size={16} />
+            Generations this period
+          </div>
+          <p className="text-sm text-slate-600">
+            <span className="font-bold text-slate-900">{used}</span> / {limit} used
+          </p>
+        </div>
+        <div className="h-3 bg-slate-100 rounded-full overflow-hidden">
+          <div
+            className={`h-full rounded-full transition-all ${usageBarColor}`}
+            style={{ width: `${usagePercent}%` }}
+          />
+        </div>
+        <div className="flex items-center justify-between mt-2 text-sm text-slate-500">
+          <p>{remaining} remaining</p>
+          <p>
+            {isPeriodExpired(subscription)
+              ? 'A new period starts with your next generation'
+              : `${subscription.cancel_at && !isCanceled ? 'Ends' : 'Renews'} ${formatDate(subscription.current_period_end)}`}
+          </p>
+        </div>
+      </div>
+
+      {/* Plan options */}
+      <div>
+        <label className="text-sm font-medium text-slate-500">Change Plan</label>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-2">
+          {PLAN_ORDER.map((plan, index) => {
+            const isCurrent = plan === subscription.plan_name && !isCanceled;
+            const actionLabel = index > currentPlanIndex ? 'Upgrade' : 'Downgrade';
+            const isPending = pendingAction === `plan:${plan}`;
+
+            return (
+              <div
+                key={plan}
+                className={`p-4 rounded-xl border-2 ${
+                  isCurrent ? 'border-indigo-600 bg-indigo-50' : 'border-slate-200'
+                }`}
+              >
+                <p className="font-bold text-slate-900">{PLAN_LABELS[plan]}</p>
+                <p className="text-sm text-slate-500 mb-3">
+                  {PLAN_GENERATION_LIMITS[plan]} generations / period
+                </p>
+                {isCurrent ? (
+                  <p className="text-sm font-medium text-indigo-600">Current plan</p>
+                ) : (
+                  <button
+                    onClick={() => handlePlanClick(plan)}
+                    disabled={pendingAction !== null}
+                    className="flex items-center gap-2 text-sm font-medium text-indigo-600 hover:text-indigo-700 disabled:opacity-50"
+                  >
+                    {isPending && <Loader2 size={14} className="animate-spin" />}
+                    {isCanceled ? 'Subscribe' : actionLabel}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {hasStripeSubscription && !subscription.cancel_at && (
+        <div className="pt-4 border-t border-slate-100">
+          <button
+            onClick={() => runAction('cancel', () => onManageBilling('cancel'))}
+            disabled={pendingAction !== null}
+            className="flex items-center gap-2 text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+          >
+            {pendingAction === 'cancel' && <Loader2 size={14} className="animate-spin" />}
+            Cancel subscription
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 text-red-600 rounded-xl border border-red-100">
+          <div className="flex items-start gap-3">
+            <AlertCircle size={20} className="shrink-0 mt-0.5" />
+            <p className="text-sm">{error}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Loader2, ShieldCheck } from 'lucide-react';
+
+interface TeamSettingsSectionProps {
+  requireApprovedProfiles: boolean;
+  onChangeRequireApproved: (value: boolean) => Promise<void>;
+}
+
+export const TeamSettingsSection: React.FC<TeamSettingsSectionProps> = ({
+  requireApprovedProfiles,
+  onChangeRequireApproved,
+}) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onChangeRequireApproved(!requireApprovedProfiles);
+    } catch (err) {
+      console.error('Failed to update team settings:', err);
+      setError('Failed to save setting');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm">
+      <h2 className="text-xl font-bold text-slate-900 mb-4">Team Settings</h2>
+      <div className="flex items-start justify-between gap-6">
+        <div className="flex items-start gap-3">
+          <ShieldCheck size={20} className="shrink-0 mt-0.5 text-indigo-600" />
+          <div>
+            <p className="font-medium text-slate-900">Require approved voice profiles</p>
+            <p className="text-sm text-slate-500">
+              Newsletters can only be generated with profiles that passed review. Editing a profile
+              sends it back for review.
+            </p>
+          </div>
+        </div>
+        <button
+          type="button"
+          role="switch"
+          aria-checked={requireApprovedProfiles}
+          onClick={handleToggle}
+          disabled={isSaving}
+          className={`relative shrink-0 w-12 h-7 rounded-full transition-colors disabled:opacity-50 ${
+            requireApprovedProfiles ? 'bg-indigo-600' : 'bg-slate-200'
+          }`}
+        >
+          {isSaving ? (
+            <Loader2 size={14} className="absolute inset-0 m-auto animate-spin text-white" />
+          ) : (
+            <span
+              className={`absolute top-1 left-1 w-5 h-5 rounded-full bg-white shadow transition-transform ${
+                requireApprovedProfiles ? 'translate-x-5' : ''
+              }`}
+            />
+          )}
+        </button>
+      </div>
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
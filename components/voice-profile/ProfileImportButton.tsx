@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { AlertCircle, FileUp, Loader2, X } from 'lucide-react';
+import type { VoiceProfileExport } from '../../types';
+import {
+  parseVoiceProfileImport,
+  type ImportFieldErrors,
+} from '../../services/voiceProfileExportService';
+
+interface ProfileImportButtonProps {
+  onImport: (document: VoiceProfileExport) => Promise<void>;
+}
+
+// Only the first few field errors are listed so a badly broken file stays readable
+const MAX_LISTED_ERRORS = 12;
+
+export const ProfileImportButton: React.FC<ProfileImportButtonProps> = ({ onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<ImportFieldErrors | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setFieldErrors(null);
+    setError(null);
+
+    const { document, errors } = parseVoiceProfileImport(await file.text());
+    if (!document) {
+      setFieldErrors(errors);
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      await onImport(document);
+    } catch (err) {
+      console.error('Failed to import voice profile:', err);
+      setError('Failed to import voice profile');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const errorEntries = fieldErrors ? Object.entries(fieldErrors) : [];
+
+  return (
+    <div className="space-y-3">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          handleFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isImporting}
+        className="inline-flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium text-slate-600 bg-white border border-slate-200 hover:border-indigo-300 hover:text-indigo-600 transition-colors disabled:opacity-50"
+      >
+        {isImporting ? <Loader2 size={16} className="animate-spin" /> : <FileUp size={16} />}
+        Import Profile
+      </button>
+
+      {(errorEntries.length > 0 || error) && (
+        <div className="p-4 bg-red-50 text-red-600 rounded-xl border border-red-100 text-left">
+          <div className="flex items-start gap-3">
+            <AlertCircle size={20} className="shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <p className="font-medium">
+                {error || `${fileName} can't be imported`}
+              </p>
+              {errorEntries.length > 0 && (
+                <ul className="mt-1 text-sm space-y-0.5">
+                  {errorEntries.slice(0, MAX_LISTED_ERRORS).map(([field, message]) => (
+                    <li key={field}>
+                      <code className="text-xs">{field}</code>: {message}
+                    </li>
+                  ))}
+                  {errorEntries.length > MAX_LISTED_ERRORS && (
+                    <li>...and {errorEntries.length - MAX_LISTED_ERRORS} more</li>
+                  )}
+                </ul>
+              )}
+            </div>
+            <button
+              onClick={() => {
+                setFieldErrors(null);
+                setError(null);
+              }}
+              className="text-red-400 hover:text-red-600"
+              title="Dismiss"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,283 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle2,
+  ChevronDown,
+  ChevronUp,
+  Edit3,
+  Loader2,
+  MessageSquareWarning,
+  RefreshCw,
+  Undo2,
+} from 'lucide-react';
+import type { VoicePreview, VoiceProfile } from '../../types';
+import { generateVoicePreview } from '../../services/voicePreviewService';
+
+interface ProfileReviewProps {
+  profile: VoiceProfile;
+  onApprove: () => Promise<void>;
+  onSendBack: (notes: string) => Promise<void>;
+  onEdit: () => void;
+  onBack: () => void;
+}
+
+const SIGNATURE_LABELS: Array<{ key: keyof VoiceProfile; label: string }> = [
+  { key: 'uses_questions', label: 'Questions' },
+  { key: 'uses_data', label: 'Data/Stats' },
+  { key: 'uses_anecdotes', label: 'Anecdotes' },
+  { key: 'uses_metaphors', label: 'Metaphors' },
+  { key: 'uses_humor', label: 'Humor' },
+];
+
+function formatOption(value: string | null | undefined): string {
+  return value ? value.replace(/_/g, ' ') : '-';
+}
+
+export const ProfileReview: React.FC<ProfileReviewProps> = ({
+  profile,
+  onApprove,
+  onSendBack,
+  onEdit,
+  onBack,
+}) => {
+  const [preview, setPreview] = useState<VoicePreview | null>(null);
+  const [isPreviewLoading, setIsPreviewLoading] = useState(true);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [showPrompt, setShowPrompt] = useState(false);
+  const [isSendingBack, setIsSendingBack] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [pendingAction, setPendingAction] = useState<'approve' | 'draft' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPreview = useCallback(async () => {
+    setIsPreviewLoading(true);
+    setPreviewError(null);
+    try {
+      setPreview(await generateVoicePreview(profile));
+    } catch (err) {
+      console.error('Failed to generate voice preview:', err);
+      setPreviewError(err instanceof Error ? err.message : 'Failed to generate preview');
+    } finally {
+      setIsPreviewLoading(false);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    loadPreview();
+  }, [loadPreview]);
+
+  const runAction = async (key: 'approve' | 'draft', action: () => Promise<void>) => {
+    setPendingAction(key);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Failed to update profile status:', err);
+      setError('Failed to save the review - please try again');
+      setPendingAction(null);
+    }
+  };
+
+  const isApproved = profile.status === 'approved';
+  const signatureElements = SIGNATURE_LABELS.filter(({ key }) => profile[key]).map(({ label }) => label);
+
+  return (
+    <div className="space-y-8">
+      <header>
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-sm font-medium text-slate-500 hover:text-slate-700 mb-4"
+        >
+          <ArrowLeft size={16} />
+          Back to Voice Profiles
+        </button>
+        <h1 className="text-3xl md:text-4xl font-bold text-slate-900 mb-2">
+          Review Voice Profile
+        </h1>
+        <p className="text-lg text-slate-500">
+          Check how <span className="font-medium text-slate-700">{profile.profile_name}</span> sounds
+          before it's used for newsletters.
+        </p>
+      </header>
+
+      {profile.review_notes && !isApproved && (
+        <div className="flex items-start gap-3 p-4 bg-amber-50 text-amber-800 rounded-xl border border-amber-200">
+          <MessageSquareWarning size={20} className="shrink-0 mt-0.5" />
+          <div className="text-sm">
+            <p className="font-medium">Notes from the last review</p>
+            <p className="whitespace-pre-wrap">{profile.review_notes}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Test paragraph */}
+      <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm">
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h2 className="text-xl font-bold text-slate-900">Test Paragraph</h2>
+          <button
+            onClick={loadPreview}
+            disabled={isPreviewLoading}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-50 text-slate-600 hover:bg-indigo-50 hover:text-indigo-600 transition-colors text-sm font-medium disabled:opacity-50"
+          >
+            <RefreshCw size={16} className={isPreviewLoading ? 'animate-spin' : ''} />
+            Regenerate
+          </button>
+        </div>
+
+        {isPreviewLoading ? (
+          <div className="flex items-center gap-3 text-slate-500">
+            <Loader2 size={20} className="animate-spin" />
+            Writing a test paragraph...
+          </div>
+        ) : previewError ? (
+          <div className="flex items-start gap-3 p-4 bg-red-50 text-red-600 rounded-xl border border-red-100">
+            <AlertCircle size={20} className="shrink-0 mt-0.5" />
+            <p className="text-sm">{previewError}</p>
+          </div>
+        ) : preview ? (
+          <>
+            <blockquote className="border-l-4 border-indigo-200 pl-4 text-slate-700 leading-relaxed whitespace-pre-wrap">
+              {preview.paragraph}
+            </blockquote>
+            <p className="mt-3 text-xs text-slate-400">
+              {preview.source === 'n8n'
+                ? 'Written by the preview workflow with this profile.'
+                : 'Template preview built from your settings. AI-written previews appear once a preview workflow is connected.'}
+            </p>
+          </>
+        ) : null}
+      </div>
+
+      {/* Profile summary */}
+      <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm">
+        <h2 className="text-xl font-bold text-slate-900 mb-4">Settings</h2>
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <div>
+            <dt className="font-medium text-slate-500">Tone</dt>
+            <dd className="text-slate-900">{profile.tone.join(', ') || '-'}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-slate-500">Formality / Detail</dt>
+            <dd className="text-slate-900">{profile.formality}/5 · {profile.detail_level}/5</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-slate-500">Sentences</dt>
+            <dd className="text-slate-900 capitalize">
+              {formatOption(profile.sentence_style)}
+              {profile.avg_sentence_length !== null && (
+                <span className="normal-case text-slate-500"> · {profile.avg_sentence_length} words on average in your samples</span>
+              )}
+            </dd>
+          </div>
+          <div>
+            <dt className="font-medium text-slate-500">Paragraphs</dt>
+            <dd className="text-slate-900 capitalize">{formatOption(profile.paragraph_pattern)}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-slate-500">Signature elements</dt>
+            <dd className="text-slate-900">{signatureElements.join(', ') || 'None'}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-slate-500">Phrases / Samples</dt>
+            <dd className="text-slate-900">
+              {profile.common_phrases.length} to use · {profile.avoid_phrases.length} to avoid · {profile.samples.length} sample{profile.samples.length === 1 ? '' : 's'}
+            </dd>
+          </div>
+        </dl>
+
+        {profile.voice_prompt && (
+          <div className="mt-6">
+            <button
+              onClick={() => setShowPrompt(!showPrompt)}
+              className="flex items-center gap-1.5 text-sm font-medium text-indigo-600 hover:text-indigo-700"
+            >
+              {showPrompt ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+              {showPrompt ? 'Hide voice prompt' : 'Show voice prompt'}
+            </button>
+            {showPrompt && (
+              <pre className="mt-3 p-4 bg-slate-50 rounded-xl text-xs text-slate-700 whitespace-pre-wrap font-mono">
+                {profile.voice_prompt}
+              </pre>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Decision */}
+      <div className="bg-white rounded-3xl p-8 border border-slate-100 shadow-sm space-y-4">
+        {isApproved && profile.approved_at && (
+          <p className="flex items-center gap-2 text-sm font-medium text-indigo-700">
+            <CheckCircle2 size={16} />
+            Approved on{' '}
+            {new Date(profile.approved_at).toLocaleDateString('en-US', {
+              month: 'long',
+              day: 'numeric',
+              year: 'numeric',
+            })}
+          </p>
+        )}
+
+        {isSendingBack ? (
+          <div className="space-y-3">
+            <label className="text-sm font-medium text-slate-700">What should change?</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Too formal - drop the corporate phrasing and use more questions"
+              className="w-full p-4 rounded-xl bg-slate-50 border border-slate-200 focus:bg-white focus:border-indigo-500 outline-none text-sm text-slate-700 min-h-[100px] resize-none"
+            />
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => runAction('draft', () => onSendBack(notes))}
+                disabled={pendingAction !== null}
+                className="flex items-center gap-2 px-5 py-2.5 rounded-xl bg-slate-900 text-white text-sm font-bold hover:bg-slate-800 transition-colors disabled:opacity-50"
+              >
+                {pendingAction === 'draft' ? <Loader2 size={16} className="animate-spin" /> : <Undo2 size={16} />}
+                Send Back to Draft
+              </button>
+              <button
+                onClick={() => setIsSendingBack(false)}
+                disabled={pendingAction !== null}
+                className="px-4 py-2.5 rounded-xl text-sm font-medium text-slate-500 hover:bg-slate-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center gap-3 flex-wrap">
+            {!isApproved && (
+              <button
+                onClick={() => runAction('approve', onApprove)}
+                disabled={pendingAction !== null}
+                className="flex items-center gap-2 px-6 py-3 rounded-xl bg-indigo-600 text-white font-bold shadow-lg shadow-indigo-500/25 hover:bg-indigo-500 transition-colors disabled:opacity-50"
+              >
+                {pendingAction === 'approve' ? <Loader2 size={18} className="animate-spin" /> : <CheckCircle2 size={18} />}
+                Approve Profile
+              </button>
+            )}
+            <button
+              onClick={() => setIsSendingBack(true)}
+              disabled={pendingAction !== null}
+              className="flex items-center gap-2 px-5 py-3 rounded-xl bg-slate-100 text-slate-700 font-medium hover:bg-slate-200 transition-colors disabled:opacity-50"
+            >
+              <Undo2 size={18} />
+              Send Back to Draft
+            </button>
+            <button
+              onClick={onEdit}
+              disabled={pendingAction !== null}
+              className="flex items-center gap-2 px-5 py-3 rounded-xl text-slate-600 font-medium hover:bg-slate-50 transition-colors disabled:opacity-50"
+            >
+              <Edit3 size={18} />
+              Edit Profile
+            </button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+};
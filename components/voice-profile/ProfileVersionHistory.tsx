@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react';
+import { Columns2, History, Loader2, RotateCcw } from 'lucide-react';
+import type { VoiceProfileFormData, VoiceProfileVersion, WritingSample } from '../../types';
+import { getVoiceProfileVersions } from '../../services/voiceProfileService';
+import {
+  describeVoiceProfileErrors,
+  validateVoiceProfileFormData,
+  VOICE_PROFILE_FORM_FIELDS,
+} from '../../services/voiceProfileMapper';
+
+interface ProfileVersionHistoryProps {
+  profileId: string;
+  onRestore: (version: VoiceProfileVersion) => Promise<void>;
+}
+
+const FIELD_LABELS: Record<keyof VoiceProfileFormData, string> = {
+  profile_name: 'Profile name',
+  newsletter_name: 'Newsletter name',
+  tone: 'Tone',
+  formality: 'Formality',
+  detail_level: 'Detail level',
+  sentence_style: 'Sentence style',
+  vocabulary_level: 'Vocabulary',
+  common_phrases: 'Signature phrases',
+  avoid_phrases: 'Phrases to avoid',
+  uses_questions: 'Uses questions',
+  uses_data: 'Uses data',
+  uses_anecdotes: 'Uses anecdotes',
+  uses_metaphors: 'Uses metaphors',
+  uses_humor: 'Uses humor',
+  paragraph_pattern: 'Paragraph pattern',
+  samples: 'Writing samples',
+};
+
+// Sample text is clipped in the diff so long samples don't swamp the table
+const SAMPLE_PREVIEW_LENGTH = 120;
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+const FieldValue: React.FC<{ field: keyof VoiceProfileFormData; value: unknown }> = ({ field, value }) => {
+  if (value === null || value === undefined || value === '') {
+    return <span className="text-slate-400">—</span>;
+  }
+  if (typeof value === 'boolean') {
+    return <>{value ? 'Yes' : 'No'}</>;
+  }
+  if (field === 'samples' && Array.isArray(value)) {
+    const samples = value as WritingSample[];
+    if (samples.length === 0) return <span className="text-slate-400">—</span>;
+    return (
+      <ul className="space-y-1">
+        {samples.map((sample, index) => (
+          <li key={index} className="text-xs">
+            <span className="font-medium capitalize">{sample.source}:</span>{' '}
+            {sample.text.length > SAMPLE_PREVIEW_LENGTH
+              ? `${sample.text.slice(0, SAMPLE_PREVIEW_LENGTH).trimEnd()}...`
+              : sample.text}
+          </li>
+        ))}
+      </ul>
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? <>{value.join(', ')}</> : <span className="text-slate-400">—</span>;
+  }
+  return <>{String(value).replace(/_/g, ' ')}</>;
+};
+
+const VersionDiff: React.FC<{ older: VoiceProfileVersion; newer: VoiceProfileVersion }> = ({ older, newer }) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const changedFields = VOICE_PROFILE_FORM_FIELDS.filter(
+    (field) => !isSameValue(older.snapshot[field], newer.snapshot[field])
+  );
+  const visibleFields = showUnchanged ? VOICE_PROFILE_FORM_FIELDS : changedFields;
+
+  return (
+    <div className="mt-6 rounded-2xl border border-slate-200 overflow-hidden">
+      <div className="grid grid-cols-[10rem_1fr_1fr] bg-slate-50 border-b border-slate-200 text-sm font-medium text-slate-600">
+        <div className="p-3">Field</div>
+        <div className="p-3 border-l border-slate-200">
+          v{older.version_number} <span className="font-normal text-slate-400">· {formatDate(older.created_at)}</span>
+        </div>
+        <div className="p-3 border-l border-slate-200">
+          v{newer.version_number} <span className="font-normal text-slate-400">· {formatDate(newer.created_at)}</span>
+        </div>
+      </div>
+
+      {visibleFields.length === 0 ? (
+        <p className="p-4 text-sm text-slate-500">These versions are identical.</p>
+      ) : (
+        visibleFields.map((field) => {
+          const isChanged = changedFields.includes(field);
+          return (
+            <div
+              key={field}
+              className="grid grid-cols-[10rem_1fr_1fr] border-b border-slate-100 last:border-b-0 text-sm"
+            >
+              <div className="p-3 font-medium text-slate-700">{FIELD_LABELS[field]}</div>
+              <div className={`p-3 border-l border-slate-100 ${isChanged ? 'bg-red-50 text-red-900' : 'text-slate-600'}`}>
+                <FieldValue field={field} value={older.snapshot[field]} />
+              </div>
+              <div className={`p-3 border-l border-slate-100 ${isChanged ? 'bg-green-50 text-green-900' : 'text-slate-600'}`}>
+                <FieldValue field={field} value={newer.snapshot[field]} />
+              </div>
+            </div>
+          );
+        })
+      )}
+
+      <div className="p-3 bg-slate-50 border-t border-slate-200 flex items-center justify-between text-sm">
+        <span className="text-slate-500">
+          {changedFields.length} field{changedFields.length === 1 ? '' : 's'} changed
+        </span>
+        <button
+          type="button"
+          onClick={() => setShowUnchanged(!showUnchanged)}
+          className="font-medium text-indigo-600 hover:text-indigo-700"
+        >
+          {showUnchanged ? 'Only show changes' : 'Show all fields'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const ProfileVersionHistory: React.FC<ProfileVersionHistoryProps> = ({ profileId, onRestore }) => {
+  const [versions, setVersions] = useState<VoiceProfileVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Up to two version ids picked for the side-by-side diff
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getVoiceProfileVersions(profileId)
+      .then((data) => {
+        if (cancelled) return;
+        setVersions(data);
+        // Start by comparing the current version with the one before it
+        setCompareIds(data.length >= 2 ? [data[1].id, data[0].id] : []);
+      })
+      .catch((err) => {
+        console.error('Failed to load profile versions:', err);
+        if (!cancelled) setError('Failed to load version history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId]);
+
+  const toggleCompare = (versionId: string) => {
+    setCompareIds((prev) => {
+      if (prev.includes(versionId)) return prev.filter((id) => id !== versionId);
+      // Picking a third version replaces the oldest pick
+      return [...prev, versionId].slice(-2);
+    });
+  };
+
+  const handleRestore = async (version: VoiceProfileVersion) => {
+    if (!confirm(`Restore version ${version.version_number}? It will be saved as a new version.`)) return;
+
+    setError(null);
+    const errors = validateVoiceProfileFormData(version.snapshot);
+    if (Object.keys(errors).length > 0) {
+      setError(`Version ${version.version_number} can't be restored as saved: ${describeVoiceProfileErrors(errors)}`);
+      return;
+    }
+
+    setRestoringId(version.id);
+    try {
+      await onRestore(version);
+    } catch (err) {
+      console.error('Failed to restore profile version:', err);
+      setError('Failed to restore version');
+      setRestoringId(null);
+    }
+  };
+
+  const compared = versions
+    .filter((v) => compareIds.includes(v.id))
+    .sort((a, b) => a.version_number - b.version_number);
+
+  return (
+    <div className="bg-white rounded-3xl p-6 border border-slate-100 shadow-sm">
+      <div className="flex items-center gap-2 mb-4">
+        <History size={18} className="text-slate-500" />
+        <h3 className="text-lg font-bold text-slate-900">Version History</h3>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center gap-3 text-sm text-slate-500">
+          <Loader2 size={16} className="animate-spin" />
+          Loading version history...
+        </div>
+      ) : versions.length === 0 ? (
+        <p className="text-sm text-slate-500">No versions yet. Every save you make will show up here.</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-slate-100">
+            {versions.map((version, index) => {
+              const isCurrent = index === 0;
+              const isCompared = compareIds.includes(version.id);
+              const changedFields = Object.keys(version.changes) as Array<keyof VoiceProfileFormData>;
+
+              return (
+                <li key={version.id} className="flex items-start justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 mb-0.5">
+                      <span className="font-bold text-slate-900">v{version.version_number}</span>
+                      {isCurrent && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-700">
+                          Current
+                        </span>
+                      )}
+                      <span className="text-xs text-slate-400">{formatDate(version.created_at)}</span>
+                    </div>
+                    <p className="text-sm text-slate-500 truncate">
+                      {changedFields.length === 0
+                        ? 'Profile created'
+                        : `Changed ${changedFields.map((field) => FIELD_LABELS[field] || field).join(', ')}`}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-2 shrink-0">
+                    {versions.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => toggleCompare(version.id)}
+                        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                          isCompared
+                            ? 'bg-indigo-600 text-white'
+                            : 'bg-slate-50 text-slate-600 hover:bg-indigo-50 hover:text-indigo-600'
+                        }`}
+                        title="Compare this version"
+                      >
+                        <Columns2 size={14} />
+                        Compare
+                      </button>
+                    )}
+                    {!isCurrent && (
+                      <button
+                        type="button"
+                        onClick={() => handleRestore(version)}
+                        disabled={restoringId !== null}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-50 text-slate-600 hover:bg-amber-50 hover:text-amber-700 transition-colors text-sm font-medium disabled:opacity-50"
+                        title="Restore this version"
+                      >
+                        {restoringId === version.id ? (
+                          <Loader2 size={14} className="animate-spin" />
+                        ) : (
+                          <RotateCcw size={14} />
+                        )}
+                        Restore
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+
+          {compared.length === 2 ? (
+            <VersionDiff older={compared[0]} newer={compared[1]} />
+          ) : versions.length > 1 ? (
+            <p className="mt-4 text-sm text-slate-500">Pick two versions to compare them side by side.</p>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+};
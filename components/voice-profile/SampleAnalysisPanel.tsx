@@ -0,0 +1,152 @@
+import React, { useMemo } from 'react';
+import { BarChart3, CheckCircle2, Wand2 } from 'lucide-react';
+import type { VoiceProfileFormData } from '../../types';
+import {
+  analyzeSamples,
+  hasEnoughSamples,
+  suggestVoiceSettings,
+  MIN_SENTENCES_FOR_ANALYSIS,
+  type VoiceSuggestions,
+} from '../../services/voiceAnalysisService';
+
+interface SampleAnalysisPanelProps {
+  formData: VoiceProfileFormData;
+  onApply: (suggestions: VoiceSuggestions) => void;
+}
+
+const FLAG_LABELS: Array<{ key: keyof VoiceSuggestions; label: string }> = [
+  { key: 'uses_questions', label: 'Questions' },
+  { key: 'uses_data', label: 'Data/Stats' },
+  { key: 'uses_anecdotes', label: 'Anecdotes' },
+  { key: 'uses_metaphors', label: 'Metaphors' },
+  { key: 'uses_humor', label: 'Humor' },
+];
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatOption(value: string): string {
+  return value.replace(/_/g, ' ');
+}
+
+const Stat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="p-3 rounded-xl bg-white border border-slate-100">
+    <p className="text-xs font-medium text-slate-500">{label}</p>
+    <p className="text-lg font-bold text-slate-900">{value}</p>
+    {hint && <p className="text-xs text-slate-400">{hint}</p>}
+  </div>
+);
+
+export const SampleAnalysisPanel: React.FC<SampleAnalysisPanelProps> = ({ formData, onApply }) => {
+  const analysis = useMemo(() => analyzeSamples(formData.samples), [formData.samples]);
+
+  if (!hasEnoughSamples(analysis)) {
+    return (
+      <div className="p-4 rounded-xl bg-slate-50 border border-slate-100 text-sm text-slate-500 flex items-start gap-3">
+        <BarChart3 size={18} className="shrink-0 mt-0.5 text-slate-400" />
+        <p>
+          Add at least {MIN_SENTENCES_FOR_ANALYSIS} sentences of your writing and we'll measure your
+          sentence length, paragraph rhythm and recurring phrases, then suggest settings to match.
+        </p>
+      </div>
+    );
+  }
+
+  const suggestions = suggestVoiceSettings(analysis, formData);
+  const newPhrases = suggestions.common_phrases.slice(formData.common_phrases.length);
+  const isApplied =
+    newPhrases.length === 0 &&
+    (Object.keys(suggestions) as Array<keyof VoiceSuggestions>)
+      .filter((key) => key !== 'common_phrases')
+      .every((key) => formData[key] === suggestions[key]);
+
+  return (
+    <div className="p-5 rounded-2xl bg-indigo-50/50 border border-indigo-100 space-y-5">
+      <div className="flex items-center gap-2">
+        <BarChart3 size={18} className="text-indigo-600" />
+        <h4 className="text-sm font-bold text-slate-700">Sample Analysis</h4>
+        <span className="text-xs text-slate-400">
+          {analysis.word_count.toLocaleString()} words · {analysis.sentence_count} sentences
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <Stat
+          label="Avg sentence"
+          value={`${analysis.sentence_length.average} words`}
+          hint={`Most run ${analysis.sentence_length.p25}-${analysis.sentence_length.p75}`}
+        />
+        <Stat
+          label="Sentences / paragraph"
+          value={String(analysis.paragraphs.average_sentences)}
+          hint={`${formatPercent(analysis.paragraphs.single_sentence_ratio)} one-liners`}
+        />
+        <Stat
+          label="Reading ease"
+          value={String(Math.round(analysis.readability.flesch_reading_ease))}
+          hint={`Grade ${Math.max(0, Math.round(analysis.readability.flesch_kincaid_grade))}`}
+        />
+        <Stat
+          label="Questions"
+          value={`${Math.round(analysis.frequency.questions)}%`}
+          hint={`${Math.round(analysis.frequency.numbers)}% of sentences cite numbers`}
+        />
+      </div>
+
+      {analysis.top_phrases.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-slate-500 mb-2">Recurring phrases</p>
+          <div className="flex flex-wrap gap-2">
+            {analysis.top_phrases.map(({ phrase, count }) => (
+              <span
+                key={phrase}
+                className="px-2.5 py-1 rounded-lg bg-white border border-slate-100 text-xs text-slate-600"
+              >
+                "{phrase}" <span className="text-slate-400">×{count}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="pt-4 border-t border-indigo-100 space-y-3">
+        <p className="text-xs font-medium text-slate-500">Suggested settings</p>
+        <div className="text-sm text-slate-600 space-y-1">
+          <p>
+            Sentence style: <span className="font-medium capitalize">{suggestions.sentence_style}</span>
+            {' · '}
+            Paragraphs: <span className="font-medium capitalize">{formatOption(suggestions.paragraph_pattern)}</span>
+          </p>
+          <p>
+            Signature elements:{' '}
+            <span className="font-medium">
+              {FLAG_LABELS.filter(({ key }) => suggestions[key]).map(({ label }) => label).join(', ') || 'None detected'}
+            </span>
+          </p>
+          {newPhrases.length > 0 && (
+            <p>
+              New phrases: <span className="font-medium">{newPhrases.map((p) => `"${p}"`).join(', ')}</span>
+            </p>
+          )}
+        </div>
+
+        {isApplied ? (
+          <p className="flex items-center gap-2 text-sm font-medium text-green-700">
+            <CheckCircle2 size={16} />
+            Your settings match your samples
+          </p>
+        ) : (
+          <button
+            type="button"
+            onClick={() => onApply(suggestions)}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-500 transition-colors"
+          >
+            <Wand2 size={16} />
+            Apply Suggestions
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, Link2, Loader2, Upload } from 'lucide-react';
+import type { WritingSample } from '../../types';
+import {
+  importPastedSamples,
+  importSampleFiles,
+  importSamplesFromUrl,
+  isUrl,
+  MAX_SAMPLES,
+  MIN_SAMPLE_WORDS,
+  SAMPLE_IMPORT_ACCEPT,
+  type SampleImportResult,
+} from '../../services/sampleImportService';
+
+interface SampleImportPanelProps {
+  existingSamples: WritingSample[];
+  onImport: (samples: WritingSample[]) => void;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+const ImportSummary: React.FC<{ result: SampleImportResult }> = ({ result }) => {
+  const { skipped } = result;
+  const notes = [
+    skipped.duplicate > 0 && `${plural(skipped.duplicate, 'duplicate')} skipped`,
+    skipped.too_short > 0 && `${skipped.too_short} under ${MIN_SAMPLE_WORDS} words skipped`,
+    skipped.over_limit > 0 && `${skipped.over_limit} over the ${MAX_SAMPLES}-sample limit skipped`,
+    result.trimmed > 0 && `${plural(result.trimmed, 'long post')} trimmed`,
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-2">
+      <p
+        className={`flex items-center gap-2 text-sm font-medium ${
+          result.samples.length > 0 ? 'text-green-700' : 'text-slate-600'
+        }`}
+      >
+        <CheckCircle2 size={16} />
+        Added {plural(result.samples.length, 'sample')} from {plural(result.found, 'post')}
+      </p>
+      {notes.length > 0 && <p className="text-xs text-slate-500">{notes.join(' · ')}</p>}
+      {result.errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-0.5">
+          {result.errors.map(({ name, message }) => (
+            <li key={name}>
+              {name}: {message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export const SampleImportPanel: React.FC<SampleImportPanelProps> = ({ existingSamples, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState<WritingSample['source']>('newsletter');
+  const [pasted, setPasted] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<SampleImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Resolves true when the import ran, even if every post was skipped
+  const runImport = async (load: () => Promise<SampleImportResult>): Promise<boolean> => {
+    setIsImporting(true);
+    setResult(null);
+    setError(null);
+    try {
+      const imported = await load();
+      setResult(imported);
+      if (imported.samples.length > 0) {
+        onImport(imported.samples);
+      }
+      return true;
+    } catch (err) {
+      console.error('Failed to import samples:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import samples');
+      return false;
+    } finally {
+      setIsImporting(false);
+      setProgress(null);
+    }
+  };
+
+  const handleFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList || []);
+    if (files.length === 0 || isImporting) return;
+    runImport(() =>
+      importSampleFiles(files, existingSamples, source, (done, total) => setProgress({ done, total }))
+    );
+  };
+
+  const handlePasted = async () => {
+    const content = pasted.trim();
+    if (!content) return;
+    const imported = await runImport(async () =>
+      isUrl(content)
+        ? importSamplesFromUrl(content, existingSamples, source)
+        : importPastedSamples(content, existingSamples, source)
+    );
+    if (imported) setPasted('');
+  };
+
+  return (
+    <div className="p-5 rounded-2xl bg-slate-50 border border-slate-100 space-y-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <h4 className="text-sm font-bold text-slate-700">Bulk Import</h4>
+        <select
+          value={source}
+          onChange={(e) => setSource(e.target.value as WritingSample['source'])}
+          className="px-3 py-1.5 rounded-lg bg-white border border-slate-200 text-sm text-slate-700 outline-none focus:border-indigo-500"
+        >
+          <option value="newsletter">Previous Newsletters</option>
+          <option value="blog">Blog Posts I Wrote</option>
+          <option value="twitter">My Twitter/X Posts</option>
+          <option value="email">Emails I Wrote</option>
+        </select>
+      </div>
+
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          handleFiles(e.dataTransfer.files);
+        }}
+        onClick={() => fileInputRef.current?.click()}
+        className={`p-6 rounded-xl border-2 border-dashed text-center cursor-pointer transition-colors ${
+          isDragging ? 'border-indigo-400 bg-indigo-50' : 'border-slate-200 bg-white hover:border-indigo-300'
+        }`}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={SAMPLE_IMPORT_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+        {progress ? (
+          <p className="flex items-center justify-center gap-2 text-sm text-slate-600">
+            <Loader2 size={16} className="animate-spin" />
+            Reading {progress.done} of {plural(progress.total, 'file')}...
+          </p>
+        ) : (
+          <>
+            <Upload size={24} className="mx-auto mb-2 text-slate-400" />
+            <p className="text-sm font-medium text-slate-700">Drop files here or click to browse</p>
+            <p className="text-xs text-slate-400 mt-1">
+              .md, .txt, .html, .docx, RSS/Atom .xml, or a .zip archive export
+            </p>
+          </>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-slate-500 block">
+          Or paste a feed URL, feed XML, or an archive with posts separated by a --- line
+        </label>
+        <textarea
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          placeholder="https://yournewsletter.com/feed"
+          className="w-full p-3 rounded-xl bg-white border border-slate-200 focus:border-indigo-500 outline-none text-sm text-slate-700 min-h-[80px] resize-none"
+        />
+        <button
+          type="button"
+          onClick={handlePasted}
+          disabled={!pasted.trim() || isImporting}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-900 text-white text-sm font-medium hover:bg-slate-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isImporting && !progress ? <Loader2 size={16} className="animate-spin" /> : <Link2 size={16} />}
+          Import Posts
+        </button>
+      </div>
+
+      {error && (
+        <p className="flex items-start gap-2 text-sm text-red-600">
+          <AlertCircle size={16} className="shrink-0 mt-0.5" />
+          {error}
+        </p>
+      )}
+      {result && <ImportSummary result={result} />}
+    </div>
+  );
+};
@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ArrowLeft,
+  ThumbsUp,
+  ThumbsDown,
+  Minus,
+  Trash2,
+  Loader2,
+  Star,
+  Sparkles,
+  BookOpen,
+} from 'lucide-react';
+import { VoiceExampleType, type VoiceExample, type VoiceProfile } from '../../types';
+import {
+  getVoiceExamples,
+  updateVoiceExampleType,
+  deleteVoiceExample,
+} from '../../services/voiceExampleService';
+
+interface VoiceExamplesReviewProps {
+  profile: VoiceProfile;
+  onBack: () => void;
+}
+
+type ExampleFilter = 'all' | VoiceExampleType;
+
+const TYPE_CONFIG = {
+  good: { icon: ThumbsUp, label: 'Sounds like me', className: 'bg-green-100 text-green-700' },
+  bad: { icon: ThumbsDown, label: "Doesn't sound like me", className: 'bg-red-100 text-red-700' },
+  neutral: { icon: Minus, label: 'Neutral', className: 'bg-slate-100 text-slate-600' },
+};
+
+const FILTERS: Array<{ value: ExampleFilter; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: VoiceExampleType.Good, label: 'Good' },
+  { value: VoiceExampleType.Bad, label: 'Bad' },
+  { value: VoiceExampleType.Neutral, label: 'Neutral' },
+];
+
+// Long examples are clamped until expanded
+const PREVIEW_LENGTH = 280;
+
+const ExampleCard: React.FC<{
+  example: VoiceExample;
+  onChangeType: (example: VoiceExample, type: VoiceExampleType) => Promise<void>;
+  onDelete: (example: VoiceExample) => Promise<void>;
+}> = ({ example, onChangeType, onDelete }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const config = TYPE_CONFIG[example.example_type] || TYPE_CONFIG.neutral;
+  const Icon = config.icon;
+  const isLong = example.content.length > PREVIEW_LENGTH;
+  const content = isLong && !isExpanded
+    ? `${example.content.slice(0, PREVIEW_LENGTH).trimEnd()}...`
+    : example.content;
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-5 border border-slate-100 shadow-sm">
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${config.className}`}>
+            <Icon size={12} />
+            {config.label}
+          </span>
+          {example.rating && (
+            <span className="flex items-center gap-0.5 text-xs font-medium text-amber-600">
+              <Star size={12} className="fill-amber-400 text-amber-400" />
+              {example.rating}/5
+            </span>
+          )}
+          {example.learned_from && (
+            <span className="inline-flex items-center gap-1 text-xs font-medium text-indigo-600">
+              <Sparkles size={12} />
+              Used in generations
+            </span>
+          )}
+          <span className="text-xs text-slate-400">
+            {new Date(example.created_at).toLocaleDateString('en-US', {
+              month: 'short',
+              day: 'numeric',
+              year: 'numeric',
+            })}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-1 shrink-0">
+          {isBusy ? (
+            <Loader2 size={18} className="text-slate-400 animate-spin m-2" />
+          ) : (
+            <>
+              {example.example_type !== VoiceExampleType.Good && (
+                <button
+                  onClick={() => run(() => onChangeType(example, VoiceExampleType.Good))}
+                  className="p-2 rounded-lg bg-slate-50 text-slate-500 hover:bg-green-50 hover:text-green-600 transition-colors"
+                  title="Mark as sounds like me"
+                >
+                  <ThumbsUp size={16} />
+                </button>
+              )}
+              {example.example_type !== VoiceExampleType.Bad && (
+                <button
+                  onClick={() => run(() => onChangeType(example, VoiceExampleType.Bad))}
+                  className="p-2 rounded-lg bg-slate-50 text-slate-500 hover:bg-red-50 hover:text-red-600 transition-colors"
+                  title="Mark as doesn't sound like me"
+                >
+                  <ThumbsDown size={16} />
+                </button>
+              )}
+              <button
+                onClick={() => run(() => onDelete(example))}
+                className="p-2 rounded-lg bg-slate-50 text-slate-500 hover:bg-red-50 hover:text-red-600 transition-colors"
+                title="Remove example"
+              >
+                <Trash2 size={16} />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <p className="text-sm text-slate-700 whitespace-pre-wrap">{content}</p>
+      {isLong && (
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="mt-2 text-sm font-medium text-indigo-600 hover:text-indigo-700"
+        >
+          {isExpanded ? 'Show less' : 'Show more'}
+        </button>
+      )}
+      {example.feedback_text && (
+        <p className="mt-3 text-sm text-slate-500 italic">{example.feedback_text}</p>
+      )}
+    </div>
+  );
+};
+
+export const VoiceExamplesReview: React.FC<VoiceExamplesReviewProps> = ({ profile, onBack }) => {
+  const [examples, setExamples] = useState<VoiceExample[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState<ExampleFilter>('all');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    getVoiceExamples(profile.id)
+      .then((data) => {
+        if (!cancelled) setExamples(data);
+      })
+      .catch((err) => {
+        console.error('Failed to load voice examples:', err);
+        if (!cancelled) setError('Failed to load voice examples');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profile.id]);
+
+  const handleChangeType = async (example: VoiceExample, type: VoiceExampleType) => {
+    try {
+      const updated = await updateVoiceExampleType(example.id, type);
+      setExamples((prev) => prev.map((e) => (e.id === updated.id ? updated : e)));
+    } catch (err) {
+      console.error('Failed to update voice example:', err);
+      setError('Failed to update example');
+    }
+  };
+
+  const handleDelete = async (example: VoiceExample) => {
+    if (!confirm('Remove this example from the voice profile?')) return;
+
+    try {
+      await deleteVoiceExample(example.id);
+      setExamples((prev) => prev.filter((e) => e.id !== example.id));
+    } catch (err) {
+      console.error('Failed to delete voice example:', err);
+      setError('Failed to remove example');
+    }
+  };
+
+  const countByType = (type: ExampleFilter) =>
+    type === 'all' ? examples.length : examples.filter((e) => e.example_type === type).length;
+
+  const visibleExamples = filter === 'all'
+    ? examples
+    : examples.filter((e) => e.example_type === filter);
+
+  return (
+    <div className="space-y-8">
+      <header>
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-sm font-medium text-slate-500 hover:text-slate-700 mb-4"
+        >
+          <ArrowLeft size={16} />
+          Back to Voice Profiles
+        </button>
+        <h1 className="text-3xl md:text-4xl font-bold text-slate-900 mb-2">
+          Voice Examples
+        </h1>
+        <p className="text-lg text-slate-500">
+          Passages you marked for <span className="font-medium text-slate-700">{profile.profile_name}</span>.
+          The best-rated ones are sent with every generation.
+        </p>
+      </header>
+
+      <div className="flex items-center gap-2 overflow-x-auto pb-2">
+        {FILTERS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setFilter(value)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition-all ${
+              filter === value
+                ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/25'
+                : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+            }`}
+          >
+            {label} ({countByType(value)})
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 text-red-600 rounded-xl border border-red-100 text-sm">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-3 p-12 text-slate-500">
+          <Loader2 size={20} className="animate-spin" />
+          Loading examples...
+        </div>
+      ) : visibleExamples.length === 0 ? (
+        <div className="bg-white rounded-3xl p-12 border border-slate-100 text-center">
+          <div className="w-16 h-16 bg-slate-100 rounded-2xl flex items-center justify-center mx-auto mb-6">
+            <BookOpen className="text-slate-400" size={32} />
+          </div>
+          <h3 className="text-xl font-bold text-slate-900 mb-2">No Examples Yet</h3>
+          <p className="text-slate-500 max-w-md mx-auto">
+            Mark generated articles or paragraphs as "sounds like me" or "doesn't sound like me"
+            to teach this profile your voice.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {visibleExamples.map((example) => (
+            <ExampleCard
+              key={example.id}
+              example={example}
+              onChangeType={handleChangeType}
+              onDelete={handleDelete}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
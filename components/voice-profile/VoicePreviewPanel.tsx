@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, Eye, Loader2, Wand2 } from 'lucide-react';
+import type { VoicePreview, VoiceProfileFormData } from '../../types';
+import { buildDraftN8nVoiceProfile } from '../../services/n8nService';
+import { analyzeSamples, MAX_REWRITE_CHARS } from '../../services/voiceAnalysisService';
+import { validateVoiceProfileFormData } from '../../services/voiceProfileMapper';
+import { rewriteParagraph } from '../../services/voicePreviewService';
+
+interface VoicePreviewPanelProps {
+  formData: VoiceProfileFormData;
+}
+
+// Shows the wizard's unsaved settings the way n8n will receive them, and
+// optionally rewrites a paragraph of the user's own with them
+export const VoicePreviewPanel: React.FC<VoicePreviewPanelProps> = ({ formData }) => {
+  // Sample analysis is the slow part, so it only reruns when the samples change
+  const analysis = useMemo(() => analyzeSamples(formData.samples || []), [formData.samples]);
+  const voiceProfile = useMemo(() => buildDraftN8nVoiceProfile(formData, analysis), [formData, analysis]);
+  const [showPayload, setShowPayload] = useState(false);
+  const [paragraph, setParagraph] = useState('');
+  const [rewrite, setRewrite] = useState<VoicePreview | null>(null);
+  // Prompt the current rewrite was made with, to flag it once settings move on
+  const [rewritePrompt, setRewritePrompt] = useState<string | null>(null);
+  const [isRewriting, setIsRewriting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isComplete = Object.keys(validateVoiceProfileFormData(formData)).length === 0;
+  const isStale = rewrite !== null && rewritePrompt !== voiceProfile.voice_prompt;
+
+  const handleRewrite = async () => {
+    const text = paragraph.trim();
+    if (!text) return;
+    setIsRewriting(true);
+    setError(null);
+    try {
+      const prompt = voiceProfile.voice_prompt;
+      setRewrite(await rewriteParagraph(formData, text));
+      setRewritePrompt(prompt);
+    } catch (err) {
+      console.error('Failed to rewrite paragraph:', err);
+      setError(err instanceof Error ? err.message : 'Failed to rewrite paragraph');
+    } finally {
+      setIsRewriting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <h3 className="flex items-center gap-2 text-sm font-bold text-slate-700">
+            <Eye size={16} />
+            Voice Prompt
+          </h3>
+          <button
+            type="button"
+            onClick={() => setShowPayload((prev) => !prev)}
+            className="text-xs font-medium text-indigo-600 hover:text-indigo-500"
+          >
+            {showPayload ? 'Show prompt' : 'Show payload'}
+          </button>
+        </div>
+        <p className="text-xs text-slate-400 mb-3">
+          {showPayload
+            ? 'The voice_profile block sent to the generation workflow.'
+            : 'Updates as you change settings. This is what the writer is told about your voice.'}
+        </p>
+        <pre className="p-4 rounded-xl bg-white border border-slate-100 text-xs text-slate-700 leading-relaxed whitespace-pre-wrap break-words max-h-[28rem] overflow-y-auto">
+          {showPayload ? JSON.stringify(voiceProfile, null, 2) : voiceProfile.voice_prompt}
+        </pre>
+      </div>
+
+      <div>
+        <h3 className="flex items-center gap-2 text-sm font-bold text-slate-700 mb-2">
+          <Wand2 size={16} />
+          Rewrite a Paragraph
+        </h3>
+        <textarea
+          value={paragraph}
+          onChange={(e) => setParagraph(e.target.value)}
+          maxLength={MAX_REWRITE_CHARS}
+          placeholder="Paste a paragraph to hear it in this voice..."
+          className="w-full p-3 rounded-xl bg-white border border-slate-200 focus:border-indigo-500 outline-none text-sm text-slate-700 min-h-[100px] resize-none"
+        />
+        <button
+          type="button"
+          onClick={handleRewrite}
+          disabled={!paragraph.trim() || !isComplete || isRewriting}
+          className="mt-2 flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-900 text-white text-sm font-medium hover:bg-slate-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRewriting ? <Loader2 size={16} className="animate-spin" /> : <Wand2 size={16} />}
+          {rewrite ? 'Rewrite again' : 'Rewrite'}
+        </button>
+        {!isComplete && (
+          <p className="mt-2 text-xs text-slate-400">Add a profile name and at least one tone to try a rewrite.</p>
+        )}
+
+        {error && (
+          <p className="mt-3 flex items-start gap-2 text-sm text-red-600">
+            <AlertCircle size={16} className="shrink-0 mt-0.5" />
+            {error}
+          </p>
+        )}
+
+        {rewrite && (
+          <div className="mt-4">
+            <blockquote
+              className={`border-l-4 pl-4 text-sm leading-relaxed whitespace-pre-wrap ${
+                isStale ? 'border-slate-200 text-slate-400' : 'border-indigo-200 text-slate-700'
+              }`}
+            >
+              {rewrite.paragraph}
+            </blockquote>
+            <p className="mt-2 text-xs text-slate-400">
+              {isStale
+                ? 'Settings changed since this rewrite.'
+                : rewrite.source === 'n8n'
+                ? 'Written by the rewrite workflow with these settings.'
+                : 'Template rewrite: only sentence style, formality and phrases are applied until a rewrite workflow is connected.'}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
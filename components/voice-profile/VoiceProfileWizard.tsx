@@ -10,6 +10,10 @@ import {
   Plus,
   X,
   Loader2,
+  ExternalLink,
+  Eye,
+  EyeOff,
+  AlertCircle,
 } from 'lucide-react';
 import type {
   VoiceProfileFormData,
@@ -20,8 +24,17 @@ import type {
   WritingSample,
 } from '../../types';
 import { TONE_OPTIONS } from '../../types';
+import { SampleAnalysisPanel } from './SampleAnalysisPanel';
+import { SampleImportPanel } from './SampleImportPanel';
+import { VoicePreviewPanel } from './VoicePreviewPanel';
+import {
+  describeVoiceProfileErrors,
+  pickFormFields,
+  validateVoiceProfileFormData,
+} from '../../services/voiceProfileMapper';
 
 interface VoiceProfileWizardProps {
+  mode?: 'create' | 'edit';
   initialData?: Partial<VoiceProfileFormData>;
   onSubmit: (data: VoiceProfileFormData) => Promise<void>;
   onCancel: () => void;
@@ -35,6 +48,9 @@ const STEPS = [
   { id: 4, title: 'Writing Samples', icon: FileText },
 ];
 
+// Imports can add hundreds of samples, so the list starts collapsed
+const COLLAPSED_SAMPLE_COUNT = 5;
+
 const DEFAULT_FORM_DATA: VoiceProfileFormData = {
   profile_name: '',
   newsletter_name: '',
@@ -55,6 +71,7 @@ const DEFAULT_FORM_DATA: VoiceProfileFormData = {
 };
 
 export const VoiceProfileWizard: React.FC<VoiceProfileWizardProps> = ({
+  mode = 'create',
   initialData,
   onSubmit,
   onCancel,
@@ -63,17 +80,34 @@ export const VoiceProfileWizard: React.FC<VoiceProfileWizardProps> = ({
   const [step, setStep] = useState(1);
   const [formData, setFormData] = useState<VoiceProfileFormData>({
     ...DEFAULT_FORM_DATA,
-    ...initialData,
+    // initialData may be a whole VoiceProfile in edit mode; keep only the form fields
+    ...(initialData ? pickFormFields(initialData) : {}),
   });
   const [newPhrase, setNewPhrase] = useState('');
   const [newAvoidPhrase, setNewAvoidPhrase] = useState('');
   const [newSample, setNewSample] = useState<WritingSample>({ text: '', source: 'newsletter' });
+  const [showAllSamples, setShowAllSamples] = useState(false);
+  const [showPreview, setShowPreview] = useState(true);
+  const [submitError, setSubmitError] = useState<string | null>(null);
 
   const handleNext = () => setStep((prev) => Math.min(prev + 1, STEPS.length));
   const handleBack = () => setStep((prev) => Math.max(prev - 1, 1));
 
+  // An edited profile saved before a validation rule existed can hold values
+  // the wizard's steps never produce, so say which fields need changing
   const handleSubmit = async () => {
-    await onSubmit(formData);
+    setSubmitError(null);
+    const errors = validateVoiceProfileFormData(formData);
+    if (Object.keys(errors).length > 0) {
+      setSubmitError(`Fix these fields before saving: ${describeVoiceProfileErrors(errors)}`);
+      return;
+    }
+
+    try {
+      await onSubmit(formData);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to save profile');
+    }
   };
 
   const updateFormData = <K extends keyof VoiceProfileFormData>(
@@ -119,6 +153,10 @@ export const VoiceProfileWizard: React.FC<VoiceProfileWizardProps> = ({
     setNewSample({ text: '', source: 'newsletter' });
   };
 
+  const importSamples = (samples: WritingSample[]) => {
+    setFormData((prev) => ({ ...prev, samples: [...prev.samples, ...samples] }));
+  };
+
   const removeSample = (index: number) => {
     updateFormData('samples', formData.samples.filter((_, i) => i !== index));
   };
@@ -372,6 +410,10 @@ export const VoiceProfileWizard: React.FC<VoiceProfileWizardProps> = ({
                 These samples teach the AI how you write, not what topics to cover.
               </p>
 
+              <div className="mb-6">
+                <SampleImportPanel existingSamples={formData.samples} onImport={importSamples} />
+              </div>
+
               <div className="space-y-4 mb-4">
                 <div>
                   <label className="text-xs font-medium text-slate-500 mb-1.5 block">Where is this sample from?</label>
@@ -422,19 +464,43 @@ export const VoiceProfileWizard: React.FC<VoiceProfileWizardProps> = ({
 
               {formData.samples.length > 0 && (
                 <div className="space-y-3">
-                  <h4 className="text-sm font-bold text-slate-700">
-                    Added Samples ({formData.samples.length})
-                  </h4>
-                  {formData.samples.map((sample, index) => (
+                  <div className="flex items-center justify-between gap-4">
+                    <h4 className="text-sm font-bold text-slate-700">
+                      Added Samples ({formData.samples.length})
+                    </h4>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        if (confirm(`Remove all ${formData.samples.length} samples?`)) updateFormData('samples', []);
+                      }}
+                      className="text-xs font-medium text-slate-400 hover:text-red-600 transition-colors"
+                    >
+                      Remove all
+                    </button>
+                  </div>
+                  {(showAllSamples ? formData.samples : formData.samples.slice(0, COLLAPSED_SAMPLE_COUNT)).map((sample, index) => (
                     <div
                       key={index}
                       className="p-4 rounded-xl bg-slate-50 border border-slate-100"
                     >
                       <div className="flex items-start justify-between gap-4">
                         <div className="flex-1 min-w-0">
-                          <span className="text-xs font-medium text-indigo-600 uppercase">
-                            {sample.source}
-                          </span>
+                          <div className="flex items-center gap-2 min-w-0">
+                            <span className="text-xs font-medium text-indigo-600 uppercase">
+                              {sample.source}
+                            </span>
+                            {sample.url && (
+                              <a
+                                href={sample.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center gap-1 text-xs text-slate-400 hover:text-indigo-600 truncate"
+                              >
+                                <ExternalLink size={12} className="shrink-0" />
+                                <span className="truncate">{sample.url}</span>
+                              </a>
+                            )}
+                          </div>
                           <p className="text-sm text-slate-600 mt-1 line-clamp-2">{sample.text}</p>
                         </div>
                         <button
@@ -446,9 +512,23 @@ export const VoiceProfileWizard: React.FC<VoiceProfileWizardProps> = ({
                       </div>
                     </div>
                   ))}
+                  {formData.samples.length > COLLAPSED_SAMPLE_COUNT && (
+                    <button
+                      type="button"
+                      onClick={() => setShowAllSamples(!showAllSamples)}
+                      className="text-sm font-medium text-indigo-600 hover:text-indigo-700"
+                    >
+                      {showAllSamples ? 'Show fewer' : `Show all ${formData.samples.length} samples`}
+                    </button>
+                  )}
                 </div>
               )}
             </div>
+
+            <SampleAnalysisPanel
+              formData={formData}
+              onApply={(suggestions) => setFormData((prev) => ({ ...prev, ...suggestions }))}
+            />
           </div>
         );
 
@@ -463,14 +543,23 @@ export const VoiceProfileWizard: React.FC<VoiceProfileWizardProps> = ({
       <div className="p-6 border-b border-slate-100 bg-slate-50">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-xl font-bold text-slate-900">
-            {initialData ? 'Edit Voice Profile' : 'Create Voice Profile'}
+            {mode === 'edit' ? 'Edit Voice Profile' : 'Create Voice Profile'}
           </h2>
-          <button
-            onClick={onCancel}
-            className="text-slate-400 hover:text-slate-600 transition-colors"
-          >
-            <X size={24} />
-          </button>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowPreview((prev) => !prev)}
+              className="flex items-center gap-2 text-sm font-medium text-slate-500 hover:text-indigo-600 transition-colors"
+            >
+              {showPreview ? <EyeOff size={18} /> : <Eye size={18} />}
+              <span className="hidden sm:inline">{showPreview ? 'Hide preview' : 'Show preview'}</span>
+            </button>
+            <button
+              onClick={onCancel}
+              className="text-slate-400 hover:text-slate-600 transition-colors"
+            >
+              <X size={24} />
+            </button>
+          </div>
         </div>
 
         {/* Step Indicators */}
@@ -500,7 +589,21 @@ export const VoiceProfileWizard: React.FC<VoiceProfileWizardProps> = ({
       </div>
 
       {/* Form Content */}
-      <div className="p-6 md:p-10">{renderStep()}</div>
+      <div className={showPreview ? 'lg:grid lg:grid-cols-[minmax(0,1fr)_22rem]' : ''}>
+        <div className="p-6 md:p-10">{renderStep()}</div>
+        {showPreview && (
+          <aside className="p-6 bg-slate-50 border-t lg:border-t-0 lg:border-l border-slate-100">
+            <VoicePreviewPanel formData={formData} />
+          </aside>
+        )}
+      </div>
+
+      {submitError && (
+        <div className="mx-6 mb-2 flex items-start gap-3 p-4 bg-red-50 text-red-600 rounded-xl border border-red-100">
+          <AlertCircle size={20} className="shrink-0 mt-0.5" />
+          <p className="text-sm">{submitError}</p>
+        </div>
+      )}
 
       {/* Navigation Footer */}
       <div className="p-6 border-t border-slate-100 flex items-center justify-between">
@@ -541,12 +644,12 @@ export const VoiceProfileWizard: React.FC<VoiceProfileWizardProps> = ({
             {isSubmitting ? (
               <>
                 <Loader2 size={18} className="animate-spin" />
-                Creating...
+                {mode === 'edit' ? 'Saving...' : 'Creating...'}
               </>
             ) : (
               <>
                 <CheckCircle2 size={18} />
-                Create Profile
+                {mode === 'edit' ? 'Save Changes' : 'Create Profile'}
               </>
             )}
           </button>
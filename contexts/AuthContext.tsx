@@ -22,6 +22,7 @@ const DEMO_USER: User = {
   id: 'demo-user-123',
   email: 'demo@voiceclone.app',
   full_name: 'Demo User',
+  require_approved_profiles: false,
   created_at: new Date().toISOString(),
   updated_at: new Date().toISOString(),
 };
@@ -116,6 +117,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                   id: session.user.id,
                   email: session.user.email || '',
                   full_name: session.user.user_metadata?.full_name || session.user.email?.split('@')[0] || 'User',
+                  require_approved_profiles: false,
                   created_at: new Date().toISOString(),
                   updated_at: new Date().toISOString(),
                 };
@@ -153,6 +155,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                 id: session.user.id,
                 email: session.user.email || '',
                 full_name: session.user.user_metadata?.full_name || session.user.email?.split('@')[0] || 'User',
+                require_approved_profiles: false,
                 created_at: new Date().toISOString(),
                 updated_at: new Date().toISOString(),
               };
@@ -260,6 +263,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             id: data.session.user.id,
             email: email,
             full_name: data.session.user.user_metadata?.full_name || email.split('@')[0],
+            require_approved_profiles: false,
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
           };
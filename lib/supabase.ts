@@ -14,12 +14,49 @@ export const supabase = createClient(
   supabaseAnonKey || 'placeholder-key'
 );
 
+// Read the access token straight from the session Supabase keeps in
+// localStorage, avoiding a round trip through the client
+export function getAccessTokenFromStorage(): string | null {
+  if (!supabaseUrl) return null;
+
+  const storageKey = `sb-${new URL(supabaseUrl).hostname.split('.')[0]}-auth-token`;
+  const storedSession = localStorage.getItem(storageKey);
+
+  if (storedSession) {
+    try {
+      const parsed = JSON.parse(storedSession);
+      return parsed.access_token || null;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+// Get the current access token, falling back to the Supabase client
+export async function getAccessToken(): Promise<string> {
+  const storedToken = getAccessTokenFromStorage();
+  if (storedToken) {
+    return storedToken;
+  }
+
+  const { data: sessionData } = await supabase.auth.getSession();
+  if (sessionData.session?.access_token) {
+    return sessionData.session.access_token;
+  }
+
+  throw new Error('No valid session - please sign in again');
+}
+
 // Database table names
 export const TABLES = {
   USERS: 'users',
   VOICE_PROFILES: 'voice_profiles',
+  VOICE_PROFILE_VERSIONS: 'voice_profile_versions',
   GENERATIONS: 'generations',
   NEWSLETTERS: 'newsletters',
+  NEWSLETTER_VERSIONS: 'newsletter_versions',
   SUBSCRIPTIONS: 'subscriptions',
   VOICE_EXAMPLES: 'voice_examples',
+  EMAIL_TEMPLATES: 'email_templates',
 } as const;
@@ -0,0 +1,31 @@
+// Replays a recorded Stripe event fixture against the local webhook route,
+// signed with STRIPE_WEBHOOK_SECRET exactly as Stripe would sign it.
+//
+//   STRIPE_WEBHOOK_SECRET=whsec_test node scripts/replay-stripe-event.mjs \
+//     stripe/fixtures/customer.subscription.created.json [http://localhost:3000/api/stripe-webhook]
+import { readFile } from 'node:fs/promises';
+import Stripe from 'stripe';
+
+const [fixturePath, targetUrl = 'http://localhost:3000/api/stripe-webhook'] = process.argv.slice(2);
+const secret = process.env.STRIPE_WEBHOOK_SECRET;
+
+if (!fixturePath || !secret) {
+  console.error('Usage: STRIPE_WEBHOOK_SECRET=whsec_... node scripts/replay-stripe-event.mjs <fixture.json> [url]');
+  process.exit(1);
+}
+
+const payload = await readFile(fixturePath, 'utf8');
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || 'sk_test_replay');
+const signature = stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+const response = await fetch(targetUrl, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'Stripe-Signature': signature,
+  },
+  body: payload,
+});
+
+console.log(response.status, await response.text());
+process.exit(response.ok ? 0 : 1);
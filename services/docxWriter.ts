@@ -0,0 +1,136 @@
+import type { ExportDocument, InlineSpan, MarkdownBlock } from './markdownBlocks';
+import { createZip } from './zipWriter';
+
+// Builds a Word document (Office Open XML) from an export document: the
+// package parts Word needs, a small style sheet and one paragraph per line of
+// content. Lists are written as indented text so no numbering part is needed.
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+function run(text: string, props: string[] = []): string {
+  const rPr = props.length > 0 ? `<w:rPr>${props.join('')}</w:rPr>` : '';
+  return `<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function spanRuns(spans: InlineSpan[]): string {
+  return spans
+    .map((span) => {
+      const props: string[] = [];
+      if (span.bold) props.push('<w:b/>');
+      if (span.italic) props.push('<w:i/>');
+      if (span.code) props.push('<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/>');
+      if (span.href) props.push('<w:color w:val="4F46E5"/>', '<w:u w:val="single"/>');
+      const text = span.href && span.href !== span.text ? `${span.text} (${span.href})` : span.text;
+      return run(text, props);
+    })
+    .join('');
+}
+
+function paragraph(content: string, pPr = ''): string {
+  return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${content}</w:p>`;
+}
+
+function blockXml(block: MarkdownBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return paragraph(spanRuns(block.spans), `<w:pStyle w:val="Heading${Math.min(block.level, 3)}"/>`);
+    case 'paragraph':
+      return paragraph(spanRuns(block.spans));
+    case 'quote':
+      return paragraph(spanRuns(block.spans), '<w:pStyle w:val="Quote"/>');
+    case 'list':
+      return block.items
+        .map((item, index) =>
+          paragraph(
+            `<w:r><w:t>${block.ordered ? `${block.start + index}.` : '•'}</w:t><w:tab/></w:r>${spanRuns(item)}`,
+            '<w:spacing w:after="60"/><w:ind w:left="720" w:hanging="360"/>'
+          )
+        )
+        .join('');
+    case 'code':
+      return block.text
+        .split('\n')
+        .map((line) => paragraph(run(line), '<w:pStyle w:val="Code"/>'))
+        .join('');
+    case 'rule':
+      return paragraph('', '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="CBD5E1"/></w:pBdr>');
+  }
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+function headingStyle(id: string, name: string, size: number): string {
+  return `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/></w:pPr><w:rPr><w:b/><w:color w:val="0F172A"/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+}
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+${headingStyle('Heading1', 'heading 1', 36)}
+${headingStyle('Heading2', 'heading 2', 30)}
+${headingStyle('Heading3', 'heading 3', 26)}
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:left="720"/></w:pPr><w:rPr><w:i/><w:color w:val="475569"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/></w:pPr><w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/><w:sz w:val="20"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Meta"><w:name w:val="Meta"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="40"/></w:pPr><w:rPr><w:color w:val="64748B"/><w:sz w:val="20"/></w:rPr></w:style>
+</w:styles>`;
+
+function coreProperties(document: ExportDocument): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:title>${escapeXml(document.title)}</dc:title>
+<dc:subject>${escapeXml(document.subject_line)}</dc:subject>
+<dc:description>${escapeXml(document.preview_text)}</dc:description>
+</cp:coreProperties>`;
+}
+
+export function buildDocx(document: ExportDocument): Uint8Array {
+  const body = [
+    paragraph(run('Subject line: ', ['<w:b/>']) + run(document.subject_line), '<w:pStyle w:val="Meta"/>'),
+    paragraph(run('Preview text: ', ['<w:b/>']) + run(document.preview_text), '<w:pStyle w:val="Meta"/>'),
+    blockXml({ type: 'rule' }),
+    ...document.blocks.map(blockXml),
+  ].join('');
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:body>${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES },
+    { name: '_rels/.rels', data: ROOT_RELS },
+    { name: 'docProps/core.xml', data: coreProperties(document) },
+    { name: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS },
+    { name: 'word/styles.xml', data: STYLES },
+    { name: 'word/document.xml', data: documentXml },
+  ]);
+}
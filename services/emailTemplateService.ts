@@ -0,0 +1,190 @@
+import { supabase, TABLES } from '../lib/supabase';
+import type { EmailTemplate, EmailTemplateInput, SponsorSlotPosition } from '../types';
+import { DEFAULT_EMAIL_BRAND, isSafeUnsubscribeUrl } from './newsletterExportService';
+
+// Check if we're in demo mode (no Supabase configured)
+const isDemoMode = !import.meta.env.VITE_SUPABASE_URL ||
+                   import.meta.env.VITE_SUPABASE_URL === 'https://placeholder.supabase.co';
+
+// In-memory storage for demo mode
+let demoTemplates: EmailTemplate[] = [];
+
+// Generate a simple UUID for demo mode
+function generateId(): string {
+  return 'demo-' + Math.random().toString(36).substring(2, 15);
+}
+
+export const SPONSOR_SLOT_POSITIONS: { position: SponsorSlotPosition; label: string }[] = [
+  { position: 'top', label: 'Top of the article' },
+  { position: 'middle', label: 'Middle of the article' },
+  { position: 'bottom', label: 'End of the article' },
+];
+
+// Starting point for a new brand: header with the newsletter name, preheader
+// line, the article and a footer with the unsubscribe link
+export const STARTER_EMAIL_TEMPLATE: EmailTemplateInput = {
+  ...DEFAULT_EMAIL_BRAND,
+  name: '',
+  newsletter_name: null,
+  profile_id: null,
+  layout_html: `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
+<tr><td style="padding:0 0 16px;border-bottom:3px solid {{accent_color}};font-size:20px;font-weight:700;">{{newsletter_name}}</td></tr>
+</table>
+<p style="margin:16px 0 24px;font-size:13px;opacity:0.7;">{{preheader}}</p>
+{{body}}
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
+<tr><td style="padding:24px 0 0;border-top:1px solid #e2e8f0;font-size:12px;text-align:center;opacity:0.7;">
+You're receiving {{newsletter_name}} because you subscribed.<br>
+<a href="{{unsubscribe_url}}" style="color:inherit;">Unsubscribe</a>
+</td></tr>
+</table>`,
+};
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+// Mirrors the email_templates table constraints
+export function validateEmailTemplate(input: EmailTemplateInput): string | null {
+  if (!input.name.trim()) {
+    return 'Template name is required';
+  }
+  if (!input.layout_html.includes('{{body}}')) {
+    return 'The layout must contain {{body}} where the article goes';
+  }
+  for (const color of [input.accent_color, input.background_color, input.text_color]) {
+    if (!HEX_COLOR.test(color)) {
+      return `"${color}" is not a hex color like #4f46e5`;
+    }
+  }
+  if (new Set(input.sponsor_slots.map((slot) => slot.position)).size !== input.sponsor_slots.length) {
+    return 'Only one sponsor slot per position';
+  }
+  if (!isSafeUnsubscribeUrl(input.unsubscribe_url.trim())) {
+    return 'The unsubscribe link must be an http, https or mailto URL, or a merge tag like *|UNSUB|*';
+  }
+  return null;
+}
+
+function toTemplateRow(input: EmailTemplateInput): EmailTemplateInput {
+  return {
+    ...input,
+    name: input.name.trim(),
+    newsletter_name: input.newsletter_name?.trim() || null,
+    profile_id: input.profile_id || null,
+    sponsor_slots: input.sponsor_slots.filter((slot) => slot.html.trim()),
+    unsubscribe_url: input.unsubscribe_url.trim(),
+  };
+}
+
+// The brand for a newsletter: a template for its newsletter name, else one for
+// its voice profile. Templates come newest first, so the latest edit wins a tie.
+export function findEmailTemplate(
+  templates: EmailTemplate[],
+  newsletterName: string | null | undefined,
+  profileId: string | null | undefined
+): EmailTemplate | null {
+  const name = newsletterName?.trim().toLowerCase();
+  return (
+    (name && templates.find((t) => t.newsletter_name?.trim().toLowerCase() === name)) ||
+    (profileId && templates.find((t) => t.profile_id === profileId)) ||
+    null
+  );
+}
+
+export async function getEmailTemplates(userId: string): Promise<EmailTemplate[]> {
+  if (isDemoMode) {
+    return demoTemplates.filter(t => t.user_id === userId);
+  }
+
+  const { data, error } = await supabase
+    .from(TABLES.EMAIL_TEMPLATES)
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching email templates:', error);
+    throw error;
+  }
+
+  return (data as EmailTemplate[]) || [];
+}
+
+export async function createEmailTemplate(userId: string, input: EmailTemplateInput): Promise<EmailTemplate> {
+  const validationError = validateEmailTemplate(input);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  if (isDemoMode) {
+    const now = new Date().toISOString();
+    const template: EmailTemplate = {
+      id: generateId(),
+      user_id: userId,
+      ...toTemplateRow(input),
+      created_at: now,
+      updated_at: now,
+    };
+    demoTemplates = [template, ...demoTemplates];
+    return template;
+  }
+
+  const { data, error } = await supabase
+    .from(TABLES.EMAIL_TEMPLATES)
+    .insert({ user_id: userId, ...toTemplateRow(input) })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating email template:', error);
+    throw error;
+  }
+
+  return data as EmailTemplate;
+}
+
+export async function updateEmailTemplate(templateId: string, input: EmailTemplateInput): Promise<EmailTemplate> {
+  const validationError = validateEmailTemplate(input);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  if (isDemoMode) {
+    const index = demoTemplates.findIndex(t => t.id === templateId);
+    if (index === -1) throw new Error('Template not found');
+
+    const updated = { ...demoTemplates[index], ...toTemplateRow(input), updated_at: new Date().toISOString() };
+    demoTemplates = [updated, ...demoTemplates.filter(t => t.id !== templateId)];
+    return updated;
+  }
+
+  const { data, error } = await supabase
+    .from(TABLES.EMAIL_TEMPLATES)
+    .update(toTemplateRow(input))
+    .eq('id', templateId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating email template:', error);
+    throw error;
+  }
+
+  return data as EmailTemplate;
+}
+
+export async function deleteEmailTemplate(templateId: string): Promise<void> {
+  if (isDemoMode) {
+    demoTemplates = demoTemplates.filter(t => t.id !== templateId);
+    return;
+  }
+
+  const { error } = await supabase
+    .from(TABLES.EMAIL_TEMPLATES)
+    .delete()
+    .eq('id', templateId);
+
+  if (error) {
+    console.error('Error deleting email template:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,10 @@
-import { supabase, TABLES } from '../lib/supabase';
-import { triggerNewsletterGeneration } from './n8nService';
-import { getVoiceProfile } from './voiceProfileService';
+import { supabase, TABLES, getAccessTokenFromStorage, getAccessToken } from '../lib/supabase';
+import { getContentSourceValue } from './n8nService';
+import { claimDemoGeneration } from './subscriptionService';
+import { saveDemoNewsletters } from './newsletterService';
+import { getDemoLatestVersion } from './voiceProfileService';
 import type {
+  ApiError,
   Generation,
   GenerationRequest,
   GenerationStatus,
@@ -31,6 +34,11 @@ function createDemoNewsletters(contentSource: string): NewsletterArticle[] {
       title: "The Hidden Strategy Behind Viral Content",
       subject_line: "Why your content isn't going viral (and how to fix it)",
       preview_text: "Most creators miss this one crucial element...",
+      subject_variants: [
+        { subject_line: "Why your content isn't going viral (and how to fix it)", preview_text: "Most creators miss this one crucial element..." },
+        { subject_line: "Your content isn't the problem. Your hook is.", preview_text: "What hundreds of viral posts have in common, and how to use it this week" },
+        { subject_line: "The 3-second rule of viral posts", preview_text: "Hook, value, call to action: the framework behind every post that spreads" },
+      ],
       content: "Here's what most content creators get wrong about viral content...",
       markdown_content: "# The Hidden Strategy Behind Viral Content\n\nHere's what most content creators get wrong...\n\n## The Pattern Recognition Problem\n\nWhen analyzing hundreds of viral posts, one thing becomes clear: it's not about luck.\n\n## The Framework\n\n1. Hook within 3 seconds\n2. Deliver value immediately\n3. End with a call to action\n\n---\n\n*This is a demo newsletter generated for testing purposes.*",
       word_count: 450,
@@ -44,6 +52,11 @@ function createDemoNewsletters(contentSource: string): NewsletterArticle[] {
       title: "The Compound Effect of Daily Publishing",
       subject_line: "One simple habit that 10x'd my audience",
       preview_text: "It's not about writing more, it's about writing consistently",
+      subject_variants: [
+        { subject_line: "One simple habit that 10x'd my audience", preview_text: "It's not about writing more, it's about writing consistently" },
+        { subject_line: "Daily beats perfect", preview_text: "Why daily publishers grow 3x faster, and how quality catches up over time" },
+        { subject_line: "What happened when I published every day for a year", preview_text: "The compound effect nobody warned me about" },
+      ],
       content: "Let me share a story about consistency and daily publishing...",
       markdown_content: "# The Compound Effect of Daily Publishing\n\nLet me share a story about consistency...\n\n## Why Most Creators Fail\n\nThey optimize for perfection over consistency.\n\n## The Data\n\n- Daily publishers grow 3x faster\n- Consistency beats quality in the short term\n- Quality catches up over time\n\n---\n\n*This is a demo newsletter generated for testing purposes.*",
       word_count: 380,
@@ -57,6 +70,11 @@ function createDemoNewsletters(contentSource: string): NewsletterArticle[] {
       title: "Why Your Newsletter Isn't Growing",
       subject_line: "The growth plateau nobody talks about",
       preview_text: "And the counterintuitive solution that works",
+      subject_variants: [
+        { subject_line: "The growth plateau nobody talks about", preview_text: "And the counterintuitive solution that works" },
+        { subject_line: "Stuck at 1,000 subscribers?", preview_text: "Three ways to break through the plateau every newsletter hits" },
+        { subject_line: "Why your newsletter stopped growing", preview_text: "Retention, collaboration and doubling down on what already works" },
+      ],
       content: "You've hit the wall. Here's why your newsletter isn't growing...",
       markdown_content: "# Why Your Newsletter Isn't Growing\n\nYou've hit the wall. Here's why...\n\n## The Plateau Problem\n\nEvery creator hits this point around 1,000 subscribers.\n\n## Breaking Through\n\n1. Collaborate with others at your level\n2. Focus on retention, not just acquisition\n3. Double down on what's working\n\n---\n\n*This is a demo newsletter generated for testing purposes.*",
       word_count: 520,
@@ -70,6 +88,11 @@ function createDemoNewsletters(contentSource: string): NewsletterArticle[] {
       title: "The Email Subject Line Formula",
       subject_line: "Steal this subject line template",
       preview_text: "47% open rates using this simple framework",
+      subject_variants: [
+        { subject_line: "Steal this subject line template", preview_text: "47% open rates using this simple framework" },
+        { subject_line: "The subject line formula behind 47% open rates", preview_text: "Copy it, tweak it, send it" },
+        { subject_line: "Your open rate is a subject line problem", preview_text: "A simple template to fix it" },
+      ],
       content: "Subject lines make or break your newsletter...",
       markdown_content: "# The Email Subject Line Formula\n\nSubject lines make or break your newsletter...\n\n## The Formula\n\n[Number] + [Benefit] + [Curiosity Gap]\n\n## Examples That Work\n\n- \"5 ways to double your open rates\"\n- \"The mistake killing your engagement\"\n- \"Why top creators use this trick\"\n\n---\n\n*This is a demo newsletter generated for testing purposes.*",
       word_count: 410,
@@ -83,6 +106,11 @@ function createDemoNewsletters(contentSource: string): NewsletterArticle[] {
       title: "Monetization Myths Debunked",
       subject_line: "Stop leaving money on the table",
       preview_text: "The truth about newsletter monetization",
+      subject_variants: [
+        { subject_line: "Stop leaving money on the table", preview_text: "The truth about newsletter monetization" },
+        { subject_line: "How newsletters actually make money", preview_text: "Sponsors, paid tiers and products, ranked by what works at each size" },
+        { subject_line: "You can monetize sooner than you think", preview_text: "The truth about newsletter monetization" },
+      ],
       content: "Let's talk about money and newsletter monetization...",
       markdown_content: "# Monetization Myths Debunked\n\nLet's talk about money...\n\n## Myth #1: You Need 10k Subscribers\n\nFalse. Quality beats quantity.\n\n## Myth #2: Ads Are the Only Way\n\nSponsored content, courses, consulting, paid tiers...\n\n## The Reality\n\nStart monetizing at 500 engaged subscribers.\n\n---\n\n*This is a demo newsletter generated for testing purposes.*",
       word_count: 490,
@@ -94,25 +122,6 @@ function createDemoNewsletters(contentSource: string): NewsletterArticle[] {
   ];
 }
 
-// Helper to get access token from localStorage
-function getAccessTokenFromStorage(): string | null {
-  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-  if (!supabaseUrl) return null;
-
-  const storageKey = `sb-${new URL(supabaseUrl).hostname.split('.')[0]}-auth-token`;
-  const storedSession = localStorage.getItem(storageKey);
-
-  if (storedSession) {
-    try {
-      const parsed = JSON.parse(storedSession);
-      return parsed.access_token || null;
-    } catch {
-      return null;
-    }
-  }
-  return null;
-}
-
 export async function getGenerations(userId: string, limit = 20): Promise<Generation[]> {
   if (isDemoMode) {
     return demoGenerations
@@ -204,10 +213,13 @@ export async function createGeneration(
 
   if (isDemoMode) {
     console.log('createGeneration: Running in demo mode');
+    const profileVersion = getDemoLatestVersion(request.profile_id);
     const generation: Generation = {
       id: generateId(),
       user_id: userId,
       profile_id: request.profile_id,
+      profile_version_id: profileVersion?.id || null,
+      profile_version: profileVersion?.version_number || null,
       content_type: request.content_source as ContentSource,
       content_source: getContentSourceValue(request),
       input_data: request,
@@ -239,31 +251,7 @@ export async function createGeneration(
   }
 
   try {
-    // Get the access token directly from localStorage to avoid Supabase client issues
-    console.log('createGeneration: Getting token from localStorage...');
-    const storageKey = `sb-${new URL(supabaseUrl).hostname.split('.')[0]}-auth-token`;
-    const storedSession = localStorage.getItem(storageKey);
-    let accessToken: string | null = null;
-
-    if (storedSession) {
-      try {
-        const parsed = JSON.parse(storedSession);
-        accessToken = parsed.access_token;
-        console.log('createGeneration: Found token in localStorage');
-      } catch {
-        console.error('createGeneration: Failed to parse stored session');
-      }
-    }
-
-    if (!accessToken) {
-      console.log('createGeneration: Falling back to supabase.auth.getSession()...');
-      const { data: sessionData } = await supabase.auth.getSession();
-      accessToken = sessionData.session?.access_token || null;
-    }
-
-    if (!accessToken) {
-      throw new Error('No valid session - please sign in again');
-    }
+    const accessToken = await getAccessToken();
 
     console.log('createGeneration: Got access token, making request...');
 
@@ -315,13 +303,10 @@ export async function startGeneration(
 ): Promise<{ generation: Generation; executionId: string }> {
   console.log('startGeneration: Starting...', { userId, profileId: request.profile_id });
 
-  // Create the generation record
-  console.log('startGeneration: Creating generation record...');
-  const generation = await createGeneration(userId, request);
-  console.log('startGeneration: Generation record created:', generation.id);
-
   if (isDemoMode) {
     // In demo mode, simulate the generation process
+    claimDemoGeneration(userId);
+    const generation = await createGeneration(userId, request);
     const executionId = 'demo-exec-' + Date.now();
 
     // Update to processing
@@ -351,6 +336,7 @@ export async function startGeneration(
           word_count_total: wordCount,
           completed_at: new Date().toISOString(),
         };
+        saveDemoNewsletters(demoGenerations[idx]);
       }
     }, 3000);
 
@@ -360,156 +346,33 @@ export async function startGeneration(
     };
   }
 
-  // Helper to get token from localStorage
-  const getAccessToken = async (): Promise<string> => {
-    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-    const storageKey = `sb-${new URL(supabaseUrl).hostname.split('.')[0]}-auth-token`;
-    const storedSession = localStorage.getItem(storageKey);
-
-    if (storedSession) {
-      try {
-        const parsed = JSON.parse(storedSession);
-        if (parsed.access_token) {
-          return parsed.access_token;
-        }
-      } catch {
-        console.error('Failed to parse stored session');
-      }
-    }
-
-    // Fallback to supabase client (may hang but at least try)
-    const { data: sessionData } = await supabase.auth.getSession();
-    if (sessionData.session?.access_token) {
-      return sessionData.session.access_token;
-    }
-
-    throw new Error('No valid session - please sign in again');
-  };
-
-  // Helper to make direct Supabase REST API calls
-  const directSupabaseUpdate = async (table: string, id: string, updates: Record<string, unknown>): Promise<unknown[]> => {
-    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-    const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-    const accessToken = await getAccessToken();
+  // The /api/generate route validates the request, creates the generation
+  // record, loads the voice profile and triggers n8n server-side.
+  const accessToken = await getAccessToken();
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000);
+  const response = await fetch('/api/generate', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify(request),
+  });
 
-    const response = await fetch(
-      `${supabaseUrl}/rest/v1/${table}?id=eq.${id}&select=*`,
-      {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          'apikey': supabaseKey,
-          'Authorization': `Bearer ${accessToken}`,
-          'Prefer': 'return=representation',
-        },
-        body: JSON.stringify(updates),
-        signal: controller.signal,
-      }
-    );
+  const data = await response.json().catch(() => ({}));
 
-    clearTimeout(timeoutId);
+  if (!response.ok) {
+    const error = data as Partial<ApiError>;
+    console.error('startGeneration: Error response:', error);
+    throw new Error(error.error || `Generation failed: ${response.status}`);
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Supabase update failed: ${response.status} - ${errorText}`);
-    }
+  console.log('startGeneration: Generation started:', data.generation?.id);
 
-    return response.json();
+  return {
+    generation: data.generation as Generation,
+    executionId: data.execution_id as string,
   };
-
-  try {
-    // Fetch the voice profile data
-    console.log('Fetching voice profile:', request.profile_id);
-    const voiceProfile = await getVoiceProfile(request.profile_id);
-    console.log('Voice profile fetched:', voiceProfile ? 'found' : 'not found');
-
-    if (!voiceProfile) {
-      throw new Error('Voice profile not found');
-    }
-
-    console.log('Triggering n8n workflow...');
-    // Trigger the n8n workflow with voice profile data
-    const response = await triggerNewsletterGeneration({
-      userId,
-      profileId: request.profile_id,
-      generationId: generation.id,
-      request,
-      voiceProfile,
-    });
-
-    console.log('n8n response received:', response);
-
-    // Check if the response indicates success and contains newsletters
-    const isCompleted = response.success && response.status === 'completed' && response.newsletters?.length > 0;
-
-    // Update generation with results using direct fetch
-    console.log('Updating generation record...');
-    const updatedData = await directSupabaseUpdate(TABLES.GENERATIONS, generation.id, {
-      status: isCompleted ? 'completed' : 'processing',
-      n8n_execution_id: response.execution_id,
-      started_at: new Date().toISOString(),
-      completed_at: isCompleted ? new Date().toISOString() : null,
-      newsletters: isCompleted ? response.newsletters : null,
-      word_count_total: isCompleted ? response.total_words : null,
-    });
-
-    console.log('Generation updated successfully');
-
-    // Update voice profile last_used_at and increment total_generations
-    console.log('Updating voice profile...');
-    await directSupabaseUpdate(TABLES.VOICE_PROFILES, request.profile_id, {
-      last_used_at: new Date().toISOString(),
-      total_generations: voiceProfile.total_generations + 1,
-    });
-    console.log('Voice profile updated');
-
-    return {
-      generation: (updatedData as Generation[])[0],
-      executionId: response.execution_id,
-    };
-  } catch (error) {
-    console.error('startGeneration error:', error);
-    // Mark generation as failed if n8n trigger fails - use direct fetch
-    try {
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-      const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-      const storageKey = `sb-${new URL(supabaseUrl).hostname.split('.')[0]}-auth-token`;
-      const storedSession = localStorage.getItem(storageKey);
-      let accessToken: string | null = null;
-
-      if (storedSession) {
-        try {
-          const parsed = JSON.parse(storedSession);
-          accessToken = parsed.access_token;
-        } catch {}
-      }
-
-      if (accessToken) {
-        await fetch(
-          `${supabaseUrl}/rest/v1/${TABLES.GENERATIONS}?id=eq.${generation.id}`,
-          {
-            method: 'PATCH',
-            headers: {
-              'Content-Type': 'application/json',
-              'apikey': supabaseKey,
-              'Authorization': `Bearer ${accessToken}`,
-            },
-            body: JSON.stringify({
-              status: 'failed',
-              error_message: error instanceof Error ? error.message : 'Unknown error',
-            }),
-          }
-        );
-      }
-    } catch (updateErr) {
-      console.error('Failed to mark generation as failed:', updateErr);
-    }
-
-    throw error;
-  }
 }
 
 export async function updateGenerationStatus(
@@ -580,6 +443,7 @@ export async function completeGeneration(
       word_count_total: wordCountTotal,
       completed_at: new Date().toISOString(),
     };
+    saveDemoNewsletters(demoGenerations[index]);
     return demoGenerations[index];
   }
 
@@ -649,41 +513,30 @@ export async function pollGenerationStatus(
   });
 }
 
-// Delete a generation via API (uses service role key to bypass RLS)
-export async function deleteGeneration(generationId: string, userId: string): Promise<void> {
+// Delete a generation via API. The server derives the user from the access
+// token and verifies ownership before deleting with the service role key.
+export async function deleteGeneration(generationId: string): Promise<void> {
   if (isDemoMode) {
     demoGenerations = demoGenerations.filter(g => g.id !== generationId);
     return;
   }
 
+  const accessToken = await getAccessToken();
+
   const response = await fetch('/api/delete-generation', {
     method: 'DELETE',
     headers: {
       'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
     },
     body: JSON.stringify({
       generation_id: generationId,
-      user_id: userId,
     }),
   });
 
   if (!response.ok) {
-    const error = await response.json();
+    const error: Partial<ApiError> = await response.json().catch(() => ({}));
     console.error('Error deleting generation:', error);
-    throw new Error(error.message || 'Failed to delete generation');
-  }
-}
-
-// Helper function to extract content source value for display
-function getContentSourceValue(request: GenerationRequest): string {
-  switch (request.content_source) {
-    case 'Twitter':
-      return request.twitter_username || '';
-    case 'YouTube':
-      return request.youtube_url || '';
-    case 'Article':
-      return 'article';
-    default:
-      return '';
+    throw new Error(error.error || 'Failed to delete generation');
   }
 }
@@ -0,0 +1,172 @@
+// Small markdown reader for exports. It covers what generated newsletters use
+// (headings, paragraphs, lists, quotes, code, rules, emphasis and links) and
+// gives every export format the same block structure to render.
+
+export interface InlineSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; spans: InlineSpan[] }
+  | { type: 'paragraph'; spans: InlineSpan[] }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineSpan[][] }
+  | { type: 'quote'; spans: InlineSpan[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+type InlineStyle = Omit<InlineSpan, 'text'>;
+
+const INLINE_PATTERN =
+  /(`+)([\s\S]*?)\1|\*\*([\s\S]+?)\*\*|__([\s\S]+?)__|\*([^*\s][^*]*?)\*|\b_([^_\s][^_]*?)_\b|(!?)\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+
+function unescape(text: string): string {
+  return text.replace(/\\([\\`*_{}[\]()#+\-.!>])/g, '$1');
+}
+
+export function parseInline(text: string, style: InlineStyle = {}): InlineSpan[] {
+  const spans: InlineSpan[] = [];
+  const pushText = (value: string, extra: InlineStyle = {}) => {
+    if (value) spans.push({ ...style, ...extra, text: unescape(value) });
+  };
+
+  const pattern = new RegExp(INLINE_PATTERN.source, 'g');
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    pushText(text.slice(last, match.index));
+    last = match.index + match[0].length;
+
+    const [, ticks, code, bold, boldAlt, italic, italicAlt, bang, label, href] = match;
+    if (ticks) {
+      spans.push({ ...style, code: true, text: code.trim() });
+    } else if (bold !== undefined || boldAlt !== undefined) {
+      spans.push(...parseInline(bold ?? boldAlt, { ...style, bold: true }));
+    } else if (italic !== undefined || italicAlt !== undefined) {
+      spans.push(...parseInline(italic ?? italicAlt, { ...style, italic: true }));
+    } else if (bang) {
+      // Images can't travel with a text export; keep their description
+      pushText(label);
+    } else {
+      spans.push(...parseInline(label || href, { ...style, href }));
+    }
+  }
+  pushText(text.slice(last));
+
+  return spans;
+}
+
+export function spansToText(spans: InlineSpan[]): string {
+  return spans.map((span) => span.text).join('');
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const ORDERED = /^\s*(\d+)[.)]\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const FENCE = /^\s{0,3}(```|~~~)/;
+
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+  let list: { ordered: boolean; start: number; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', spans: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+    if (quote.length > 0) {
+      blocks.push({ type: 'quote', spans: parseInline(quote.join(' ')) });
+      quote = [];
+    }
+    if (list) {
+      blocks.push({
+        type: 'list',
+        ordered: list.ordered,
+        start: list.start,
+        items: list.items.map((item) => parseInline(item)),
+      });
+      list = null;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, spans: parseInline(heading[2]) });
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flush();
+      blocks.push({ type: 'rule' });
+      continue;
+    }
+
+    const bullet = line.match(BULLET);
+    const ordered = line.match(ORDERED);
+    if (bullet || ordered) {
+      const isOrdered = !bullet;
+      if (!list || list.ordered !== isOrdered) {
+        flush();
+        list = { ordered: isOrdered, start: ordered ? Number(ordered[1]) : 1, items: [] };
+      }
+      list.items.push(bullet ? bullet[1] : ordered![2]);
+      continue;
+    }
+
+    const quoteLine = line.match(QUOTE);
+    if (quoteLine) {
+      if (paragraph.length > 0 || list) flush();
+      quote.push(quoteLine[1]);
+      continue;
+    }
+
+    // Indented lines continue the last list item; anything else is paragraph text
+    if (list && /^\s+/.test(line)) {
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+      continue;
+    }
+    if (list || quote.length > 0) flush();
+    paragraph.push(line.trim());
+  }
+  flush();
+
+  return blocks;
+}
+
+// A newsletter ready to render in any export format
+export interface ExportDocument {
+  title: string;
+  subject_line: string;
+  preview_text: string;
+  blocks: MarkdownBlock[];
+}
@@ -5,31 +5,80 @@ import {
   ParagraphPattern,
   type GenerationRequest,
   type N8nWebhookPayload,
-  type N8nWebhookResponse,
   type VoiceProfile,
-} from '../types';
-
-const N8N_WEBHOOK_URL = import.meta.env.VITE_N8N_WEBHOOK_URL || 'https://levreg.app.n8n.cloud/webhook/levreg-ai-n8n';
-const CALLBACK_URL = import.meta.env.VITE_CALLBACK_URL || 'https://n8n-frontend-orpin.vercel.app/api/webhook';
+  type VoiceProfileFormData,
+} from '../types.js';
+import { SUBJECT_VARIANT_COUNT } from './subjectVariantService.js';
+import { buildAnalysisFields, type SampleAnalysis } from './voiceAnalysisService.js';
+
+// This module is shared by the browser and the /api routes, so it must not
+// read import.meta.env or process.env. The n8n webhook itself is only ever
+// called server-side from api/generate.ts.
+
+export interface VoiceExamplesForPayload {
+  good: string[];
+  bad: string[];
+}
 
-export interface TriggerGenerationParams {
+export interface BuildPayloadParams {
   userId: string;
   profileId: string;
   generationId: string;
   request: GenerationRequest;
   voiceProfile: VoiceProfile;
+  voiceExamples?: VoiceExamplesForPayload;
+  callbackUrl: string;
+  regenerate?: N8nWebhookPayload['regenerate'];
+}
+
+// The voice_profile block sent to n8n, shared by generation and preview requests
+export function buildN8nVoiceProfile(
+  voiceProfile: VoiceProfileFormData & Pick<VoiceProfile, 'avg_sentence_length' | 'voice_prompt'>,
+  voiceExamples?: VoiceExamplesForPayload
+): N8nWebhookPayload['voice_profile'] {
+  return {
+    profile_name: voiceProfile.profile_name || '',
+    tone: voiceProfile.tone || [],
+    formality: voiceProfile.formality || 3,
+    detail_level: voiceProfile.detail_level || 3,
+    sentence_style: voiceProfile.sentence_style || SentenceStyle.Mixed,
+    vocabulary_level: voiceProfile.vocabulary_level || VocabularyLevel.Professional,
+    common_phrases: voiceProfile.common_phrases || [],
+    avoid_phrases: voiceProfile.avoid_phrases || [],
+    uses_questions: voiceProfile.uses_questions ?? false,
+    uses_data: voiceProfile.uses_data ?? false,
+    uses_anecdotes: voiceProfile.uses_anecdotes ?? false,
+    uses_metaphors: voiceProfile.uses_metaphors ?? false,
+    uses_humor: voiceProfile.uses_humor ?? false,
+    paragraph_pattern: voiceProfile.paragraph_pattern || ParagraphPattern.Varied,
+    samples: voiceProfile.samples || [],
+    avg_sentence_length: voiceProfile.avg_sentence_length ?? null,
+    voice_prompt: voiceProfile.voice_prompt || null,
+    good_examples: voiceExamples?.good || [],
+    bad_examples: voiceExamples?.bad || [],
+  };
+}
+
+// The same block for a profile that hasn't been saved yet, with the prompt
+// compiled the way create and update would store it
+export function buildDraftN8nVoiceProfile(
+  formData: VoiceProfileFormData,
+  analysis?: SampleAnalysis | null
+): N8nWebhookPayload['voice_profile'] {
+  return buildN8nVoiceProfile({ ...formData, ...buildAnalysisFields(formData, analysis) });
 }
 
-export async function triggerNewsletterGeneration({
+export function buildN8nWebhookPayload({
   userId,
   profileId,
   generationId,
   request,
   voiceProfile,
-}: TriggerGenerationParams): Promise<N8nWebhookResponse> {
-  console.log('Triggering newsletter generation with voice profile:', voiceProfile.profile_name);
-
-  const payload: N8nWebhookPayload = {
+  voiceExamples,
+  callbackUrl,
+  regenerate,
+}: BuildPayloadParams): N8nWebhookPayload {
+  return {
     user_id: userId,
     profile_id: profileId,
     generation_id: generationId,
@@ -38,47 +87,11 @@ export async function triggerNewsletterGeneration({
     twitter_username: request.content_source === ContentSource.Twitter ? request.twitter_username || null : null,
     youtube_url: request.content_source === ContentSource.YouTube ? request.youtube_url || null : null,
     article_content: request.content_source === ContentSource.Article ? request.article_content || null : null,
-    voice_profile: {
-      profile_name: voiceProfile.profile_name || '',
-      tone: voiceProfile.tone || [],
-      formality: voiceProfile.formality || 3,
-      detail_level: voiceProfile.detail_level || 3,
-      sentence_style: voiceProfile.sentence_style || SentenceStyle.Mixed,
-      vocabulary_level: voiceProfile.vocabulary_level || VocabularyLevel.Professional,
-      common_phrases: voiceProfile.common_phrases || [],
-      avoid_phrases: voiceProfile.avoid_phrases || [],
-      uses_questions: voiceProfile.uses_questions ?? false,
-      uses_data: voiceProfile.uses_data ?? false,
-      uses_anecdotes: voiceProfile.uses_anecdotes ?? false,
-      uses_metaphors: voiceProfile.uses_metaphors ?? false,
-      uses_humor: voiceProfile.uses_humor ?? false,
-      paragraph_pattern: voiceProfile.paragraph_pattern || ParagraphPattern.Varied,
-      samples: voiceProfile.samples || [],
-    },
-    callback_url: CALLBACK_URL,
+    voice_profile: buildN8nVoiceProfile(voiceProfile, voiceExamples),
+    callback_url: callbackUrl,
+    subject_variant_count: SUBJECT_VARIANT_COUNT,
+    ...(regenerate ? { regenerate } : {}),
   };
-
-  console.log('Sending payload to n8n:', JSON.stringify(payload, null, 2));
-
-  const response = await fetch(N8N_WEBHOOK_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(payload),
-  });
-
-  console.log('n8n response status:', response.status);
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('n8n webhook error:', errorText);
-    throw new Error(`n8n webhook failed: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  console.log('n8n response data:', data);
-  return data as N8nWebhookResponse;
 }
 
 // Validate generation request
@@ -124,7 +137,26 @@ export function validateGenerationRequest(request: GenerationRequest): string[]
         errors.push('Article content must be less than 50,000 characters');
       }
       break;
+
+    default:
+      if (request.content_source) {
+        errors.push('Invalid content source');
+      }
   }
 
   return errors;
 }
+
+// Helper function to extract content source value for display
+export function getContentSourceValue(request: GenerationRequest): string {
+  switch (request.content_source) {
+    case ContentSource.Twitter:
+      return request.twitter_username || '';
+    case ContentSource.YouTube:
+      return request.youtube_url || '';
+    case ContentSource.Article:
+      return 'article';
+    default:
+      return '';
+  }
+}
@@ -0,0 +1,383 @@
+import type { EmailTemplate, Newsletter, NewsletterArticle, SponsorSlotPosition } from '../types';
+import { buildDocx } from './docxWriter';
+import {
+  parseMarkdown,
+  type ExportDocument,
+  type InlineSpan,
+  type MarkdownBlock,
+} from './markdownBlocks';
+import { getOriginalArticle } from './newsletterVersioning';
+import { buildPdf } from './pdfWriter';
+import { createZip } from './zipWriter';
+
+// Newsletter exports, all built in the browser: inline-styled email HTML,
+// plain text, Word and PDF, one file per article or a zip of a whole generation.
+
+export type ExportFormat = 'html' | 'text' | 'docx' | 'pdf';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  html: { label: 'Email HTML', extension: 'html', mimeType: 'text/html;charset=utf-8' },
+  text: { label: 'Plain text', extension: 'txt', mimeType: 'text/plain;charset=utf-8' },
+  docx: {
+    label: 'Word (.docx)',
+    extension: 'docx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  },
+  pdf: { label: 'PDF', extension: 'pdf', mimeType: 'application/pdf' },
+};
+
+type ExportableNewsletter = Pick<Newsletter, 'newsletter_number' | 'title' | 'subject_line' | 'preview_text' | 'content_markdown'>;
+
+export function toExportDocument(newsletter: ExportableNewsletter): ExportDocument {
+  return {
+    title: newsletter.title,
+    subject_line: newsletter.subject_line,
+    preview_text: newsletter.preview_text,
+    blocks: parseMarkdown(newsletter.content_markdown),
+  };
+}
+
+// ============================================
+// Email HTML
+// ============================================
+
+// The parts of a brand template the email renderer uses
+export type EmailBrand = Pick<
+  EmailTemplate,
+  'layout_html' | 'accent_color' | 'background_color' | 'text_color' | 'sponsor_slots' | 'unsubscribe_url'
+>;
+
+// Plain layout for newsletters without a brand template
+export const DEFAULT_EMAIL_BRAND: EmailBrand = {
+  layout_html: '{{body}}',
+  accent_color: '#4f46e5',
+  background_color: '#f1f5f9',
+  text_color: '#1e293b',
+  sponsor_slots: [],
+  unsubscribe_url: '',
+};
+
+export const EMAIL_TEMPLATE_PLACEHOLDERS: { name: string; description: string }[] = [
+  { name: 'body', description: 'The article, sponsor slots included' },
+  { name: 'title', description: 'Article title' },
+  { name: 'subject_line', description: 'Subject line in use' },
+  { name: 'preheader', description: 'Preview text' },
+  { name: 'newsletter_name', description: 'Newsletter name' },
+  { name: 'unsubscribe_url', description: "The template's unsubscribe link" },
+  { name: 'accent_color', description: 'Accent color, for borders and buttons' },
+];
+
+const FONT_STACK = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif";
+const MONO_STACK = "SFMono-Regular, Menlo, Consolas, 'Courier New', monospace";
+
+function emailStyles(brand: EmailBrand) {
+  return {
+    h1: 'margin:0 0 16px;font-size:28px;line-height:1.25;font-weight:700;',
+    h2: 'margin:32px 0 12px;font-size:22px;line-height:1.3;font-weight:700;',
+    h3: 'margin:24px 0 8px;font-size:18px;line-height:1.35;font-weight:700;',
+    p: 'margin:0 0 16px;',
+    list: 'margin:0 0 16px;padding-left:24px;',
+    li: 'margin:0 0 8px;',
+    blockquote: `margin:0 0 16px;padding:4px 0 4px 16px;border-left:3px solid ${brand.accent_color};opacity:0.85;font-style:italic;`,
+    pre: `margin:0 0 16px;padding:12px 16px;background-color:#f1f5f9;color:#1e293b;border-radius:6px;font-family:${MONO_STACK};font-size:13px;line-height:1.5;white-space:pre-wrap;`,
+    code: `font-family:${MONO_STACK};font-size:0.9em;background-color:#f1f5f9;color:#1e293b;padding:1px 4px;border-radius:4px;`,
+    hr: 'border:0;border-top:1px solid #e2e8f0;margin:32px 0;',
+    a: `color:${brand.accent_color};text-decoration:underline;`,
+    sponsor: `margin:0 0 24px;padding:16px 0;border-top:1px solid #e2e8f0;border-bottom:1px solid #e2e8f0;`,
+  };
+}
+
+type EmailStyles = ReturnType<typeof emailStyles>;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function isSafeHref(href: string): boolean {
+  return /^(https?:|mailto:)/i.test(href);
+}
+
+// The unsubscribe link may be an ESP merge tag (*|UNSUB|*, {{ unsubscribe_url }})
+// that the platform swaps for a URL at send time, so a value without a URL
+// scheme is fine; one with a scheme must pass isSafeHref. Browsers ignore
+// whitespace and control characters inside a scheme, so those are dropped first.
+export function isSafeUnsubscribeUrl(value: string): boolean {
+  const compact = value.replace(/[\s\u0000-\u001f]/g, '');
+  return isSafeHref(compact) || !/^[a-z][a-z0-9+.-]*:/i.test(compact);
+}
+
+function spansToHtml(spans: InlineSpan[], styles: EmailStyles): string {
+  return spans
+    .map((span) => {
+      let html = escapeHtml(span.text);
+      if (span.code) html = `<code style="${styles.code}">${html}</code>`;
+      if (span.italic) html = `<em>${html}</em>`;
+      if (span.bold) html = `<strong>${html}</strong>`;
+      if (span.href && isSafeHref(span.href)) {
+        html = `<a href="${escapeHtml(span.href)}" style="${styles.a}">${html}</a>`;
+      }
+      return html;
+    })
+    .join('');
+}
+
+function blockToHtml(block: MarkdownBlock, styles: EmailStyles): string {
+  switch (block.type) {
+    case 'heading': {
+      const level = Math.min(block.level, 3) as 1 | 2 | 3;
+      return `<h${level} style="${styles[`h${level}`]}">${spansToHtml(block.spans, styles)}</h${level}>`;
+    }
+    case 'paragraph':
+      return `<p style="${styles.p}">${spansToHtml(block.spans, styles)}</p>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+      const items = block.items.map((item) => `<li style="${styles.li}">${spansToHtml(item, styles)}</li>`).join('');
+      return `<${tag}${start} style="${styles.list}">${items}</${tag}>`;
+    }
+    case 'quote':
+      return `<blockquote style="${styles.blockquote}">${spansToHtml(block.spans, styles)}</blockquote>`;
+    case 'code':
+      return `<pre style="${styles.pre}">${escapeHtml(block.text)}</pre>`;
+    case 'rule':
+      return `<hr style="${styles.hr}">`;
+  }
+}
+
+// The middle sponsor goes before the section heading nearest the middle of the
+// article, or after its middle block when there are no sections
+function middleSlotIndex(blocks: MarkdownBlock[]): number {
+  const middle = blocks.length / 2;
+  let best = -1;
+  blocks.forEach((block, index) => {
+    if (index > 0 && block.type === 'heading' && block.level > 1) {
+      if (best === -1 || Math.abs(index - middle) < Math.abs(best - middle)) best = index;
+    }
+  });
+  return best === -1 ? Math.ceil(middle) : best;
+}
+
+// Known placeholders are filled in; anything else (e.g. an ESP's {{first_name}})
+// is left for the email platform
+function fillPlaceholders(html: string, values: Record<string, string>): string {
+  return html.replace(/\{\{(\w+)\}\}/g, (match, name: string) => values[name] ?? match);
+}
+
+export interface EmailRenderOptions {
+  brand?: EmailBrand | null;
+  newsletterName?: string;
+}
+
+// Single-column, table-based layout that holds up in Outlook and Gmail. The
+// preheader is hidden text at the top, padded so inboxes don't pull body text
+// into the preview. A brand template supplies the content area around the
+// article, its colors and sponsor slots.
+export function renderEmailHtml(document: ExportDocument, { brand, newsletterName = '' }: EmailRenderOptions = {}): string {
+  const theme = brand ?? DEFAULT_EMAIL_BRAND;
+  const styles = emailStyles(theme);
+  const values: Record<string, string> = {
+    title: escapeHtml(document.title),
+    subject_line: escapeHtml(document.subject_line),
+    preheader: escapeHtml(document.preview_text),
+    newsletter_name: escapeHtml(newsletterName),
+    unsubscribe_url: escapeHtml(
+      theme.unsubscribe_url && isSafeUnsubscribeUrl(theme.unsubscribe_url) ? theme.unsubscribe_url : '#'
+    ),
+    accent_color: theme.accent_color,
+  };
+
+  const sponsorAt = (position: SponsorSlotPosition) =>
+    theme.sponsor_slots
+      .filter((slot) => slot.position === position && slot.html.trim())
+      .map((slot) => `<div style="${styles.sponsor}">${fillPlaceholders(slot.html, values)}</div>`);
+
+  const blocks = document.blocks.map((block) => blockToHtml(block, styles));
+  const middle = middleSlotIndex(document.blocks);
+  const body = [
+    ...sponsorAt('top'),
+    ...blocks.slice(0, middle),
+    ...sponsorAt('middle'),
+    ...blocks.slice(middle),
+    ...sponsorAt('bottom'),
+  ].join('\n');
+
+  const layout = theme.layout_html.includes('{{body}}') ? theme.layout_html : `${theme.layout_html}\n{{body}}`;
+  const content = fillPlaceholders(layout, { ...values, body });
+  const preheaderPadding = '&#847;&zwnj;&nbsp;'.repeat(40);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="x-apple-disable-message-reformatting">
+<title>${values.subject_line}</title>
+<style>
+  @media only screen and (max-width: 620px) {
+    .email-container { width: 100% !important; }
+    .email-content { padding: 28px 20px !important; }
+  }
+</style>
+</head>
+<body style="margin:0;padding:0;background-color:${theme.background_color};">
+<div style="display:none;max-height:0;max-width:0;overflow:hidden;mso-hide:all;font-size:1px;line-height:1px;color:${theme.background_color};opacity:0;">${values.preheader}${preheaderPadding}</div>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color:${theme.background_color};">
+<tr>
+<td align="center" style="padding:24px 12px;">
+<table role="presentation" class="email-container" width="600" cellpadding="0" cellspacing="0" border="0" style="width:600px;max-width:600px;background-color:#ffffff;border-radius:8px;">
+<tr>
+<td class="email-content" style="padding:40px 48px;font-family:${FONT_STACK};font-size:16px;line-height:1.6;color:${theme.text_color};">
+${content}
+</td>
+</tr>
+</table>
+</td>
+</tr>
+</table>
+</body>
+</html>
+`;
+}
+
+// ============================================
+// Plain text
+// ============================================
+
+function blockToText(block: MarkdownBlock): string {
+  const withLinks = (spans: InlineSpan[]) =>
+    spans.map((span) => (span.href && span.href !== span.text ? `${span.text} (${span.href})` : span.text)).join('');
+
+  switch (block.type) {
+    case 'heading': {
+      const text = withLinks(block.spans);
+      if (block.level === 1) return `${text}\n${'='.repeat(Math.min(text.length, 72))}`;
+      if (block.level === 2) return `${text}\n${'-'.repeat(Math.min(text.length, 72))}`;
+      return text.toUpperCase();
+    }
+    case 'paragraph':
+      return withLinks(block.spans);
+    case 'list':
+      return block.items
+        .map((item, index) => `${block.ordered ? `${block.start + index}.` : '-'} ${withLinks(item)}`)
+        .join('\n');
+    case 'quote':
+      return `> ${withLinks(block.spans)}`;
+    case 'code':
+      return block.text.split('\n').map((line) => `    ${line}`).join('\n');
+    case 'rule':
+      return '---';
+  }
+}
+
+// The text/plain part of the email, headed by its subject and preheader
+export function renderPlainText(document: ExportDocument): string {
+  const header = `Subject: ${document.subject_line}\nPreview: ${document.preview_text}`;
+  return `${[header, ...document.blocks.map(blockToText)].join('\n\n')}\n`;
+}
+
+// ============================================
+// Files
+// ============================================
+
+// Email options only apply to the HTML format
+export function renderExport(
+  document: ExportDocument,
+  format: ExportFormat,
+  emailOptions: EmailRenderOptions = {}
+): Uint8Array | string {
+  switch (format) {
+    case 'html':
+      return renderEmailHtml(document, emailOptions);
+    case 'text':
+      return renderPlainText(document);
+    case 'docx':
+      return buildDocx(document);
+    case 'pdf':
+      return buildPdf(document);
+  }
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, 60)
+    .replace(/^-|-$/g, '');
+}
+
+// Named after the workflow's file for the article (e.g. newsletter-1.md ->
+// newsletter-1.pdf) so exports line up with the Google Drive copies
+export function getNewsletterFileName(
+  newsletter: Pick<Newsletter, 'newsletter_number' | 'title'>,
+  articles: NewsletterArticle[] | null,
+  format: ExportFormat
+): string {
+  const filename = getOriginalArticle(articles, newsletter.newsletter_number)?.filename?.split('/').pop();
+  const base = filename
+    ? filename.replace(/\.[^.]+$/, '')
+    : `newsletter-${newsletter.newsletter_number}${slugify(newsletter.title) ? `-${slugify(newsletter.title)}` : ''}`;
+  return `${base}.${EXPORT_FORMATS[format].extension}`;
+}
+
+function downloadFile(fileName: string, data: Uint8Array | string, mimeType: string): void {
+  const blob = new Blob([data], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function exportNewsletter(
+  newsletter: ExportableNewsletter,
+  articles: NewsletterArticle[] | null,
+  format: ExportFormat,
+  emailOptions: EmailRenderOptions = {}
+): void {
+  downloadFile(
+    getNewsletterFileName(newsletter, articles, format),
+    renderExport(toExportDocument(newsletter), format, emailOptions),
+    EXPORT_FORMATS[format].mimeType
+  );
+}
+
+// One file per article in a zip named after the newsletter
+export function buildGenerationZip(
+  newsletters: ExportableNewsletter[],
+  articles: NewsletterArticle[] | null,
+  format: ExportFormat,
+  emailOptions: EmailRenderOptions = {}
+): Uint8Array {
+  const usedNames = new Set<string>();
+  const entries = newsletters.map((newsletter) => {
+    const fileName = getNewsletterFileName(newsletter, articles, format);
+    let name = fileName;
+    for (let copy = 2; usedNames.has(name); copy++) {
+      name = fileName.replace(/(\.[^.]+)$/, `-${copy}$1`);
+    }
+    usedNames.add(name);
+    return { name, data: renderExport(toExportDocument(newsletter), format, emailOptions) };
+  });
+
+  return createZip(entries);
+}
+
+export function exportGeneration(
+  newsletterName: string,
+  newsletters: ExportableNewsletter[],
+  articles: NewsletterArticle[] | null,
+  format: ExportFormat,
+  brand: EmailBrand | null = null
+): void {
+  const date = new Date().toISOString().slice(0, 10);
+  downloadFile(
+    `${slugify(newsletterName) || 'newsletters'}-${date}-${EXPORT_FORMATS[format].extension}.zip`,
+    buildGenerationZip(newsletters, articles, format, { brand, newsletterName }),
+    'application/zip'
+  );
+}
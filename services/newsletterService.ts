@@ -0,0 +1,393 @@
+import { supabase, TABLES, getAccessTokenFromStorage, getAccessToken } from '../lib/supabase';
+import { setDemoAverageRating } from './voiceProfileService';
+import { countWords } from './voiceAnalysisService';
+import {
+  copyFromArticle,
+  copyOf,
+  planNewsletterVersions,
+  type NewsletterCopy,
+  type NewsletterVersionDraft,
+} from './newsletterVersioning';
+import { subjectVariantsFromArticle } from './subjectVariantService';
+import type {
+  ApiError,
+  Generation,
+  Newsletter,
+  NewsletterArticle,
+  NewsletterUpdate,
+  NewsletterVersion,
+  NewsletterVersionSource,
+} from '../types';
+
+// Check if we're in demo mode (no Supabase configured)
+const isDemoMode = !import.meta.env.VITE_SUPABASE_URL ||
+                   import.meta.env.VITE_SUPABASE_URL === 'https://placeholder.supabase.co';
+
+// In-memory storage for demo mode
+let demoNewsletters: Newsletter[] = [];
+let demoNewsletterVersions: NewsletterVersion[] = [];
+const demoOriginalArticles = new Map<string, NewsletterArticle>();
+const demoGenerationProfiles = new Map<string, string>();
+
+// Demo counterpart of api/_lib/newsletters.ts: expand a completed demo
+// generation's articles into newsletter rows
+export function saveDemoNewsletters(generation: Generation): void {
+  const now = new Date().toISOString();
+  const rows = (generation.newsletters || []).map((article, index): Newsletter => ({
+    id: `demo-newsletter-${generation.id}-${index + 1}`,
+    generation_id: generation.id,
+    user_id: generation.user_id,
+    newsletter_number: article.idea_number || index + 1,
+    title: article.title,
+    subject_line: article.subject_line,
+    preview_text: article.preview_text,
+    content_markdown: article.markdown_content || article.content,
+    content_html: null,
+    subject_variants: subjectVariantsFromArticle(article),
+    word_count: article.word_count,
+    source_type: article.source_type,
+    newsletter_type: article.newsletter_name,
+    rating: null,
+    feedback_text: null,
+    was_published: false,
+    published_at: null,
+    current_version_number: null,
+    created_at: now,
+    updated_at: now,
+  }));
+
+  rows.forEach((row, index) => demoOriginalArticles.set(row.id, generation.newsletters![index]));
+
+  demoNewsletters = [
+    ...demoNewsletters.filter(n => n.generation_id !== generation.id),
+    ...rows,
+  ];
+  if (generation.profile_id) {
+    demoGenerationProfiles.set(generation.id, generation.profile_id);
+  }
+}
+
+// Mirror of update_voice_profile_stats for demo mode
+function updateDemoProfileRating(generationId: string): void {
+  const profileId = demoGenerationProfiles.get(generationId);
+  if (!profileId) return;
+
+  const ratings = demoNewsletters
+    .filter(n => demoGenerationProfiles.get(n.generation_id) === profileId && n.rating !== null)
+    .map(n => n.rating as number);
+
+  const average = ratings.length > 0
+    ? Math.round((ratings.reduce((sum, r) => sum + r, 0) / ratings.length) * 100) / 100
+    : null;
+
+  setDemoAverageRating(profileId, average);
+}
+
+export async function getNewsletters(generationId: string): Promise<Newsletter[]> {
+  if (isDemoMode) {
+    return demoNewsletters
+      .filter(n => n.generation_id === generationId)
+      .sort((a, b) => a.newsletter_number - b.newsletter_number);
+  }
+
+  // Use direct fetch API to avoid Supabase client hanging
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase configuration missing');
+  }
+
+  const accessToken = getAccessTokenFromStorage();
+  if (!accessToken) {
+    throw new Error('No valid session - please sign in again');
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 30000);
+
+  try {
+    const response = await fetch(
+      `${supabaseUrl}/rest/v1/${TABLES.NEWSLETTERS}?generation_id=eq.${generationId}&select=*&order=newsletter_number.asc`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': supabaseKey,
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        signal: controller.signal,
+      }
+    );
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('getNewsletters: Error response:', errorText);
+      throw new Error(`Supabase fetch failed: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    return (data as Newsletter[]) || [];
+  } catch (err) {
+    clearTimeout(timeoutId);
+    if (err instanceof Error && err.name === 'AbortError') {
+      console.error('getNewsletters: Request timed out after 30s');
+      throw new Error('Request timed out - please try again');
+    }
+    throw err;
+  }
+}
+
+export async function updateNewsletter(
+  newsletterId: string,
+  updates: NewsletterUpdate
+): Promise<Newsletter> {
+  const changes: Partial<Newsletter> = { ...updates };
+
+  // Keep published_at in step with the published flag
+  if (updates.was_published !== undefined) {
+    changes.published_at = updates.was_published ? new Date().toISOString() : null;
+  }
+
+  // Edited bodies get a fresh word count
+  if (updates.content_markdown !== undefined) {
+    changes.word_count = countWords(updates.content_markdown);
+  }
+
+  if (isDemoMode) {
+    const index = demoNewsletters.findIndex(n => n.id === newsletterId);
+    if (index === -1) throw new Error('Newsletter not found');
+
+    demoNewsletters[index] = {
+      ...demoNewsletters[index],
+      ...changes,
+      updated_at: new Date().toISOString(),
+    };
+    if (updates.rating !== undefined) {
+      updateDemoProfileRating(demoNewsletters[index].generation_id);
+    }
+    return demoNewsletters[index];
+  }
+
+  const { data, error } = await supabase
+    .from(TABLES.NEWSLETTERS)
+    .update(changes)
+    .eq('id', newsletterId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating newsletter:', error);
+    throw error;
+  }
+
+  return data as Newsletter;
+}
+
+// A newsletter after its copy changed, with its full version history
+export interface NewsletterChange {
+  newsletter: Newsletter;
+  versions: NewsletterVersion[];
+}
+
+async function postNewsletterChange(
+  endpoint: string,
+  body: Record<string, unknown>,
+  label: string
+): Promise<NewsletterChange> {
+  const accessToken = await getAccessToken();
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const error = data as Partial<ApiError>;
+    console.error(`${label}: Error response:`, error);
+    throw new Error(error.error || `${label} failed: ${response.status}`);
+  }
+
+  return data as NewsletterChange;
+}
+
+function sortVersions(versions: NewsletterVersion[]): NewsletterVersion[] {
+  return [...versions].sort((a, b) => a.version_number - b.version_number);
+}
+
+function getDemoNewsletterVersions(newsletterId: string): NewsletterVersion[] {
+  return sortVersions(demoNewsletterVersions.filter(v => v.newsletter_id === newsletterId));
+}
+
+function insertDemoVersions(drafts: NewsletterVersionDraft[]): void {
+  const now = new Date().toISOString();
+  demoNewsletterVersions = [
+    ...demoNewsletterVersions,
+    ...drafts.map((draft): NewsletterVersion => ({
+      ...draft,
+      id: `demo-newsletter-version-${draft.newsletter_id}-${draft.version_number}`,
+      created_at: now,
+    })),
+  ];
+}
+
+// Demo counterpart of replaceNewsletterCopy in api/_lib/newsletters.ts
+function replaceDemoNewsletterCopy(
+  newsletterId: string,
+  copy: NewsletterCopy,
+  source: NewsletterVersionSource,
+  instructions: string | null
+): NewsletterChange {
+  const index = demoNewsletters.findIndex(n => n.id === newsletterId);
+  if (index === -1) throw new Error('Newsletter not found');
+
+  const current = demoNewsletters[index];
+  const drafts = planNewsletterVersions(
+    current,
+    getDemoNewsletterVersions(newsletterId),
+    demoOriginalArticles.get(newsletterId) || null,
+    { copy, source, instructions }
+  );
+  insertDemoVersions(drafts);
+
+  demoNewsletters[index] = {
+    ...current,
+    ...copyOf(copy),
+    current_version_number: drafts[drafts.length - 1].version_number,
+    updated_at: new Date().toISOString(),
+  };
+
+  return { newsletter: demoNewsletters[index], versions: getDemoNewsletterVersions(newsletterId) };
+}
+
+// Demo mode has no workflow, so the body only gets a note saying what was asked
+function withDemoNote(copy: NewsletterCopy, action: string, instructions: string | null): NewsletterCopy {
+  const note = instructions ? `${action} in demo mode with: "${instructions}"` : `${action} in demo mode`;
+  const body = copy.content_markdown.replace(/\n+\*(Regenerated|Revised) in demo mode[^\n]*\*$/, '');
+  const content = `${body}\n\n*${note}.*`;
+  return { ...copy, content_markdown: content, word_count: countWords(content) };
+}
+
+export async function getNewsletterVersions(newsletterId: string): Promise<NewsletterVersion[]> {
+  if (isDemoMode) {
+    return getDemoNewsletterVersions(newsletterId);
+  }
+
+  const { data, error } = await supabase
+    .from(TABLES.NEWSLETTER_VERSIONS)
+    .select('*')
+    .eq('newsletter_id', newsletterId)
+    .order('version_number', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching newsletter versions:', error);
+    throw error;
+  }
+
+  return (data as NewsletterVersion[]) || [];
+}
+
+// Rewrite one article of a completed generation (see /api/regenerate-newsletter)
+export async function regenerateNewsletter(
+  newsletterId: string,
+  instructions?: string
+): Promise<NewsletterChange> {
+  if (isDemoMode) {
+    const current = demoNewsletters.find(n => n.id === newsletterId);
+    if (!current) throw new Error('Newsletter not found');
+    const original = demoOriginalArticles.get(newsletterId);
+    const trimmed = instructions?.trim() || null;
+    const copy = withDemoNote(original ? copyFromArticle(original) : copyOf(current), 'Regenerated', trimmed);
+    return replaceDemoNewsletterCopy(newsletterId, copy, 'regenerated', trimmed);
+  }
+
+  return postNewsletterChange(
+    '/api/regenerate-newsletter',
+    { newsletter_id: newsletterId, instructions: instructions || null },
+    'Regeneration'
+  );
+}
+
+// Targeted rewrite of one article's current copy (see /api/revise-newsletter)
+export async function reviseNewsletter(newsletterId: string, instructions: string): Promise<NewsletterChange> {
+  if (isDemoMode) {
+    const current = demoNewsletters.find(n => n.id === newsletterId);
+    if (!current) throw new Error('Newsletter not found');
+    return replaceDemoNewsletterCopy(
+      newsletterId,
+      withDemoNote(copyOf(current), 'Revised', instructions.trim()),
+      'revised',
+      instructions.trim()
+    );
+  }
+
+  return postNewsletterChange(
+    '/api/revise-newsletter',
+    { newsletter_id: newsletterId, instructions },
+    'Revision'
+  );
+}
+
+// Make another version the newsletter's copy. Edits made since the current
+// version are kept as a version first, so switching never loses anything.
+export async function selectNewsletterVersion(
+  newsletter: Newsletter,
+  versions: NewsletterVersion[],
+  version: NewsletterVersion,
+  original: NewsletterArticle | null
+): Promise<NewsletterChange> {
+  const drafts = planNewsletterVersions(newsletter, versions, original);
+  const changes = {
+    ...copyOf(version),
+    current_version_number: version.version_number,
+  };
+
+  if (isDemoMode) {
+    const index = demoNewsletters.findIndex(n => n.id === newsletter.id);
+    if (index === -1) throw new Error('Newsletter not found');
+
+    insertDemoVersions(drafts);
+    demoNewsletters[index] = {
+      ...demoNewsletters[index],
+      ...changes,
+      updated_at: new Date().toISOString(),
+    };
+    return { newsletter: demoNewsletters[index], versions: getDemoNewsletterVersions(newsletter.id) };
+  }
+
+  let inserted: NewsletterVersion[] = [];
+  if (drafts.length > 0) {
+    const { data, error } = await supabase
+      .from(TABLES.NEWSLETTER_VERSIONS)
+      .insert(drafts)
+      .select();
+
+    if (error) {
+      console.error('Error saving newsletter versions:', error);
+      throw error;
+    }
+    inserted = (data as NewsletterVersion[]) || [];
+  }
+
+  const { data, error } = await supabase
+    .from(TABLES.NEWSLETTERS)
+    .update(changes)
+    .eq('id', newsletter.id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating newsletter:', error);
+    throw error;
+  }
+
+  return { newsletter: data as Newsletter, versions: sortVersions([...versions, ...inserted]) };
+}
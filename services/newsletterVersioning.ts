@@ -0,0 +1,207 @@
+import type {
+  Newsletter,
+  NewsletterArticle,
+  NewsletterVersion,
+  NewsletterVersionSource,
+} from '../types.js';
+
+// Version history of a newsletter's copy. Every copy an article has had is a
+// newsletter_versions row: the workflow's original, regenerations, revisions,
+// and the user's edits whenever something is about to replace them.
+// newsletters.current_version_number points at the version the row's copy
+// started from. Pure functions, shared by the /api routes and the browser.
+
+// The copy a user can edit in the newsletter editor
+export type NewsletterEditableFields = Pick<Newsletter, 'title' | 'subject_line' | 'preview_text' | 'content_markdown'>;
+
+export type NewsletterCopy = NewsletterEditableFields & Pick<Newsletter, 'word_count'>;
+
+// A version that hasn't been inserted yet
+export type NewsletterVersionDraft = Omit<NewsletterVersion, 'id' | 'created_at'>;
+
+export const NEWSLETTER_VERSION_SOURCE_LABELS: Record<NewsletterVersionSource, string> = {
+  generated: 'Original',
+  regenerated: 'Regenerated',
+  revised: 'Revision',
+  edited: 'Your edits',
+};
+
+// Regenerations and revisions both take free-text instructions
+export const MAX_NEWSLETTER_INSTRUCTIONS_LENGTH = 1000;
+
+// Common revision requests; picking one fills in its instructions
+export const REVISION_PRESETS = [
+  {
+    label: 'Shorter',
+    instructions: 'Make it about a third shorter. Keep the main points and the ending.',
+  },
+  {
+    label: 'More data',
+    instructions: 'Back up the main points with more concrete numbers, examples and sources.',
+  },
+  {
+    label: 'Punchier subject line',
+    instructions: 'Rewrite the subject line and preview text to be punchier. Leave the body as it is.',
+  },
+];
+
+const EDITABLE_FIELDS: Array<keyof NewsletterEditableFields> = ['title', 'subject_line', 'preview_text', 'content_markdown'];
+
+// The article a newsletter row was created from, in the generation's output
+export function getOriginalArticle(
+  articles: NewsletterArticle[] | null,
+  newsletterNumber: number
+): NewsletterArticle | null {
+  return (articles || []).find((article, index) => (article.idea_number || index + 1) === newsletterNumber) || null;
+}
+
+export function copyFromArticle(article: NewsletterArticle): NewsletterCopy {
+  return {
+    title: article.title || '',
+    subject_line: article.subject_line || '',
+    preview_text: article.preview_text || '',
+    content_markdown: article.markdown_content || article.content || '',
+    word_count: article.word_count ?? null,
+  };
+}
+
+export function copyOf(source: NewsletterCopy): NewsletterCopy {
+  return {
+    title: source.title,
+    subject_line: source.subject_line,
+    preview_text: source.preview_text,
+    content_markdown: source.content_markdown,
+    word_count: source.word_count,
+  };
+}
+
+export function isSameCopy(a: NewsletterEditableFields, b: NewsletterEditableFields): boolean {
+  return EDITABLE_FIELDS.every((field) => a[field] === b[field]);
+}
+
+// The unedited copy the newsletter's current text started from: its current
+// version, or the generation's article while it has no history yet
+export function getBaselineCopy(
+  newsletter: Newsletter,
+  versions: NewsletterVersion[],
+  original: NewsletterArticle | null
+): NewsletterCopy | null {
+  const current = versions.find((v) => v.version_number === newsletter.current_version_number);
+  if (current) return copyOf(current);
+  return original ? copyFromArticle(original) : null;
+}
+
+// The versions to insert when `next` replaces the newsletter's copy (or, with
+// no `next`, before the user switches to another version). The first change
+// records the original, and edits that would otherwise be lost are kept.
+export function planNewsletterVersions(
+  newsletter: Newsletter,
+  versions: NewsletterVersion[],
+  original: NewsletterArticle | null,
+  next?: { copy: NewsletterCopy; source: NewsletterVersionSource; instructions: string | null }
+): NewsletterVersionDraft[] {
+  const drafts: NewsletterVersionDraft[] = [];
+  let versionNumber = versions.reduce((max, v) => Math.max(max, v.version_number), 0);
+
+  const add = (copy: NewsletterCopy, source: NewsletterVersionSource, instructions: string | null) => {
+    versionNumber += 1;
+    drafts.push({
+      newsletter_id: newsletter.id,
+      user_id: newsletter.user_id,
+      version_number: versionNumber,
+      ...copyOf(copy),
+      source,
+      instructions,
+    });
+  };
+
+  if (versions.length === 0 && original) {
+    add(copyFromArticle(original), 'generated', null);
+  }
+
+  const baseline = versions.length > 0 ? getBaselineCopy(newsletter, versions, null) : drafts[0] || null;
+  if (!baseline || !isSameCopy(baseline, newsletter)) {
+    add(newsletter, 'edited', null);
+  }
+
+  if (next) {
+    add(next.copy, next.source, next.instructions);
+  }
+
+  return drafts;
+}
+
+export interface DiffSegment {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Past this many comparisons a changed stretch is shown as one removal and one
+// addition instead of word by word
+const MAX_DIFF_CELLS = 4000000;
+
+// Word-level diff of two texts; each word keeps the whitespace after it
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.match(/\s+|\S+\s*/g) || [];
+  const b = after.match(/\s+|\S+\s*/g) || [];
+  const segments: DiffSegment[] = [];
+  const push = (kind: DiffSegment['kind'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.kind === kind) {
+      last.text += text;
+    } else {
+      segments.push({ kind, text });
+    }
+  };
+
+  // Only the stretch between the common start and end needs comparing
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  push('same', a.slice(0, start).join(''));
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_DIFF_CELLS) {
+    push('removed', a.slice(start, endA).join(''));
+    push('added', b.slice(start, endB).join(''));
+  } else {
+    // lcs[i * width + j]: longest common run of a[start + i..] and b[start + j..]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = a[start + i] === b[start + j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[start + i] === b[start + j]) {
+        push('same', a[start + i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        push('removed', a[start + i]);
+        i++;
+      } else {
+        push('added', b[start + j]);
+        j++;
+      }
+    }
+    push('removed', a.slice(start + i, endA).join(''));
+    push('added', b.slice(start + j, endB).join(''));
+  }
+
+  push('same', a.slice(endA).join(''));
+  return segments.filter((segment) => segment.text);
+}
@@ -0,0 +1,341 @@
+import type { ExportDocument, InlineSpan, MarkdownBlock } from './markdownBlocks';
+
+// Builds a PDF from an export document with the standard Helvetica and Courier
+// fonts, which every reader has, so nothing is embedded. Those fonts only
+// cover Latin text (WinAnsi); other characters are dropped.
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 60;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const LIST_INDENT = 18;
+
+type FontKey = 'F1' | 'F2' | 'F3' | 'F4' | 'F5';
+
+const FONTS: Record<FontKey, string> = {
+  F1: 'Helvetica',
+  F2: 'Helvetica-Bold',
+  F3: 'Helvetica-Oblique',
+  F4: 'Helvetica-BoldOblique',
+  F5: 'Courier',
+};
+
+// Advance widths (1/1000 em) of characters 32-126, from the fonts' AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Typographic characters outside Latin-1 that WinAnsiEncoding still has
+const WIN_ANSI_EXTRAS: Record<string, { code: number; width: number }> = {
+  '€': { code: 0x80, width: 556 },
+  '…': { code: 0x85, width: 1000 },
+  '‘': { code: 0x91, width: 222 },
+  '’': { code: 0x92, width: 222 },
+  '“': { code: 0x93, width: 333 },
+  '”': { code: 0x94, width: 333 },
+  '•': { code: 0x95, width: 350 },
+  '–': { code: 0x96, width: 556 },
+  '—': { code: 0x97, width: 1000 },
+  '™': { code: 0x99, width: 1000 },
+};
+const EXTRA_WIDTHS = new Map(Object.values(WIN_ANSI_EXTRAS).map(({ code, width }) => [code, width]));
+
+// Text as WinAnsi character codes
+function encode(text: string): number[] {
+  const codes: number[] = [];
+  for (const char of text.replace(/\s/g, (space) => (space === ' ' ? space : ' '))) {
+    const code = char.codePointAt(0)!;
+    if (code >= 32 && code <= 126) {
+      codes.push(code);
+    } else if (WIN_ANSI_EXTRAS[char]) {
+      codes.push(WIN_ANSI_EXTRAS[char].code);
+    } else if (code >= 0xa0 && code <= 0xff) {
+      codes.push(code);
+    } else {
+      // Accented letters outside Latin-1 keep their base letter
+      const base = char.normalize('NFKD').replace(/[^\x20-\x7e]/g, '');
+      codes.push(...Array.from(base, (c) => c.charCodeAt(0)));
+    }
+  }
+  return codes;
+}
+
+function charWidth(code: number, font: FontKey): number {
+  if (font === 'F5') return 600;
+  const bold = font === 'F2' || font === 'F4';
+  if (code >= 32 && code <= 126) {
+    return (bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+  }
+  return EXTRA_WIDTHS.get(code) ?? (code === 0xa0 ? 278 : 556);
+}
+
+function textWidth(codes: number[], font: FontKey, size: number): number {
+  return (codes.reduce((sum, code) => sum + charWidth(code, font), 0) * size) / 1000;
+}
+
+function pdfString(codes: number[]): string {
+  return `(${codes
+    .map((code) => {
+      if (code === 40 || code === 41 || code === 92) return `\\${String.fromCharCode(code)}`;
+      if (code < 32 || code > 126) return `\\${code.toString(8).padStart(3, '0')}`;
+      return String.fromCharCode(code);
+    })
+    .join('')})`;
+}
+
+type Color = [number, number, number];
+
+const TEXT_COLOR: Color = [0.06, 0.09, 0.16];
+const MUTED_COLOR: Color = [0.39, 0.45, 0.55];
+const LINK_COLOR: Color = [0.31, 0.27, 0.9];
+
+interface Piece {
+  codes: number[];
+  font: FontKey;
+  color: Color;
+}
+
+interface TextStyle {
+  size: number;
+  lineHeight: number;
+  font: FontKey;
+  color: Color;
+}
+
+function fontFor(span: InlineSpan, base: FontKey): FontKey {
+  if (span.code) return 'F5';
+  const bold = span.bold || base === 'F2' || base === 'F4';
+  const italic = span.italic || base === 'F3' || base === 'F4';
+  if (bold && italic) return 'F4';
+  if (bold) return 'F2';
+  return italic ? 'F3' : 'F1';
+}
+
+// Words and the spaces between them, each with its own font
+function toPieces(spans: InlineSpan[], style: TextStyle): Piece[] {
+  const pieces: Piece[] = [];
+  for (const span of spans) {
+    const text = span.href && span.href !== span.text ? `${span.text} (${span.href})` : span.text;
+    const font = fontFor(span, style.font);
+    const color = span.href ? LINK_COLOR : style.color;
+    for (const part of text.split(/(\s+)/)) {
+      if (part) pieces.push({ codes: encode(/^\s+$/.test(part) ? ' ' : part), font, color });
+    }
+  }
+  return pieces;
+}
+
+class PdfLayout {
+  pages: string[][] = [[]];
+  private y = PAGE_HEIGHT - MARGIN;
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height < MARGIN) {
+      this.pages.push([]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  space(height: number) {
+    // Space at the top of a page is dropped
+    if (this.y < PAGE_HEIGHT - MARGIN) {
+      this.y -= height;
+    }
+  }
+
+  private writeLine(pieces: Piece[], x: number, style: TextStyle) {
+    this.ensureSpace(style.lineHeight);
+    this.y -= style.lineHeight;
+    const baseline = this.y + (style.lineHeight - style.size) / 2 + style.size * 0.2;
+    let operations = `BT ${x.toFixed(2)} ${baseline.toFixed(2)} Td`;
+    let font: FontKey | null = null;
+    let color: Color | null = null;
+    for (const piece of pieces) {
+      if (piece.font !== font) {
+        font = piece.font;
+        operations += ` /${font} ${style.size} Tf`;
+      }
+      if (piece.color !== color) {
+        color = piece.color;
+        operations += ` ${color.map((c) => c.toFixed(2)).join(' ')} rg`;
+      }
+      operations += ` ${pdfString(piece.codes)} Tj`;
+    }
+    this.ops.push(`${operations} ET`);
+  }
+
+  // Greedy word wrap; words wider than the line are split
+  text(spans: InlineSpan[], style: TextStyle, indent = 0, marker?: string) {
+    const x = MARGIN + indent;
+    const width = CONTENT_WIDTH - indent;
+    const lines: Piece[][] = [];
+    let line: Piece[] = [];
+    let lineWidth = 0;
+
+    for (const piece of toPieces(spans, style)) {
+      const isSpace = piece.codes.length === 1 && piece.codes[0] === 32;
+      if (isSpace && line.length === 0) continue;
+      let pieceWidth = textWidth(piece.codes, piece.font, style.size);
+
+      if (lineWidth + pieceWidth > width && line.length > 0) {
+        while (line.length > 0 && line[line.length - 1].codes[0] === 32) line.pop();
+        lines.push(line);
+        line = [];
+        lineWidth = 0;
+        if (isSpace) continue;
+      }
+
+      let rest = piece;
+      while (pieceWidth > width) {
+        let cut = rest.codes.length - 1;
+        while (cut > 1 && textWidth(rest.codes.slice(0, cut), rest.font, style.size) > width) cut--;
+        lines.push([{ ...rest, codes: rest.codes.slice(0, cut) }]);
+        rest = { ...rest, codes: rest.codes.slice(cut) };
+        pieceWidth = textWidth(rest.codes, rest.font, style.size);
+      }
+      line.push(rest);
+      lineWidth += pieceWidth;
+    }
+    if (line.length > 0) lines.push(line);
+
+    lines.forEach((pieces, index) => {
+      if (index === 0 && marker) {
+        this.ensureSpace(style.lineHeight);
+        const markerPiece: Piece = { codes: encode(marker), font: 'F1', color: style.color };
+        // Drawn on the same baseline as the first line, which writeLine moves to
+        const y = this.y;
+        this.writeLine([markerPiece], x - LIST_INDENT + 4, style);
+        this.y = y;
+      }
+      this.writeLine(pieces, x, style);
+    });
+  }
+
+  code(text: string) {
+    const style: TextStyle = { size: 9.5, lineHeight: 13, font: 'F5', color: TEXT_COLOR };
+    const perLine = Math.floor(CONTENT_WIDTH / (0.6 * style.size));
+    for (const rawLine of text.split('\n')) {
+      const codes = encode(rawLine);
+      for (let start = 0; start === 0 || start < codes.length; start += perLine) {
+        this.writeLine([{ codes: codes.slice(start, start + perLine), font: 'F5', color: TEXT_COLOR }], MARGIN, style);
+      }
+    }
+  }
+
+  rule() {
+    this.ensureSpace(12);
+    this.y -= 6;
+    this.ops.push(`0.80 0.84 0.88 RG 0.75 w ${MARGIN} ${this.y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${this.y.toFixed(2)} l S`);
+    this.y -= 6;
+  }
+}
+
+const BODY: TextStyle = { size: 11, lineHeight: 16, font: 'F1', color: TEXT_COLOR };
+const HEADINGS: TextStyle[] = [
+  { size: 20, lineHeight: 25, font: 'F2', color: TEXT_COLOR },
+  { size: 16, lineHeight: 21, font: 'F2', color: TEXT_COLOR },
+  { size: 13, lineHeight: 18, font: 'F2', color: TEXT_COLOR },
+];
+
+function layoutBlock(layout: PdfLayout, block: MarkdownBlock) {
+  switch (block.type) {
+    case 'heading': {
+      const style = HEADINGS[Math.min(block.level, 3) - 1];
+      layout.space(style.size * 0.7);
+      layout.text(block.spans, style);
+      layout.space(4);
+      break;
+    }
+    case 'paragraph':
+      layout.text(block.spans, BODY);
+      layout.space(8);
+      break;
+    case 'quote':
+      layout.text(block.spans, { ...BODY, font: 'F3', color: MUTED_COLOR }, LIST_INDENT);
+      layout.space(8);
+      break;
+    case 'list':
+      block.items.forEach((item, index) => {
+        layout.text(item, BODY, LIST_INDENT, block.ordered ? `${block.start + index}.` : '•');
+        layout.space(3);
+      });
+      layout.space(5);
+      break;
+    case 'code':
+      layout.code(block.text);
+      layout.space(8);
+      break;
+    case 'rule':
+      layout.rule();
+      break;
+  }
+}
+
+export function buildPdf(document: ExportDocument): Uint8Array {
+  const layout = new PdfLayout();
+  const meta: TextStyle = { size: 9.5, lineHeight: 13, font: 'F1', color: MUTED_COLOR };
+  layout.text([{ text: 'Subject line: ', bold: true }, { text: document.subject_line }], meta);
+  layout.text([{ text: 'Preview text: ', bold: true }, { text: document.preview_text }], meta);
+  layout.rule();
+  layout.space(6);
+  document.blocks.forEach((block) => layoutBlock(layout, block));
+
+  const pageCount = layout.pages.length;
+  const fontKeys = Object.keys(FONTS) as FontKey[];
+  // 1: catalog, 2: page tree, 3: info, then fonts, then a page and its content per page
+  const firstFont = 4;
+  const firstPage = firstFont + fontKeys.length;
+  const objects: string[] = [];
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${layout.pages.map((_, i) => `${firstPage + i * 2} 0 R`).join(' ')}] /Count ${pageCount} >>`;
+  objects[3] = `<< /Title ${pdfString(encode(document.title))} /Subject ${pdfString(encode(document.subject_line))} /Producer (VoiceClone) >>`;
+  fontKeys.forEach((key, i) => {
+    const encoding = key === 'F5' ? '' : ' /Encoding /WinAnsiEncoding';
+    objects[firstFont + i] = `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[key]}${encoding} >>`;
+  });
+  const fontResources = fontKeys.map((key, i) => `/${key} ${firstFont + i} 0 R`).join(' ');
+
+  layout.pages.forEach((ops, i) => {
+    const footer = `BT /F1 8.5 Tf ${MUTED_COLOR.join(' ')} rg ${PAGE_WIDTH - MARGIN - 30} ${MARGIN / 2} Td (${i + 1} / ${pageCount}) Tj ET`;
+    const stream = [...ops, footer].join('\n');
+    const pageObject = firstPage + i * 2;
+    objects[pageObject] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << ${fontResources} >> >> /Contents ${pageObject + 1} 0 R >>`;
+    objects[pageObject + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  // Every string above is ASCII, so character offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let i = 1; i < objects.length; i++) {
+    offsets[i] = pdf.length;
+    pdf += `${i} 0 obj\n${objects[i]}\nendobj\n`;
+  }
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let i = 1; i < objects.length; i++) {
+    pdf += `${String(offsets[i]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new TextEncoder().encode(pdf);
+}
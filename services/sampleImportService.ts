@@ -0,0 +1,502 @@
+import { supabase, getAccessToken } from '../lib/supabase';
+import type { ApiError, WritingSample } from '../types';
+
+// Bulk import of writing samples for the voice profile wizard. Files, feeds and
+// pasted archives are turned into plain-text posts here in the browser; only
+// fetching a URL goes through /api/import-url.
+
+// Check if we're in demo mode (no Supabase configured)
+const isDemoMode = !import.meta.env.VITE_SUPABASE_URL ||
+                   import.meta.env.VITE_SUPABASE_URL === 'https://placeholder.supabase.co';
+
+export const SAMPLE_IMPORT_ACCEPT = '.md,.markdown,.txt,.html,.htm,.docx,.xml,.rss,.atom,.zip';
+
+// Shorter posts say too little about sentence rhythm to be worth keeping
+export const MIN_SAMPLE_WORDS = 50;
+// Longer posts are trimmed at a paragraph break
+export const MAX_SAMPLE_CHARS = 15000;
+// Samples are stored on the profile and copied into every version snapshot
+export const MAX_SAMPLES = 200;
+
+export interface SampleImportResult {
+  samples: WritingSample[];
+  found: number;
+  skipped: {
+    duplicate: number;
+    too_short: number;
+    over_limit: number;
+  };
+  trimmed: number;
+  errors: Array<{ name: string; message: string }>;
+}
+
+// A post pulled out of a file or feed, before length and duplicate checks
+interface ExtractedPost {
+  text: string;
+  url?: string;
+}
+
+const RSS_CONTENT_NS = 'http://purl.org/rss/1.0/modules/content/';
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// Text blocks kept when flattening HTML; everything else is treated as inline
+const HTML_BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, pre';
+const HTML_NOISE_SELECTOR = 'script, style, noscript, nav, header, footer, aside, form, iframe, svg';
+
+// Lines made only of ---, *** or ___ separate posts in a pasted archive
+const POST_SEPARATOR = /\n[ \t]*(?:-{3,}|\*{3,}|_{3,})[ \t]*\n/;
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// Case, punctuation and spacing don't make two posts different
+function dedupeKey(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function trimToLength(text: string): string {
+  if (text.length <= MAX_SAMPLE_CHARS) return text;
+  const cut = text.lastIndexOf('\n\n', MAX_SAMPLE_CHARS);
+  return text.slice(0, cut > MAX_SAMPLE_CHARS / 2 ? cut : MAX_SAMPLE_CHARS).trim();
+}
+
+function getExtension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot + 1).toLowerCase();
+}
+
+// ============================================
+// Format parsers
+// ============================================
+
+function htmlElementToText(root: Element): string {
+  root.querySelectorAll(HTML_NOISE_SELECTOR).forEach((el) => el.remove());
+
+  // Nested blocks (a <p> inside an <li>) are covered by their outermost block
+  const blocks = Array.from(root.querySelectorAll(HTML_BLOCK_SELECTOR)).filter(
+    (el) => !el.parentElement?.closest(HTML_BLOCK_SELECTOR)
+  );
+  if (blocks.length === 0) {
+    return normalizeWhitespace(root.textContent || '');
+  }
+  return normalizeWhitespace(blocks.map((el) => (el.textContent || '').replace(/\s+/g, ' ').trim()).join('\n\n'));
+}
+
+export function htmlToText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return htmlElementToText(doc.body);
+}
+
+// One post per <article> when a page holds several (archive pages), otherwise
+// the whole page is one post.
+function parseHtmlDocument(html: string, fallbackUrl?: string): ExtractedPost[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const canonical =
+    doc.querySelector('link[rel="canonical"]')?.getAttribute('href') ||
+    doc.querySelector('meta[property="og:url"]')?.getAttribute('content') ||
+    fallbackUrl;
+
+  const articles = Array.from(doc.querySelectorAll('article')).filter(
+    (el) => !el.parentElement?.closest('article')
+  );
+  if (articles.length > 1) {
+    return articles.map((article) => ({
+      text: htmlElementToText(article),
+      url: article.querySelector('a[rel="bookmark"], h1 a, h2 a')?.getAttribute('href') || undefined,
+    }));
+  }
+
+  return [{ text: htmlElementToText(articles[0] || doc.body), url: canonical || undefined }];
+}
+
+export function markdownToText(markdown: string): string {
+  return normalizeWhitespace(
+    markdown
+      .replace(/\r\n?/g, '\n')
+      .replace(/^---\n[\s\S]*?\n---\n/, '')
+      .replace(/```[\s\S]*?```/g, '')
+      .replace(/<[^>]+>/g, '')
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/^[ \t]*#{1,6}[ \t]+/gm, '')
+      .replace(/^[ \t]*>[ \t]?/gm, '')
+      .replace(/^[ \t]*(?:[-*+]|\d+\.)[ \t]+/gm, '')
+      .replace(/^[ \t]*(?:-{3,}|\*{3,}|_{3,})[ \t]*$/gm, '')
+      .replace(/(\*\*|__|\*|`)(.+?)\1/g, '$2')
+      .replace(/\b_(.+?)_\b/g, '$1')
+  );
+}
+
+// Pick the canonical URL out of YAML front matter (url, canonical_url or link)
+function getFrontMatterUrl(markdown: string): string | undefined {
+  const frontMatter = markdown.replace(/\r\n?/g, '\n').match(/^---\n([\s\S]*?)\n---\n/);
+  if (!frontMatter) return undefined;
+  const match = frontMatter[1].match(/^(?:canonical_url|url|link):[ \t]*["']?(https?:\/\/[^\s"']+)/m);
+  return match?.[1];
+}
+
+function isFeed(doc: Document): boolean {
+  const root = doc.documentElement?.localName;
+  return root === 'rss' || root === 'feed' || root === 'RDF';
+}
+
+function childText(parent: Element, localName: string): string {
+  const child = Array.from(parent.children).find((el) => el.localName === localName);
+  return child?.textContent?.trim() || '';
+}
+
+// RSS 2.0 (including WordPress exports), RSS 1.0 and Atom feeds
+function parseFeedDocument(doc: Document): ExtractedPost[] {
+  const items = Array.from(doc.querySelectorAll('item, entry'));
+
+  return items.map((item) => {
+    if (item.localName === 'entry') {
+      const content = Array.from(item.children).find((el) => el.localName === 'content')
+        || Array.from(item.children).find((el) => el.localName === 'summary');
+      const type = content?.getAttribute('type');
+      const body =
+        type === 'xhtml'
+          ? htmlToText(content?.innerHTML || '')
+          : type === 'text'
+            ? normalizeWhitespace(content?.textContent || '')
+            : htmlToText(content?.textContent || '');
+      const link = Array.from(item.children).find(
+        (el) => el.localName === 'link' && (el.getAttribute('rel') || 'alternate') === 'alternate'
+      );
+      return { text: body, url: link?.getAttribute('href') || undefined };
+    }
+
+    const encoded = item.getElementsByTagNameNS(RSS_CONTENT_NS, 'encoded')[0]?.textContent;
+    const body = encoded || childText(item, 'description');
+    return { text: htmlToText(body), url: childText(item, 'link') || undefined };
+  });
+}
+
+function parseXml(xml: string): Document | null {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  return doc.querySelector('parsererror') ? null : doc;
+}
+
+// ============================================
+// .docx and .zip (dependency-free zip reader)
+// ============================================
+
+interface ZipEntry {
+  name: string;
+  read: () => Promise<Uint8Array>;
+}
+
+// Caps on decompressed bytes, per entry and per archive, so a small zip bomb
+// can't exhaust the tab's memory. Sizes declared in the archive are checked
+// up front, and the actual output is counted while inflating in case they lie.
+const MAX_ZIP_ENTRY_BYTES = 10 * 1024 * 1024;
+const MAX_ZIP_TOTAL_BYTES = 50 * 1024 * 1024;
+
+const DAMAGED_ZIP_MESSAGE = 'The zip archive is damaged or incomplete';
+
+async function inflateWithLimit(
+  data: Uint8Array,
+  name: string,
+  claim: (bytes: number) => string | null
+): Promise<Uint8Array> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let overLimit: string | null = null;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      overLimit = size > MAX_ZIP_ENTRY_BYTES ? `${name} is too large to import` : claim(value.byteLength);
+      if (overLimit) break;
+      chunks.push(value);
+    }
+  } catch {
+    throw new Error(`Could not decompress ${name}`);
+  }
+
+  if (overLimit) {
+    await reader.cancel().catch(() => undefined);
+    throw new Error(overLimit);
+  }
+
+  const result = new Uint8Array(size);
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.byteLength;
+  }
+  return result;
+}
+
+// Lists the entries of a zip archive from its central directory. Only stored
+// and deflated entries are supported, which covers Word files and the archive
+// exports of the major newsletter platforms. Every offset read from the
+// archive is bounds-checked so a damaged file fails with a readable message.
+function readZipEntries(buffer: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  const fits = (start: number, length: number) => start >= 0 && start + length <= buffer.byteLength;
+
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('Not a valid zip archive');
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+
+  // Decompressed bytes handed out so far, across every entry of the archive.
+  // Returns the error message once the archive total is over the cap.
+  let inflated = 0;
+  const claim = (bytes: number) => {
+    inflated += bytes;
+    return inflated > MAX_ZIP_TOTAL_BYTES ? 'The zip archive is too large to import' : null;
+  };
+
+  for (let i = 0; i < entryCount; i++) {
+    if (!fits(offset, 46)) throw new Error(DAMAGED_ZIP_MESSAGE);
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    if (!fits(offset + 46, nameLength)) throw new Error(DAMAGED_ZIP_MESSAGE);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    entries.push({
+      name,
+      read: async () => {
+        if (uncompressedSize > MAX_ZIP_ENTRY_BYTES) throw new Error(`${name} is too large to import`);
+        if (!fits(localOffset, 30)) throw new Error(DAMAGED_ZIP_MESSAGE);
+        const dataStart =
+          localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        if (!fits(dataStart, compressedSize)) throw new Error(DAMAGED_ZIP_MESSAGE);
+        const data = new Uint8Array(buffer, dataStart, compressedSize);
+        if (method === 0) {
+          const overLimit =
+            compressedSize > MAX_ZIP_ENTRY_BYTES ? `${name} is too large to import` : claim(compressedSize);
+          if (overLimit) throw new Error(overLimit);
+          return data;
+        }
+        if (method !== 8) throw new Error(`Unsupported compression in ${name}`);
+        return inflateWithLimit(data, name, claim);
+      },
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function extractDocxText(buffer: ArrayBuffer): Promise<string> {
+  const documentEntry = readZipEntries(buffer).find((entry) => entry.name === 'word/document.xml');
+  if (!documentEntry) throw new Error('Not a valid .docx file');
+
+  const doc = parseXml(new TextDecoder().decode(await documentEntry.read()));
+  if (!doc) throw new Error('Could not read the document text');
+
+  const paragraphs = Array.from(doc.getElementsByTagNameNS(WORD_NS, 'p')).map((paragraph) =>
+    Array.from(paragraph.getElementsByTagNameNS(WORD_NS, '*'))
+      .map((node) => {
+        if (node.localName === 't') return node.textContent || '';
+        if (node.localName === 'tab') return ' ';
+        if (node.localName === 'br') return '\n';
+        return '';
+      })
+      .join('')
+  );
+  return normalizeWhitespace(paragraphs.filter((p) => p.trim()).join('\n\n'));
+}
+
+// ============================================
+// Entry points
+// ============================================
+
+function parseTextContent(name: string, content: string): ExtractedPost[] {
+  switch (getExtension(name)) {
+    case 'md':
+    case 'markdown':
+      return [{ text: markdownToText(content), url: getFrontMatterUrl(content) }];
+    case 'html':
+    case 'htm':
+      return parseHtmlDocument(content);
+    case 'xml':
+    case 'rss':
+    case 'atom': {
+      const doc = parseXml(content);
+      if (!doc || !isFeed(doc)) throw new Error('Not an RSS or Atom feed');
+      return parseFeedDocument(doc);
+    }
+    default:
+      return [{ text: normalizeWhitespace(content) }];
+  }
+}
+
+async function parseFile(file: File): Promise<ExtractedPost[]> {
+  const extension = getExtension(file.name);
+
+  if (extension === 'docx') {
+    return [{ text: await extractDocxText(await file.arrayBuffer()) }];
+  }
+
+  if (extension === 'zip') {
+    const posts: ExtractedPost[] = [];
+    for (const entry of readZipEntries(await file.arrayBuffer())) {
+      const entryExtension = getExtension(entry.name);
+      if (entry.name.endsWith('/') || entry.name.startsWith('__MACOSX/')) continue;
+      if (!['md', 'markdown', 'txt', 'html', 'htm', 'xml', 'rss', 'atom'].includes(entryExtension)) continue;
+      posts.push(...parseTextContent(entry.name, new TextDecoder().decode(await entry.read())));
+    }
+    return posts;
+  }
+
+  return parseTextContent(file.name, await file.text());
+}
+
+// Pasted feeds and pages are detected by their markup; anything else is plain
+// text, split into posts on separator lines.
+function parsePastedContent(content: string, url?: string): ExtractedPost[] {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('<')) {
+    const doc = parseXml(trimmed);
+    if (doc && isFeed(doc)) return parseFeedDocument(doc);
+    return parseHtmlDocument(trimmed, url);
+  }
+  return ('\n' + trimmed + '\n')
+    .split(POST_SEPARATOR)
+    .map((text) => ({ text: normalizeWhitespace(text), url }));
+}
+
+// Apply the length, duplicate and count checks. Existing samples count towards
+// duplicates and towards MAX_SAMPLES.
+function buildResult(
+  posts: ExtractedPost[],
+  existing: WritingSample[],
+  source: WritingSample['source'],
+  errors: SampleImportResult['errors']
+): SampleImportResult {
+  const seen = new Set(existing.map((sample) => dedupeKey(sample.text)));
+  const result: SampleImportResult = {
+    samples: [],
+    found: posts.length,
+    skipped: { duplicate: 0, too_short: 0, over_limit: 0 },
+    trimmed: 0,
+    errors,
+  };
+
+  for (const post of posts) {
+    if (countWords(post.text) < MIN_SAMPLE_WORDS) {
+      result.skipped.too_short++;
+      continue;
+    }
+
+    const key = dedupeKey(post.text);
+    if (seen.has(key)) {
+      result.skipped.duplicate++;
+      continue;
+    }
+
+    if (existing.length + result.samples.length >= MAX_SAMPLES) {
+      result.skipped.over_limit++;
+      continue;
+    }
+
+    const text = trimToLength(post.text);
+    if (text !== post.text) result.trimmed++;
+
+    seen.add(key);
+    result.samples.push({ text, source, ...(post.url && { url: post.url }) });
+  }
+
+  return result;
+}
+
+export async function importSampleFiles(
+  files: File[],
+  existing: WritingSample[],
+  source: WritingSample['source'],
+  onProgress?: (done: number, total: number) => void
+): Promise<SampleImportResult> {
+  const posts: ExtractedPost[] = [];
+  const errors: SampleImportResult['errors'] = [];
+
+  // One at a time so hundreds of files don't all sit in memory at once
+  for (let i = 0; i < files.length; i++) {
+    try {
+      posts.push(...(await parseFile(files[i])));
+    } catch (err) {
+      console.error(`importSampleFiles: Failed to read ${files[i].name}:`, err);
+      errors.push({ name: files[i].name, message: err instanceof Error ? err.message : 'Could not read file' });
+    }
+    onProgress?.(i + 1, files.length);
+  }
+
+  return buildResult(posts, existing, source, errors);
+}
+
+export function importPastedSamples(
+  content: string,
+  existing: WritingSample[],
+  source: WritingSample['source']
+): SampleImportResult {
+  return buildResult(parsePastedContent(content), existing, source, []);
+}
+
+// Fetch a feed or page through /api/import-url and import its posts
+export async function importSamplesFromUrl(
+  url: string,
+  existing: WritingSample[],
+  source: WritingSample['source']
+): Promise<SampleImportResult> {
+  if (isDemoMode) {
+    throw new Error('Importing from a URL is not available in demo mode - paste the feed instead');
+  }
+
+  const accessToken = await getAccessToken();
+
+  const response = await fetch('/api/import-url', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({ url }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || typeof data.body !== 'string') {
+    const error = data as Partial<ApiError>;
+    console.error('importSamplesFromUrl: Error response:', error);
+    throw new Error(error.details?.url || error.error || `Import failed: ${response.status}`);
+  }
+
+  return buildResult(parsePastedContent(data.body, data.url), existing, source, []);
+}
+
+export function isUrl(value: string): boolean {
+  return /^https?:\/\/\S+$/i.test(value.trim());
+}
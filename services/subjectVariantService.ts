@@ -0,0 +1,154 @@
+import type { Newsletter, NewsletterArticle, SubjectVariant } from '../types.js';
+
+// Subject line / preview text variants for A/B tests. Shared by the browser and
+// the /api routes, so it must not read import.meta.env or process.env.
+
+// Pairs the workflow writes per article
+export const SUBJECT_VARIANT_COUNT = 3;
+
+// Most ESPs test up to five versions of a send
+export const MAX_SUBJECT_VARIANTS = 5;
+
+// Inbox truncation points, in characters. Phones cut subjects around 40 and
+// desktop clients around 60; phones show roughly the first 90 characters of
+// preview text, and a short one lets the email's opening text fill the gap.
+export const SUBJECT_LINE_MOBILE_LIMIT = 40;
+export const SUBJECT_LINE_DESKTOP_LIMIT = 60;
+export const PREVIEW_TEXT_MIN_LENGTH = 40;
+export const PREVIEW_TEXT_MOBILE_LIMIT = 90;
+
+export interface SubjectLengthCheck {
+  field: keyof SubjectVariant;
+  level: 'warning' | 'error';
+  message: string;
+}
+
+function isSubjectVariant(value: unknown): value is SubjectVariant {
+  if (typeof value !== 'object' || value === null) return false;
+  const variant = value as Record<string, unknown>;
+  return typeof variant.subject_line === 'string' && variant.subject_line.trim() !== '' &&
+    typeof variant.preview_text === 'string';
+}
+
+export function isSameVariant(a: SubjectVariant, b: SubjectVariant): boolean {
+  return a.subject_line.trim() === b.subject_line.trim() && a.preview_text.trim() === b.preview_text.trim();
+}
+
+// Unique, well-formed variants, with `first` leading the list when given
+export function normalizeSubjectVariants(variants: unknown, first?: SubjectVariant): SubjectVariant[] {
+  const candidates = [first, ...(Array.isArray(variants) ? variants : [])];
+  const result: SubjectVariant[] = [];
+  for (const candidate of candidates) {
+    if (!isSubjectVariant(candidate)) continue;
+    const variant = { subject_line: candidate.subject_line.trim(), preview_text: candidate.preview_text.trim() };
+    if (!result.some((existing) => isSameVariant(existing, variant))) {
+      result.push(variant);
+    }
+  }
+  return result.slice(0, MAX_SUBJECT_VARIANTS);
+}
+
+export function subjectVariantsFromArticle(article: NewsletterArticle): SubjectVariant[] {
+  return normalizeSubjectVariants(article.subject_variants, {
+    subject_line: article.subject_line || '',
+    preview_text: article.preview_text || '',
+  });
+}
+
+// The pair in use always shows up, even after the user edited or revised it
+export function getSubjectVariants(newsletter: Pick<Newsletter, 'subject_line' | 'preview_text' | 'subject_variants'>): SubjectVariant[] {
+  const inUse = { subject_line: newsletter.subject_line, preview_text: newsletter.preview_text };
+  const variants = normalizeSubjectVariants(newsletter.subject_variants);
+  return variants.some((variant) => isSameVariant(variant, inUse))
+    ? variants
+    : normalizeSubjectVariants(variants.slice(0, MAX_SUBJECT_VARIANTS - 1), inUse);
+}
+
+export function checkSubjectVariant(variant: SubjectVariant): SubjectLengthCheck[] {
+  const checks: SubjectLengthCheck[] = [];
+  const subjectLength = variant.subject_line.trim().length;
+  const previewLength = variant.preview_text.trim().length;
+
+  if (subjectLength > SUBJECT_LINE_DESKTOP_LIMIT) {
+    checks.push({
+      field: 'subject_line',
+      level: 'error',
+      message: `Cut off in most inboxes after ${SUBJECT_LINE_DESKTOP_LIMIT} characters`,
+    });
+  } else if (subjectLength > SUBJECT_LINE_MOBILE_LIMIT) {
+    checks.push({
+      field: 'subject_line',
+      level: 'warning',
+      message: `Cut off on phones after about ${SUBJECT_LINE_MOBILE_LIMIT} characters`,
+    });
+  }
+
+  if (previewLength === 0) {
+    checks.push({
+      field: 'preview_text',
+      level: 'error',
+      message: 'Missing, so inboxes show the opening text of the email instead',
+    });
+  } else if (previewLength < PREVIEW_TEXT_MIN_LENGTH) {
+    checks.push({
+      field: 'preview_text',
+      level: 'warning',
+      message: `Under ${PREVIEW_TEXT_MIN_LENGTH} characters, so the email's opening text fills the rest`,
+    });
+  } else if (previewLength > PREVIEW_TEXT_MOBILE_LIMIT) {
+    checks.push({
+      field: 'preview_text',
+      level: 'warning',
+      message: `Phones show about the first ${PREVIEW_TEXT_MOBILE_LIMIT} characters`,
+    });
+  }
+
+  return checks;
+}
+
+// A, B, C, ... as ESPs label test versions
+export function variantLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+// Text starting with = + - @ (or a tab / carriage return) would run as a
+// formula when the file is opened in a spreadsheet, so it gets a leading '
+// as OWASP recommends for CSV injection
+function csvCell(value: string | number): string {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per variant, ready to paste into an ESP's A/B test setup
+export function buildSubjectTestCsv(newsletter: Newsletter): string {
+  const header = ['variant', 'subject_line', 'preview_text', 'subject_length', 'preview_length', 'in_use'];
+  const rows = getSubjectVariants(newsletter).map((variant, index) => [
+    variantLabel(index),
+    variant.subject_line,
+    variant.preview_text,
+    variant.subject_line.length,
+    variant.preview_text.length,
+    isSameVariant(variant, newsletter) ? 'yes' : 'no',
+  ]);
+
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n');
+}
+
+export function getSubjectTestFileName(newsletter: Pick<Newsletter, 'title' | 'newsletter_number'>): string {
+  const slug = newsletter.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, 60)
+    .replace(/^-|-$/g, '');
+  return `${slug || `newsletter-${newsletter.newsletter_number}`}.subject-test.csv`;
+}
+
+export function downloadSubjectTestCsv(newsletter: Newsletter): void {
+  const blob = new Blob([buildSubjectTestCsv(newsletter)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = getSubjectTestFileName(newsletter);
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,172 @@
+import { supabase, TABLES, getAccessTokenFromStorage, getAccessToken } from '../lib/supabase';
+import type { ApiError, Subscription, SubscriptionPlan, SubscriptionStatus } from '../types';
+
+// Check if we're in demo mode (no Supabase configured)
+const isDemoMode = !import.meta.env.VITE_SUPABASE_URL ||
+                   import.meta.env.VITE_SUPABASE_URL === 'https://placeholder.supabase.co';
+
+const DEMO_GENERATIONS_LIMIT = 20;
+const DEMO_PERIOD_DAYS = 30;
+
+// In-memory storage for demo mode
+let demoSubscriptions: Subscription[] = [];
+
+function createDemoSubscription(userId: string): Subscription {
+  const now = new Date();
+  const periodEnd = new Date(now.getTime() + DEMO_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+  return {
+    id: 'demo-sub-' + userId,
+    user_id: userId,
+    stripe_customer_id: null,
+    stripe_subscription_id: null,
+    stripe_price_id: null,
+    stripe_event_at: null,
+    plan_name: 'starter' as SubscriptionPlan,
+    status: 'active' as SubscriptionStatus,
+    current_period_start: now.toISOString(),
+    current_period_end: periodEnd.toISOString(),
+    cancel_at: null,
+    canceled_at: null,
+    generations_this_period: 0,
+    generations_limit: DEMO_GENERATIONS_LIMIT,
+    trial_ends_at: null,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+  };
+}
+
+function getDemoSubscription(userId: string): Subscription {
+  let subscription = demoSubscriptions.find(s => s.user_id === userId);
+  if (!subscription) {
+    subscription = createDemoSubscription(userId);
+    demoSubscriptions = [...demoSubscriptions, subscription];
+  }
+  return subscription;
+}
+
+// Whether the stored period has ended. The server rolls the period over on
+// the next generation, so until then the usage counter is stale.
+export function isPeriodExpired(subscription: Subscription): boolean {
+  return new Date(subscription.current_period_end).getTime() <= Date.now();
+}
+
+export function getGenerationsUsed(subscription: Subscription): number {
+  if (isPeriodExpired(subscription)) return 0;
+  return subscription.generations_this_period || 0;
+}
+
+export function getRemainingGenerations(subscription: Subscription): number {
+  return Math.max(0, subscription.generations_limit - getGenerationsUsed(subscription));
+}
+
+export async function getSubscription(userId: string): Promise<Subscription | null> {
+  if (isDemoMode) {
+    return getDemoSubscription(userId);
+  }
+
+  // Use direct fetch API to avoid Supabase client hanging
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase configuration missing');
+  }
+
+  const accessToken = getAccessTokenFromStorage();
+  if (!accessToken) {
+    throw new Error('No valid session - please sign in again');
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 30000);
+
+  try {
+    const response = await fetch(
+      `${supabaseUrl}/rest/v1/${TABLES.SUBSCRIPTIONS}?user_id=eq.${userId}&select=*`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': supabaseKey,
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        signal: controller.signal,
+      }
+    );
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('getSubscription: Error response:', errorText);
+      throw new Error(`Supabase fetch failed: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    return (data[0] as Subscription) || null;
+  } catch (err) {
+    clearTimeout(timeoutId);
+    if (err instanceof Error && err.name === 'AbortError') {
+      console.error('getSubscription: Request timed out after 30s');
+      throw new Error('Request timed out - please try again');
+    }
+    throw err;
+  }
+}
+
+// Mirror of claim_generation_quota for demo mode. Throws when the limit is reached.
+export function claimDemoGeneration(userId: string): void {
+  const subscription = getDemoSubscription(userId);
+
+  if (isPeriodExpired(subscription)) {
+    const fresh = createDemoSubscription(userId);
+    subscription.current_period_start = fresh.current_period_start;
+    subscription.current_period_end = fresh.current_period_end;
+    subscription.generations_this_period = 0;
+  }
+
+  if (subscription.generations_this_period >= subscription.generations_limit) {
+    throw new Error('Generation limit reached');
+  }
+
+  subscription.generations_this_period += 1;
+  subscription.updated_at = new Date().toISOString();
+}
+
+// POST to one of the billing routes and return the Stripe-hosted URL to redirect to
+async function requestBillingUrl(path: string, body: Record<string, unknown>): Promise<string> {
+  if (isDemoMode) {
+    throw new Error('Billing is not available in demo mode');
+  }
+
+  const accessToken = await getAccessToken();
+
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || !data.url) {
+    const error = data as Partial<ApiError>;
+    console.error(`requestBillingUrl: Error response from ${path}:`, error);
+    throw new Error(error.error || `Billing request failed: ${response.status}`);
+  }
+
+  return data.url as string;
+}
+
+// Start a Stripe Checkout session for a plan. Resolves with the checkout URL.
+export function createCheckoutSession(plan: SubscriptionPlan): Promise<string> {
+  return requestBillingUrl('/api/create-checkout-session', { plan });
+}
+
+// Open the Stripe customer portal, optionally straight into the plan change or cancel flow
+export function createPortalSession(flow?: 'update' | 'cancel'): Promise<string> {
+  return requestBillingUrl('/api/create-portal-session', flow ? { flow } : {});
+}
@@ -0,0 +1,629 @@
+import {
+  ParagraphPattern,
+  SentenceStyle,
+  type VoiceProfileFormData,
+  type WritingSample,
+} from '../types.js';
+
+// Local, deterministic analysis of a profile's writing samples. Pure functions
+// only, so the same samples always give the same numbers in the browser and in
+// the /api routes.
+
+export interface SampleAnalysis {
+  sample_count: number;
+  word_count: number;
+  sentence_count: number;
+  paragraph_count: number;
+
+  sentence_length: {
+    average: number;
+    median: number;
+    std_dev: number;
+    // Interquartile range, used as "most sentences run X-Y words"
+    p25: number;
+    p75: number;
+    short_ratio: number; // <= 8 words
+    long_ratio: number; // >= 25 words
+  };
+
+  // Share of paragraphs by sentence count
+  paragraphs: {
+    average_sentences: number;
+    single_sentence_ratio: number;
+    two_to_three_ratio: number;
+    four_plus_ratio: number;
+  };
+
+  // Occurrences per 100 sentences
+  frequency: {
+    questions: number;
+    numbers: number;
+    metaphors: number;
+    anecdotes: number;
+    humor: number;
+  };
+
+  readability: {
+    flesch_reading_ease: number;
+    flesch_kincaid_grade: number;
+  };
+
+  formatting: {
+    headings: boolean;
+    bullet_lists: boolean;
+    section_breaks: boolean;
+    emoji: boolean;
+  };
+
+  // Recurring 3-5 word phrases, most frequent first
+  top_phrases: Array<{ phrase: string; count: number }>;
+}
+
+export type VoiceSuggestions = Pick<
+  VoiceProfileFormData,
+  | 'sentence_style'
+  | 'paragraph_pattern'
+  | 'uses_questions'
+  | 'uses_data'
+  | 'uses_anecdotes'
+  | 'uses_metaphors'
+  | 'uses_humor'
+  | 'common_phrases'
+>;
+
+// Below this the numbers are too noisy to propose anything
+export const MIN_SENTENCES_FOR_ANALYSIS = 5;
+
+const MAX_TOP_PHRASES = 8;
+const MAX_SUGGESTED_PHRASES = 5;
+
+// Signals per 100 sentences above which a uses_* flag is proposed
+const QUESTION_THRESHOLD = 5;
+const NUMBER_THRESHOLD = 10;
+const METAPHOR_THRESHOLD = 2;
+const ANECDOTE_THRESHOLD = 3;
+const HUMOR_THRESHOLD = 2;
+
+const METAPHOR_PATTERN = /\b(like an?|as if|as though|is like|are like|think of (it|this) as|imagine)\b/i;
+const ANECDOTE_PATTERN =
+  /\b(I|we) (was|were|had|remember|learned|realized|spent|started|met|once|used to)\b|\b(last (week|month|year)|years ago|a few (days|weeks|months) ago|when I was)\b/i;
+const HUMOR_PATTERN = /\b(lol|haha|kidding|joke|jk)\b|😂|🤣|😅|;\)|:\)/i;
+const NUMBER_PATTERN = /\d|%|\$|€|£/;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/u;
+
+// Phrases may not start or end with these, so "of the" style fragments drop out
+const EDGE_STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'for', 'with',
+  'at', 'by', 'from', 'is', 'are', 'was', 'were', 'be', 'it', 'that', 'this',
+  'as', 'so', 'if', 'than', 'then', 'into', 'your', 'my', 'our', 'their', 'its',
+]);
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function ratio(part: number, total: number): number {
+  return total > 0 ? round(part / total, 2) : 0;
+}
+
+function per100(count: number, sentences: number): number {
+  return sentences > 0 ? round((count / sentences) * 100) : 0;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round((sorted.length - 1) * p)));
+  return sorted[index];
+}
+
+// Strip markdown syntax that would otherwise count as words
+function cleanMarkdown(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/`[^`]*`/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[*_~]{1,3}([^*_~]+)[*_~]{1,3}/g, '$1')
+    .replace(/^\s*>\s?/gm, '');
+}
+
+function isStructuralLine(line: string): boolean {
+  return /^\s*#{1,6}\s/.test(line) || /^\s*([-*_])\1{2,}\s*$/.test(line);
+}
+
+function splitParagraphs(text: string): string[] {
+  const blocks = text.split(/\n\s*\n/);
+  // Tweets and emails often use single line breaks between paragraphs
+  const parts = blocks.length === 1 ? text.split(/\n/) : blocks;
+
+  return parts
+    .map((block) =>
+      block
+        .split('\n')
+        .filter((line) => !isStructuralLine(line))
+        .map((line) => line.replace(/^\s*([-*+]|\d+[.)])\s+/, ''))
+        .join(' ')
+        .trim()
+    )
+    .filter((block) => block.length > 0);
+}
+
+function splitSentences(paragraph: string): string[] {
+  const matches = paragraph.match(/[^.!?…]+(?:[.!?…]+["'”’)\]]*|$)/g) || [];
+  return matches.map((s) => s.trim()).filter((s) => tokenize(s).length > 0);
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) || [];
+}
+
+// Vowel-group heuristic; good enough for readability scores
+function countSyllables(word: string): number {
+  const lower = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (lower.length === 0) return 1;
+  if (lower.length <= 3) return 1;
+
+  const groups = lower.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups ? groups.length : 1);
+}
+
+function findTopPhrases(sentences: string[]): Array<{ phrase: string; count: number }> {
+  const counts = new Map<string, { phrase: string; count: number; n: number }>();
+
+  for (const sentence of sentences) {
+    const words = tokenize(sentence);
+    const lower = words.map((w) => w.toLowerCase().replace(/’/g, "'"));
+    // Count each phrase once per sentence so a repeated word run doesn't dominate
+    const seen = new Set<string>();
+
+    for (let n = 3; n <= 5; n++) {
+      for (let i = 0; i + n <= words.length; i++) {
+        const slice = lower.slice(i, i + n);
+        if (EDGE_STOPWORDS.has(slice[0]) || EDGE_STOPWORDS.has(slice[n - 1])) continue;
+
+        const key = slice.join(' ');
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const entry = counts.get(key);
+        if (entry) {
+          entry.count += 1;
+        } else {
+          counts.set(key, { phrase: words.slice(i, i + n).join(' '), count: 1, n });
+        }
+      }
+    }
+  }
+
+  const recurring = [...counts.entries()].filter(([, entry]) => entry.count >= 2);
+
+  // Drop phrases that only ever appear inside a longer recurring phrase: mark
+  // every shorter run inside each recurring phrase, keyed with its count
+  const covered = new Set<string>();
+  for (const [key, entry] of recurring) {
+    const words = key.split(' ');
+    for (let n = 3; n < entry.n; n++) {
+      for (let i = 0; i + n <= words.length; i++) {
+        covered.add(`${entry.count}|${words.slice(i, i + n).join(' ')}`);
+      }
+    }
+  }
+  const kept = recurring.filter(([key, entry]) => !covered.has(`${entry.count}|${key}`));
+
+  return kept
+    .sort(([keyA, a], [keyB, b]) => b.count - a.count || b.n - a.n || keyA.localeCompare(keyB))
+    .slice(0, MAX_TOP_PHRASES)
+    .map(([, entry]) => ({ phrase: entry.phrase, count: entry.count }));
+}
+
+// Words in a markdown text, headings included. Markdown syntax, links and
+// code don't count.
+export function countWords(markdown: string): number {
+  return tokenize(cleanMarkdown(markdown)).length;
+}
+
+export function analyzeSamples(samples: WritingSample[]): SampleAnalysis | null {
+  const texts = samples.map((s) => s.text || '').filter((t) => t.trim().length > 0);
+  if (texts.length === 0) return null;
+
+  const paragraphs: string[][] = [];
+  let headings = false;
+  let bulletLists = false;
+  let sectionBreaks = false;
+  let emoji = false;
+
+  for (const raw of texts) {
+    headings = headings || /^\s*#{1,6}\s/m.test(raw);
+    bulletLists = bulletLists || /^\s*([-*+]|\d+[.)])\s+\S/m.test(raw);
+    sectionBreaks = sectionBreaks || /^\s*([-*_])\1{2,}\s*$/m.test(raw);
+    emoji = emoji || EMOJI_PATTERN.test(raw);
+
+    for (const paragraph of splitParagraphs(cleanMarkdown(raw))) {
+      const sentences = splitSentences(paragraph);
+      if (sentences.length > 0) paragraphs.push(sentences);
+    }
+  }
+
+  const sentences = paragraphs.flat();
+  if (sentences.length === 0) return null;
+
+  const lengths = sentences.map((s) => tokenize(s).length);
+  const sortedLengths = [...lengths].sort((a, b) => a - b);
+  const wordCount = lengths.reduce((sum, n) => sum + n, 0);
+  const average = wordCount / sentences.length;
+  const variance = lengths.reduce((sum, n) => sum + (n - average) ** 2, 0) / lengths.length;
+  const syllables = sentences
+    .flatMap((s) => tokenize(s))
+    .reduce((sum, word) => sum + countSyllables(word), 0);
+
+  const wordsPerSentence = wordCount / sentences.length;
+  const syllablesPerWord = wordCount > 0 ? syllables / wordCount : 0;
+  const paragraphSizes = paragraphs.map((p) => p.length);
+
+  const count = (pattern: RegExp) => sentences.filter((s) => pattern.test(s)).length;
+
+  return {
+    sample_count: texts.length,
+    word_count: wordCount,
+    sentence_count: sentences.length,
+    paragraph_count: paragraphs.length,
+    sentence_length: {
+      average: round(average),
+      median: percentile(sortedLengths, 0.5),
+      std_dev: round(Math.sqrt(variance)),
+      p25: percentile(sortedLengths, 0.25),
+      p75: percentile(sortedLengths, 0.75),
+      short_ratio: ratio(lengths.filter((n) => n <= 8).length, lengths.length),
+      long_ratio: ratio(lengths.filter((n) => n >= 25).length, lengths.length),
+    },
+    paragraphs: {
+      average_sentences: round(sentences.length / paragraphs.length),
+      single_sentence_ratio: ratio(paragraphSizes.filter((n) => n === 1).length, paragraphs.length),
+      two_to_three_ratio: ratio(paragraphSizes.filter((n) => n >= 2 && n <= 3).length, paragraphs.length),
+      four_plus_ratio: ratio(paragraphSizes.filter((n) => n >= 4).length, paragraphs.length),
+    },
+    frequency: {
+      questions: per100(sentences.filter((s) => s.includes('?')).length, sentences.length),
+      numbers: per100(count(NUMBER_PATTERN), sentences.length),
+      metaphors: per100(count(METAPHOR_PATTERN), sentences.length),
+      anecdotes: per100(count(ANECDOTE_PATTERN), sentences.length),
+      humor: per100(count(HUMOR_PATTERN), sentences.length),
+    },
+    readability: {
+      flesch_reading_ease: round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord),
+      flesch_kincaid_grade: round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59),
+    },
+    formatting: {
+      headings,
+      bullet_lists: bulletLists,
+      section_breaks: sectionBreaks,
+      emoji,
+    },
+    top_phrases: findTopPhrases(sentences),
+  };
+}
+
+export function hasEnoughSamples(analysis: SampleAnalysis | null): analysis is SampleAnalysis {
+  return !!analysis && analysis.sentence_count >= MIN_SENTENCES_FOR_ANALYSIS;
+}
+
+// Proposed questionnaire values. Phrases the user already listed are kept and
+// new recurring phrases are appended after them.
+export function suggestVoiceSettings(
+  analysis: SampleAnalysis,
+  current: Pick<VoiceProfileFormData, 'common_phrases' | 'avoid_phrases'>
+): VoiceSuggestions {
+  const { sentence_length, paragraphs, frequency } = analysis;
+
+  const sentenceStyle = sentence_length.average < 12
+    ? SentenceStyle.Short
+    : sentence_length.average > 20
+      ? SentenceStyle.Flowing
+      : SentenceStyle.Mixed;
+
+  const paragraphPattern = paragraphs.average_sentences <= 3
+    ? ParagraphPattern.ShortMixed
+    : paragraphs.average_sentences >= 4.5
+      ? ParagraphPattern.LongFlowing
+      : ParagraphPattern.Varied;
+
+  const known = new Set(
+    [...current.common_phrases, ...current.avoid_phrases].map((p) => p.toLowerCase().trim())
+  );
+  const newPhrases = analysis.top_phrases
+    .map((p) => p.phrase)
+    .filter((phrase) => !known.has(phrase.toLowerCase()))
+    .slice(0, MAX_SUGGESTED_PHRASES);
+
+  return {
+    sentence_style: sentenceStyle,
+    paragraph_pattern: paragraphPattern,
+    uses_questions: frequency.questions >= QUESTION_THRESHOLD,
+    uses_data: frequency.numbers >= NUMBER_THRESHOLD,
+    uses_anecdotes: frequency.anecdotes >= ANECDOTE_THRESHOLD,
+    uses_metaphors: frequency.metaphors >= METAPHOR_THRESHOLD,
+    uses_humor: frequency.humor >= HUMOR_THRESHOLD,
+    common_phrases: [...current.common_phrases, ...newPhrases],
+  };
+}
+
+const FORMALITY_LINES: Record<number, string> = {
+  1: 'Very casual - write like you are talking to a friend',
+  2: 'Casual and conversational - contractions are fine',
+  3: 'Professional but conversational - no corporate jargon',
+  4: 'Polished and professional',
+  5: 'Formal and precise',
+};
+
+const DETAIL_LINES: Record<number, string> = {
+  1: 'Keep it brief - one idea per section, no deep dives',
+  2: 'Favor brevity over detail',
+  3: 'Balance quick takeaways with supporting detail',
+  4: 'Go into detail and explain the reasoning',
+  5: 'Be comprehensive - cover the nuance and edge cases',
+};
+
+const VOCABULARY_LINES: Record<string, string> = {
+  simple: 'Use plain, everyday words',
+  professional: 'Use clear professional vocabulary without jargon',
+  academic: 'Use precise, technical vocabulary where it helps',
+};
+
+const SENTENCE_STYLE_LINES: Record<string, string> = {
+  short: 'Use short, punchy sentences',
+  mixed: 'Use short, punchy sentences mixed with occasional longer explanations',
+  flowing: 'Use longer, flowing sentences that build on each other',
+};
+
+const PARAGRAPH_LINES: Record<string, string> = {
+  short_mixed: 'Start new paragraphs every 1-3 sentences',
+  long_flowing: 'Write full paragraphs of 4-6 sentences',
+  varied: 'Vary paragraph length between 2 and 5 sentences',
+};
+
+// Assemble the voice instructions in the format from data_guide.md
+// ("Voice Prompt Example"). Sections without content are left out.
+export function buildVoicePrompt(
+  formData: VoiceProfileFormData,
+  analysis: SampleAnalysis | null
+): string {
+  const stats = hasEnoughSamples(analysis) ? analysis : null;
+  const tone = formData.tone.length > 0 ? formData.tone.join(', ') : 'clear';
+  const newsletter = formData.newsletter_name ? ` for "${formData.newsletter_name}"` : '';
+
+  const sections: string[] = [`You are writing as a ${tone} newsletter creator${newsletter}.`];
+
+  sections.push([
+    'TONE & STYLE:',
+    `- Tone: ${tone}`,
+    `- ${FORMALITY_LINES[formData.formality] || FORMALITY_LINES[3]}`,
+    `- ${DETAIL_LINES[formData.detail_level] || DETAIL_LINES[3]}`,
+    `- ${VOCABULARY_LINES[formData.vocabulary_level] || VOCABULARY_LINES.professional}`,
+    `- ${SENTENCE_STYLE_LINES[formData.sentence_style] || SENTENCE_STYLE_LINES.mixed}`,
+  ].join('\n'));
+
+  const structure = ['SENTENCE STRUCTURE:'];
+  if (stats) {
+    structure.push(`- Average sentence length: ${Math.round(stats.sentence_length.average)} words`);
+    structure.push(`- Most sentences run ${stats.sentence_length.p25}-${stats.sentence_length.p75} words`);
+  }
+  structure.push(`- ${PARAGRAPH_LINES[formData.paragraph_pattern] || PARAGRAPH_LINES.varied}`);
+  if (formData.paragraph_pattern === ParagraphPattern.ShortMixed || (stats && stats.paragraphs.single_sentence_ratio >= 0.15)) {
+    structure.push('- Use one-sentence paragraphs for emphasis');
+  }
+  sections.push(structure.join('\n'));
+
+  if (formData.common_phrases.length > 0) {
+    sections.push(['COMMON PHRASES TO USE:', ...formData.common_phrases.map((p) => `- "${p}"`)].join('\n'));
+  }
+
+  if (formData.avoid_phrases.length > 0) {
+    sections.push(['NEVER USE THESE PHRASES:', ...formData.avoid_phrases.map((p) => `- "${p}"`)].join('\n'));
+  }
+
+  const questionRate = stats ? ` (about ${Math.max(1, Math.round(stats.frequency.questions / 10))} per 10 sentences)` : '';
+  sections.push([
+    'CONTENT PATTERNS:',
+    formData.uses_data ? '- Support claims with specific numbers' : '- Keep numbers and statistics to a minimum',
+    formData.uses_questions ? `- Use questions to engage the reader${questionRate}` : '- Avoid rhetorical questions',
+    formData.uses_anecdotes ? '- Draw on personal anecdotes and first-hand experience' : '- Rarely use personal anecdotes',
+    formData.uses_metaphors ? '- Explain ideas with metaphors and analogies' : '- Prefer literal explanations over metaphors',
+    formData.uses_humor ? '- Add light humor where it fits' : '- Keep the writing free of jokes',
+    '- Focus on actionable insights',
+  ].join('\n'));
+
+  if (stats) {
+    sections.push([
+      'FORMATTING:',
+      stats.formatting.headings ? '- Use subheadings for main sections' : '- Avoid subheadings; let paragraphs carry the structure',
+      stats.formatting.bullet_lists ? '- Use bullet lists for steps and key points' : '- Prefer prose over bullet lists',
+      stats.formatting.emoji ? '- Emoji are fine in moderation' : '- No emoji',
+      stats.formatting.section_breaks ? '- Use "---" for section breaks' : '- No section break lines',
+      `- Aim for a Flesch reading ease around ${Math.round(stats.readability.flesch_reading_ease)} (grade ${Math.round(stats.readability.flesch_kincaid_grade)})`,
+    ].join('\n'));
+  }
+
+  sections.push('Remember: Write as if YOU discovered these insights. Never attribute to the source material.');
+
+  return sections.join('\n\n');
+}
+
+// Derived columns saved alongside the questionnaire on every create and update
+// Pass the analysis when the caller already has it for these samples
+export function buildAnalysisFields(
+  formData: VoiceProfileFormData,
+  analysis: SampleAnalysis | null = analyzeSamples(formData.samples || [])
+): { avg_sentence_length: number | null; voice_prompt: string } {
+  return {
+    avg_sentence_length: hasEnoughSamples(analysis) ? analysis.sentence_length.average : null,
+    voice_prompt: buildVoicePrompt(formData, analysis),
+  };
+}
+
+// Topic used for every test paragraph so previews of different profiles compare
+export const PREVIEW_TOPIC = 'why publishing consistently beats publishing perfectly';
+
+// Deterministic stand-in for an AI-written preview, used when no preview
+// workflow is configured. Each setting switches a sentence on or off so the
+// effect of the questionnaire is still visible.
+export function buildLocalVoicePreview(formData: VoiceProfileFormData): string {
+  const isCasual = formData.formality <= 2;
+  const isShort = formData.sentence_style === SentenceStyle.Short;
+  const isFlowing = formData.sentence_style === SentenceStyle.Flowing;
+
+  const opener = formData.common_phrases[0]
+    ? `${formData.common_phrases[0].trim().replace(/[:.!?]*$/, ':')} consistency beats perfection.`
+    : 'Consistency beats perfection.';
+
+  const sentences: string[] = [opener];
+
+  if (isShort) {
+    sentences.push("Most newsletters don't die from bad ideas.", 'They die from silence.');
+  } else if (isFlowing) {
+    sentences.push(
+      'Most newsletters do not fail because the ideas are weak, but because the gaps between issues grow until readers quietly forget why they subscribed in the first place.'
+    );
+  } else {
+    sentences.push(
+      "Most newsletters don't die from bad ideas.",
+      'They fade because the gaps between issues grow until readers forget why they signed up.'
+    );
+  }
+
+  if (formData.uses_questions) {
+    sentences.push(isCasual ? 'So why do we keep waiting for the perfect issue?' : 'Why, then, do so many writers wait for the perfect issue?');
+  }
+  if (formData.uses_data) {
+    sentences.push('Writers who ship every week for a year keep roughly 3x more subscribers than those who publish in bursts.');
+  }
+  if (formData.uses_anecdotes) {
+    sentences.push('I learned this the hard way when I skipped three weeks and watched my open rate slide by a third.');
+  }
+  if (formData.uses_metaphors) {
+    sentences.push('Think of your list like a garden: it needs steady watering, not a flood once a month.');
+  }
+  if (formData.uses_humor) {
+    sentences.push('(My folder of half-finished drafts would like a word.)');
+  }
+
+  if (formData.detail_level >= 4) {
+    sentences.push(
+      isShort
+        ? 'Pick a day. Protect it. Ship whatever is ready.'
+        : 'Pick a fixed publishing day, protect it on your calendar, and ship whatever is ready when it arrives.'
+    );
+  }
+
+  sentences.push(isCasual ? 'Hit send on the imperfect issue.' : 'Publish on schedule, even when the issue feels unfinished.');
+
+  // Never show the user a phrase they told us to avoid
+  const avoid = formData.avoid_phrases.map((p) => p.toLowerCase().trim()).filter(Boolean);
+  return sentences
+    .filter((sentence) => !avoid.some((phrase) => sentence.toLowerCase().includes(phrase)))
+    .join(' ');
+}
+
+// Longest paragraph the wizard's rewrite preview accepts
+export const MAX_REWRITE_CHARS = 2000;
+
+const CONTRACTIONS: Array<[string, string]> = [
+  ['do not', "don't"],
+  ['does not', "doesn't"],
+  ['did not', "didn't"],
+  ['is not', "isn't"],
+  ['are not', "aren't"],
+  ['was not', "wasn't"],
+  ['cannot', "can't"],
+  ['will not', "won't"],
+  ['would not', "wouldn't"],
+  ['it is', "it's"],
+  ['that is', "that's"],
+  ['we are', "we're"],
+  ['you are', "you're"],
+  ['they are', "they're"],
+  ['I am', "I'm"],
+];
+
+// Sentences longer than this are split at clause boundaries for a short style
+const LONG_SENTENCE_WORDS = 15;
+// Runs of sentences this short are joined for a flowing style
+const SHORT_SENTENCE_WORDS = 8;
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function replaceWords(text: string, pairs: Array<[string, string]>): string {
+  return pairs.reduce(
+    (result, [from, to]) =>
+      result.replace(new RegExp(`\\b${from}\\b`, 'gi'), (match) => (/^[A-Z]/.test(match) ? capitalize(to) : to)),
+    text
+  );
+}
+
+function endSentence(text: string): string {
+  return /[.!?…]["'”’)\]]*$/.test(text) ? text : `${text}.`;
+}
+
+function splitLongSentence(sentence: string): string[] {
+  if (tokenize(sentence).length <= LONG_SENTENCE_WORDS) return [sentence];
+  return sentence
+    .split(/;\s+|,\s+(?=(?:and|but|so)\s)/i)
+    .map((part) => part.replace(/^(and|so)\s+/i, '').trim())
+    .filter(Boolean)
+    .map((part) => endSentence(capitalize(part)));
+}
+
+function joinShortSentences(sentences: string[]): string[] {
+  const joined: string[] = [];
+  for (const sentence of sentences) {
+    const previous = joined[joined.length - 1];
+    if (
+      previous &&
+      /\.$/.test(previous) &&
+      tokenize(previous).length <= SHORT_SENTENCE_WORDS &&
+      tokenize(sentence).length <= SHORT_SENTENCE_WORDS
+    ) {
+      const next = /^I\b/.test(sentence) ? sentence : sentence.charAt(0).toLowerCase() + sentence.slice(1);
+      joined[joined.length - 1] = `${previous.slice(0, -1)}, and ${next}`;
+    } else {
+      joined.push(sentence);
+    }
+  }
+  return joined;
+}
+
+// Deterministic stand-in for rewriting a user's paragraph in a voice, used when
+// no rewrite workflow is configured. Only mechanical settings apply: sentence
+// style, contractions for formality, the first signature phrase and avoided
+// phrases.
+export function buildLocalRewrite(paragraph: string, formData: VoiceProfileFormData): string {
+  let text = paragraph.replace(/\s+/g, ' ').trim();
+
+  if (formData.formality <= 2) {
+    text = replaceWords(text, CONTRACTIONS);
+  } else if (formData.formality >= 4) {
+    text = replaceWords(text.replace(/’/g, "'"), CONTRACTIONS.map(([full, short]) => [short, full]));
+  }
+
+  const avoid = formData.avoid_phrases.map((p) => p.toLowerCase().trim()).filter(Boolean);
+  let sentences = splitSentences(text)
+    .filter((sentence) => !avoid.some((phrase) => sentence.toLowerCase().includes(phrase)))
+    .map(endSentence);
+
+  if (formData.sentence_style === SentenceStyle.Short) {
+    sentences = sentences.flatMap(splitLongSentence);
+  } else if (formData.sentence_style === SentenceStyle.Flowing) {
+    sentences = joinShortSentences(sentences);
+  }
+
+  const opener = formData.common_phrases[0]?.trim().replace(/[:.!?]*$/, '');
+  if (opener && sentences.length > 0 && !text.toLowerCase().includes(opener.toLowerCase())) {
+    const first = sentences[0];
+    sentences[0] = `${opener}: ${/^I\b/.test(first) ? first : first.charAt(0).toLowerCase() + first.slice(1)}`;
+  }
+
+  return sentences.join(' ');
+}
@@ -0,0 +1,186 @@
+import { supabase, TABLES, getAccessTokenFromStorage } from '../lib/supabase';
+import type { VoiceExample, VoiceExampleInput, VoiceExampleType } from '../types';
+
+// Check if we're in demo mode (no Supabase configured)
+const isDemoMode = !import.meta.env.VITE_SUPABASE_URL ||
+                   import.meta.env.VITE_SUPABASE_URL === 'https://placeholder.supabase.co';
+
+// In-memory storage for demo mode
+let demoExamples: VoiceExample[] = [];
+
+// Generate a simple UUID for demo mode
+function generateId(): string {
+  return 'demo-' + Math.random().toString(36).substring(2, 15);
+}
+
+export async function getVoiceExamples(profileId: string): Promise<VoiceExample[]> {
+  if (isDemoMode) {
+    return demoExamples.filter(e => e.profile_id === profileId);
+  }
+
+  // Use direct fetch API to avoid Supabase client hanging
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase configuration missing');
+  }
+
+  const accessToken = getAccessTokenFromStorage();
+  if (!accessToken) {
+    throw new Error('No valid session - please sign in again');
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 30000);
+
+  try {
+    const response = await fetch(
+      `${supabaseUrl}/rest/v1/${TABLES.VOICE_EXAMPLES}?profile_id=eq.${profileId}&select=*&order=created_at.desc`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': supabaseKey,
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        signal: controller.signal,
+      }
+    );
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('getVoiceExamples: Error response:', errorText);
+      throw new Error(`Supabase fetch failed: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    return (data as VoiceExample[]) || [];
+  } catch (err) {
+    clearTimeout(timeoutId);
+    if (err instanceof Error && err.name === 'AbortError') {
+      console.error('getVoiceExamples: Request timed out after 30s');
+      throw new Error('Request timed out - please try again');
+    }
+    throw err;
+  }
+}
+
+function toExampleRow(input: VoiceExampleInput) {
+  const content = input.content.trim();
+  if (!content) {
+    throw new Error('Example content is required');
+  }
+
+  return {
+    profile_id: input.profile_id,
+    generation_id: input.generation_id || null,
+    newsletter_id: input.newsletter_id || null,
+    content,
+    example_type: input.example_type,
+    rating: input.rating ?? null,
+    feedback_text: input.feedback_text || null,
+  };
+}
+
+function toDemoExample(row: ReturnType<typeof toExampleRow>): VoiceExample {
+  return {
+    id: generateId(),
+    ...row,
+    learned_from: false,
+    created_at: new Date().toISOString(),
+  };
+}
+
+export async function createVoiceExample(input: VoiceExampleInput): Promise<VoiceExample> {
+  const row = toExampleRow(input);
+
+  if (isDemoMode) {
+    const example = toDemoExample(row);
+    demoExamples = [example, ...demoExamples];
+    return example;
+  }
+
+  const { data, error } = await supabase
+    .from(TABLES.VOICE_EXAMPLES)
+    .insert(row)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating voice example:', error);
+    throw error;
+  }
+
+  return data as VoiceExample;
+}
+
+// Inserts all examples in one statement, so either every one is saved or none is
+export async function createVoiceExamples(inputs: VoiceExampleInput[]): Promise<VoiceExample[]> {
+  const rows = inputs.map(toExampleRow);
+  if (rows.length === 0) return [];
+
+  if (isDemoMode) {
+    const examples = rows.map(toDemoExample);
+    demoExamples = [...examples, ...demoExamples];
+    return examples;
+  }
+
+  const { data, error } = await supabase
+    .from(TABLES.VOICE_EXAMPLES)
+    .insert(rows)
+    .select();
+
+  if (error) {
+    console.error('Error creating voice examples:', error);
+    throw error;
+  }
+
+  return data as VoiceExample[];
+}
+
+export async function updateVoiceExampleType(
+  exampleId: string,
+  exampleType: VoiceExampleType
+): Promise<VoiceExample> {
+  if (isDemoMode) {
+    const index = demoExamples.findIndex(e => e.id === exampleId);
+    if (index === -1) throw new Error('Example not found');
+
+    demoExamples[index] = { ...demoExamples[index], example_type: exampleType };
+    return demoExamples[index];
+  }
+
+  const { data, error } = await supabase
+    .from(TABLES.VOICE_EXAMPLES)
+    .update({ example_type: exampleType })
+    .eq('id', exampleId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating voice example:', error);
+    throw error;
+  }
+
+  return data as VoiceExample;
+}
+
+export async function deleteVoiceExample(exampleId: string): Promise<void> {
+  if (isDemoMode) {
+    demoExamples = demoExamples.filter(e => e.id !== exampleId);
+    return;
+  }
+
+  const { error } = await supabase
+    .from(TABLES.VOICE_EXAMPLES)
+    .delete()
+    .eq('id', exampleId);
+
+  if (error) {
+    console.error('Error deleting voice example:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,208 @@
+import { SentenceStyle, type VoiceProfile } from '../types.js';
+import { analyzeSamples, hasEnoughSamples } from './voiceAnalysisService.js';
+
+// Checks a generated article against the profile it was written with: avoided
+// and signature phrases, sentence length and the formatting habits of the
+// writing samples. Pure functions, so the same article always gets the same
+// score in the browser and in the /api routes.
+
+export type VoiceLintRule =
+  | 'avoid_phrase'
+  | 'signature_phrase'
+  | 'sentence_length'
+  | 'emoji'
+  | 'headings'
+  | 'bullet_lists'
+  | 'section_breaks'
+  | 'questions';
+
+export interface VoiceLintIssue {
+  rule: VoiceLintRule;
+  severity: 'error' | 'warning';
+  message: string;
+  // Points taken off the voice match score
+  penalty: number;
+}
+
+// Character range in the article markdown
+export interface VoiceLintHighlight {
+  start: number;
+  end: number;
+  kind: 'avoid_phrase' | 'signature_phrase' | 'emoji' | 'question';
+}
+
+export interface VoiceLintResult {
+  // 0-100, 100 when no rule is broken
+  score: number;
+  issues: VoiceLintIssue[];
+  highlights: VoiceLintHighlight[];
+  signature_phrases: Array<{ phrase: string; count: number }>;
+  avg_sentence_length: number | null;
+  target_sentence_length: number | null;
+}
+
+export type VoiceLintProfile = Pick<
+  VoiceProfile,
+  'avoid_phrases' | 'common_phrases' | 'avg_sentence_length' | 'sentence_style' | 'uses_questions' | 'samples'
+>;
+
+// Typical average when the samples were too short to measure one
+const STYLE_SENTENCE_LENGTH: Record<string, number> = {
+  [SentenceStyle.Short]: 10,
+  [SentenceStyle.Mixed]: 16,
+  [SentenceStyle.Flowing]: 24,
+};
+
+// Averages within this share of the target count as a match
+const SENTENCE_LENGTH_TOLERANCE = 0.25;
+
+const AVOID_PHRASE_PENALTY = 15;
+const MAX_AVOID_PHRASE_PENALTY = 45;
+const SIGNATURE_PHRASE_PENALTY = 10;
+const MAX_SENTENCE_LENGTH_PENALTY = 20;
+const EMOJI_PENALTY = 10;
+const FORMATTING_PENALTY = 5;
+const QUESTIONS_PENALTY = 5;
+
+const EMOJI_GLOBAL_PATTERN = /\p{Extended_Pictographic}/gu;
+// A question sentence, from the previous sentence end or line break to the "?"
+const QUESTION_GLOBAL_PATTERN = /[^.!?\n]*\?/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Case-insensitive, whole words where the phrase starts or ends with a word
+// character, and straight or curly apostrophes alike
+function phrasePattern(phrase: string): RegExp {
+  const body = escapeRegExp(phrase.trim()).replace(/['’]/g, "['’]").replace(/\s+/g, '\\s+');
+  const start = /^\w/.test(phrase.trim()) ? '\\b' : '';
+  const end = /\w$/.test(phrase.trim()) ? '\\b' : '';
+  return new RegExp(`${start}${body}${end}`, 'gi');
+}
+
+function findAll(content: string, pattern: RegExp): Array<{ start: number; end: number }> {
+  return [...content.matchAll(pattern)]
+    .filter((match) => match[0].trim().length > 0)
+    .map((match) => {
+      // Don't highlight the whitespace a question match starts with
+      const leading = match[0].length - match[0].trimStart().length;
+      return { start: match.index! + leading, end: match.index! + match[0].length };
+    });
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+export function lintArticle(content: string, profile: VoiceLintProfile): VoiceLintResult {
+  const issues: VoiceLintIssue[] = [];
+  const highlights: VoiceLintHighlight[] = [];
+
+  // Avoided phrases
+  let avoidPenalty = 0;
+  for (const phrase of profile.avoid_phrases.filter((p) => p.trim())) {
+    const hits = findAll(content, phrasePattern(phrase));
+    if (hits.length === 0) continue;
+    highlights.push(...hits.map((hit) => ({ ...hit, kind: 'avoid_phrase' as const })));
+    const penalty = Math.min(AVOID_PHRASE_PENALTY * hits.length, MAX_AVOID_PHRASE_PENALTY - avoidPenalty);
+    avoidPenalty += penalty;
+    issues.push({
+      rule: 'avoid_phrase',
+      severity: 'error',
+      message: `Uses "${phrase}" ${hits.length === 1 ? 'once' : `${hits.length} times`}`,
+      penalty,
+    });
+  }
+
+  // Signature phrases
+  const signaturePhrases = profile.common_phrases
+    .filter((p) => p.trim())
+    .map((phrase) => {
+      const hits = findAll(content, phrasePattern(phrase));
+      highlights.push(...hits.map((hit) => ({ ...hit, kind: 'signature_phrase' as const })));
+      return { phrase, count: hits.length };
+    });
+  if (signaturePhrases.length > 0 && signaturePhrases.every((p) => p.count === 0)) {
+    issues.push({
+      rule: 'signature_phrase',
+      severity: 'warning',
+      message: 'None of your signature phrases appear',
+      penalty: SIGNATURE_PHRASE_PENALTY,
+    });
+  }
+
+  // Sentence length
+  const article = analyzeSamples([{ text: content, source: 'newsletter' }]);
+  const average = article ? article.sentence_length.average : null;
+  const target = profile.avg_sentence_length ?? STYLE_SENTENCE_LENGTH[profile.sentence_style] ?? null;
+  if (average !== null && target) {
+    const deviation = Math.abs(average - target) / target;
+    if (deviation > SENTENCE_LENGTH_TOLERANCE) {
+      issues.push({
+        rule: 'sentence_length',
+        severity: 'warning',
+        message: `Sentences average ${Math.round(average)} words, your voice averages ${Math.round(target)}`,
+        penalty: Math.min(MAX_SENTENCE_LENGTH_PENALTY, Math.round((deviation - SENTENCE_LENGTH_TOLERANCE) * 40)),
+      });
+    }
+  }
+
+  // Formatting rules only exist once the samples were long enough to measure
+  // (see the FORMATTING section of buildVoicePrompt)
+  const samples = analyzeSamples(profile.samples || []);
+  if (article && hasEnoughSamples(samples)) {
+    if (!samples.formatting.emoji) {
+      const emoji = findAll(content, EMOJI_GLOBAL_PATTERN);
+      if (emoji.length > 0) {
+        highlights.push(...emoji.map((hit) => ({ ...hit, kind: 'emoji' as const })));
+        issues.push({
+          rule: 'emoji',
+          severity: 'warning',
+          message: `${plural(emoji.length, 'emoji')}, but your samples use none`,
+          penalty: EMOJI_PENALTY,
+        });
+      }
+    }
+
+    const formattingRules: Array<{ rule: 'headings' | 'bullet_lists' | 'section_breaks'; label: string }> = [
+      { rule: 'headings', label: 'subheadings' },
+      { rule: 'bullet_lists', label: 'bullet lists' },
+      { rule: 'section_breaks', label: 'section break lines' },
+    ];
+    for (const { rule, label } of formattingRules) {
+      if (article.formatting[rule] && !samples.formatting[rule]) {
+        issues.push({
+          rule,
+          severity: 'warning',
+          message: `Uses ${label}, your samples don't`,
+          penalty: FORMATTING_PENALTY,
+        });
+      }
+    }
+  }
+
+  if (!profile.uses_questions) {
+    const questions = findAll(content, QUESTION_GLOBAL_PATTERN);
+    if (questions.length > 0) {
+      highlights.push(...questions.map((hit) => ({ ...hit, kind: 'question' as const })));
+      issues.push({
+        rule: 'questions',
+        severity: 'warning',
+        message: `${plural(questions.length, 'question')}, but this voice avoids rhetorical questions`,
+        penalty: QUESTIONS_PENALTY,
+      });
+    }
+  }
+
+  const penalty = issues.reduce((sum, issue) => sum + issue.penalty, 0);
+
+  return {
+    score: Math.max(0, 100 - penalty),
+    issues,
+    highlights: highlights.sort((a, b) => a.start - b.start || b.end - a.end),
+    signature_phrases: signaturePhrases,
+    avg_sentence_length: average,
+    target_sentence_length: target,
+  };
+}
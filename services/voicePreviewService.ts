@@ -0,0 +1,66 @@
+import { supabase, getAccessToken } from '../lib/supabase';
+import { buildLocalRewrite, buildLocalVoicePreview } from './voiceAnalysisService';
+import type { ApiError, VoicePreview, VoiceProfile, VoiceProfileFormData } from '../types';
+
+// Check if we're in demo mode (no Supabase configured)
+const isDemoMode = !import.meta.env.VITE_SUPABASE_URL ||
+                   import.meta.env.VITE_SUPABASE_URL === 'https://placeholder.supabase.co';
+
+// Write a short test paragraph with a saved profile (see /api/voice-preview)
+export async function generateVoicePreview(profile: VoiceProfile): Promise<VoicePreview> {
+  if (isDemoMode) {
+    return { paragraph: buildLocalVoicePreview(profile), source: 'local' };
+  }
+
+  const accessToken = await getAccessToken();
+
+  const response = await fetch('/api/voice-preview', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({ profile_id: profile.id }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || typeof data.paragraph !== 'string') {
+    const error = data as Partial<ApiError>;
+    console.error('generateVoicePreview: Error response:', error);
+    throw new Error(error.error || `Preview request failed: ${response.status}`);
+  }
+
+  return data as VoicePreview;
+}
+
+// Rewrite a paragraph with unsaved wizard settings (see /api/voice-rewrite)
+export async function rewriteParagraph(
+  formData: VoiceProfileFormData,
+  paragraph: string
+): Promise<VoicePreview> {
+  if (isDemoMode) {
+    return { paragraph: buildLocalRewrite(paragraph, formData), source: 'local' };
+  }
+
+  const accessToken = await getAccessToken();
+
+  const response = await fetch('/api/voice-rewrite', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({ voice_profile: formData, paragraph }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || typeof data.paragraph !== 'string') {
+    const error = data as Partial<ApiError>;
+    console.error('rewriteParagraph: Error response:', error);
+    throw new Error(error.error || `Rewrite request failed: ${response.status}`);
+  }
+
+  return data as VoicePreview;
+}
@@ -0,0 +1,225 @@
+import {
+  VoiceExampleType,
+  VOICE_PROFILE_EXPORT_FORMAT,
+  VOICE_PROFILE_EXPORT_SCHEMA_VERSION,
+  type VoiceExampleExport,
+  type VoiceProfile,
+  type VoiceProfileExport,
+  type VoiceProfileFormData,
+} from '../types';
+import { createVoiceProfile, deleteVoiceProfile } from './voiceProfileService';
+import { pickFormFields, validateVoiceProfileFormData } from './voiceProfileMapper';
+import { createVoiceExamples, getVoiceExamples } from './voiceExampleService';
+import { MAX_SAMPLES } from './sampleImportService';
+
+// Moving a tuned voice between workspaces: export a profile with its samples,
+// prompts and voice examples to a versioned JSON document, and import one back
+// as a new profile after validating every field.
+
+// Field path (e.g. "profile.formality" or "profile.samples[2].source") -> message
+export type ImportFieldErrors = Record<string, string>;
+
+export interface VoiceProfileImportValidation {
+  document: VoiceProfileExport | null;
+  errors: ImportFieldErrors;
+}
+
+// ============================================
+// Export
+// ============================================
+
+export function buildVoiceProfileExport(
+  profile: VoiceProfile,
+  examples: VoiceExampleExport[]
+): VoiceProfileExport {
+  return {
+    format: VOICE_PROFILE_EXPORT_FORMAT,
+    schema_version: VOICE_PROFILE_EXPORT_SCHEMA_VERSION,
+    exported_at: new Date().toISOString(),
+    profile: pickFormFields(profile) as VoiceProfileFormData,
+    prompts: {
+      voice_prompt: profile.voice_prompt,
+      system_prompt: profile.system_prompt,
+    },
+    voice_examples: examples.map(({ content, example_type, rating, feedback_text }) => ({
+      content,
+      example_type,
+      rating,
+      feedback_text,
+    })),
+  };
+}
+
+export async function exportVoiceProfile(profile: VoiceProfile): Promise<VoiceProfileExport> {
+  const examples = await getVoiceExamples(profile.id);
+  return buildVoiceProfileExport(profile, examples);
+}
+
+export function getExportFileName(profile: Pick<VoiceProfile, 'profile_name'>): string {
+  const slug = profile.profile_name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug || 'voice-profile'}.voice.json`;
+}
+
+export function downloadVoiceProfileExport(document: VoiceProfileExport): void {
+  const blob = new Blob([JSON.stringify(document, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = getExportFileName(document.profile);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// ============================================
+// Import validation
+// ============================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEnumValue<T extends string>(values: Record<string, T>, value: unknown): value is T {
+  return Object.values(values).includes(value as T);
+}
+
+function isScale(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 5;
+}
+
+function listValues(values: Record<string, string>): string {
+  return Object.values(values).join(', ');
+}
+
+function validateExamples(value: unknown, errors: ImportFieldErrors): void {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    errors.voice_examples = 'Must be a list of voice examples';
+    return;
+  }
+
+  value.forEach((example, index) => {
+    const path = `voice_examples[${index}]`;
+    if (!isRecord(example)) {
+      errors[path] = 'Must be an object with content and example_type';
+      return;
+    }
+    if (typeof example.content !== 'string' || !example.content.trim()) {
+      errors[`${path}.content`] = 'Example content is required';
+    }
+    if (!isEnumValue(VoiceExampleType, example.example_type)) {
+      errors[`${path}.example_type`] = `Must be one of: ${listValues(VoiceExampleType)}`;
+    }
+    if (example.rating !== undefined && example.rating !== null && !isScale(example.rating)) {
+      errors[`${path}.rating`] = 'Must be a whole number from 1 to 5';
+    }
+    if (example.feedback_text !== undefined && example.feedback_text !== null && typeof example.feedback_text !== 'string') {
+      errors[`${path}.feedback_text`] = 'Must be a string';
+    }
+  });
+}
+
+export function validateVoiceProfileImport(data: unknown): VoiceProfileImportValidation {
+  const errors: ImportFieldErrors = {};
+
+  if (!isRecord(data)) {
+    return { document: null, errors: { file: 'Not a voice profile export' } };
+  }
+  if (data.format !== VOICE_PROFILE_EXPORT_FORMAT) {
+    return { document: null, errors: { format: `Expected "${VOICE_PROFILE_EXPORT_FORMAT}"` } };
+  }
+  if (typeof data.schema_version !== 'number' || !Number.isInteger(data.schema_version) || data.schema_version < 1) {
+    errors.schema_version = 'Must be a whole number';
+  } else if (data.schema_version > VOICE_PROFILE_EXPORT_SCHEMA_VERSION) {
+    errors.schema_version = `Exported by a newer version of the app (schema ${data.schema_version}, this app reads up to ${VOICE_PROFILE_EXPORT_SCHEMA_VERSION})`;
+  }
+
+  // Same field rules as every profile write (see voiceProfileMapper)
+  Object.assign(errors, validateVoiceProfileFormData(data.profile, 'profile.'));
+  if (isRecord(data.profile) && Array.isArray(data.profile.samples) && data.profile.samples.length > MAX_SAMPLES) {
+    errors['profile.samples'] = `At most ${MAX_SAMPLES} samples can be imported`;
+  }
+  validateExamples(data.voice_examples, errors);
+
+  if (data.prompts !== undefined && !isRecord(data.prompts)) {
+    errors.prompts = 'Must be an object';
+  } else if (isRecord(data.prompts) && data.prompts.system_prompt != null && typeof data.prompts.system_prompt !== 'string') {
+    errors['prompts.system_prompt'] = 'Must be a string';
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { document: null, errors };
+  }
+
+  const profile = data.profile as Record<string, unknown>;
+  const prompts = isRecord(data.prompts) ? data.prompts : {};
+
+  return {
+    document: {
+      format: VOICE_PROFILE_EXPORT_FORMAT,
+      schema_version: data.schema_version as number,
+      exported_at: typeof data.exported_at === 'string' ? data.exported_at : '',
+      profile: {
+        ...(profile as unknown as VoiceProfileFormData),
+        profile_name: (profile.profile_name as string).trim(),
+      },
+      prompts: {
+        voice_prompt: typeof prompts.voice_prompt === 'string' ? prompts.voice_prompt : null,
+        system_prompt: typeof prompts.system_prompt === 'string' ? prompts.system_prompt : null,
+      },
+      voice_examples: ((data.voice_examples as VoiceExampleExport[] | undefined) || []).map((example) => ({
+        content: example.content.trim(),
+        example_type: example.example_type,
+        rating: example.rating ?? null,
+        feedback_text: example.feedback_text || null,
+      })),
+    },
+    errors: {},
+  };
+}
+
+// Parse the text of an uploaded export file
+export function parseVoiceProfileImport(text: string): VoiceProfileImportValidation {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { document: null, errors: { file: 'Not valid JSON' } };
+  }
+  return validateVoiceProfileImport(data);
+}
+
+// ============================================
+// Import
+// ============================================
+
+// Creates a new profile (awaiting review, like any new profile) with the
+// document's voice examples. Examples lose their generation links because
+// those generations belong to the other workspace.
+export async function importVoiceProfile(userId: string, document: VoiceProfileExport): Promise<VoiceProfile> {
+  const profile = await createVoiceProfile(userId, document.profile, {
+    systemPrompt: document.prompts.system_prompt,
+  });
+
+  // Don't leave a half-imported profile behind if the examples can't be saved
+  try {
+    await createVoiceExamples(
+      document.voice_examples.map((example) => ({
+        profile_id: profile.id,
+        content: example.content,
+        example_type: example.example_type,
+        rating: example.rating,
+        feedback_text: example.feedback_text,
+      }))
+    );
+  } catch (err) {
+    await deleteVoiceProfile(profile.id).catch((cleanupError) =>
+      console.error('Failed to remove partly imported profile:', cleanupError)
+    );
+    throw err;
+  }
+
+  return profile;
+}
@@ -0,0 +1,302 @@
+import {
+  ParagraphPattern,
+  SentenceStyle,
+  TONE_OPTIONS,
+  VocabularyLevel,
+  type VoiceProfile,
+  type VoiceProfileFormData,
+  type VoiceProfileStatus,
+  type WritingSample,
+} from '../types.js';
+
+// The one place that maps between VoiceProfileFormData / VoiceProfile and rows
+// of the voice_profiles table. Create, update, restore and the demo store all
+// write through toVoiceProfileFormRow, which refuses data with missing or
+// unknown fields, so a form field can't be silently dropped on the way to the
+// database again. Pure module: also used by the /api routes.
+
+// Columns of voice_profiles (supabase/schema.sql), as PostgREST returns them
+export interface VoiceProfileRow {
+  id: string;
+  user_id: string;
+  profile_name: string;
+  newsletter_name: string | null;
+  tone: string[] | null;
+  formality: number | null;
+  detail_level: number | null;
+  sentence_style: string | null;
+  vocabulary_level: string | null;
+  samples: WritingSample[] | null;
+  avg_sentence_length: number | string | null;
+  common_phrases: string[] | null;
+  avoid_phrases: string[] | null;
+  uses_questions: boolean | null;
+  uses_data: boolean | null;
+  uses_anecdotes: boolean | null;
+  uses_metaphors: boolean | null;
+  uses_humor: boolean | null;
+  paragraph_pattern: string | null;
+  voice_prompt: string | null;
+  system_prompt: string | null;
+  status: string | null;
+  total_generations: number | null;
+  average_rating: number | string | null;
+  approved_at: string | null;
+  review_notes: string | null;
+  last_used_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// The questionnaire columns written on create and update
+export type VoiceProfileFormRow = Pick<VoiceProfileRow, keyof VoiceProfileFormData>;
+
+// Field path (e.g. "formality" or "samples[2].source") -> message
+export type VoiceProfileFieldErrors = Record<string, string>;
+
+type FieldValidator = (value: unknown, path: string, errors: VoiceProfileFieldErrors) => void;
+
+export const MAX_PROFILE_NAME_LENGTH = 100;
+export const MAX_TONES = 5;
+
+const SAMPLE_SOURCES: WritingSample['source'][] = ['newsletter', 'blog', 'twitter', 'email'];
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isScale(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 5;
+}
+
+const scale: FieldValidator = (value, path, errors) => {
+  if (!isScale(value)) errors[path] = 'Must be a whole number from 1 to 5';
+};
+
+const flag: FieldValidator = (value, path, errors) => {
+  if (typeof value !== 'boolean') errors[path] = 'Must be true or false';
+};
+
+const phraseList: FieldValidator = (value, path, errors) => {
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+    errors[path] = 'Must be a list of phrases';
+  }
+};
+
+function oneOf(values: Record<string, string>): FieldValidator {
+  const allowed = Object.values(values);
+  return (value, path, errors) => {
+    if (!allowed.includes(value as string)) errors[path] = `Must be one of: ${allowed.join(', ')}`;
+  };
+}
+
+const validateSamples: FieldValidator = (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors[path] = 'Must be a list of writing samples';
+    return;
+  }
+
+  value.forEach((sample, index) => {
+    const samplePath = `${path}[${index}]`;
+    if (!isRecord(sample)) {
+      errors[samplePath] = 'Must be an object with text and source';
+      return;
+    }
+    if (typeof sample.text !== 'string' || !sample.text.trim()) {
+      errors[`${samplePath}.text`] = 'Sample text is required';
+    }
+    if (!SAMPLE_SOURCES.includes(sample.source as WritingSample['source'])) {
+      errors[`${samplePath}.source`] = `Must be one of: ${SAMPLE_SOURCES.join(', ')}`;
+    }
+    if (sample.url !== undefined && typeof sample.url !== 'string') {
+      errors[`${samplePath}.url`] = 'Must be a string';
+    }
+    const unknown = Object.keys(sample).filter((key) => !['text', 'source', 'url'].includes(key));
+    if (unknown.length > 0) {
+      errors[samplePath] = `Unknown field ${unknown.join(', ')}`;
+    }
+  });
+};
+
+// One validator per form field. The mapped type makes this exhaustive: adding a
+// field to VoiceProfileFormData without handling it here is a type error.
+const FORM_FIELD_VALIDATORS: { [K in keyof VoiceProfileFormData]-?: FieldValidator } = {
+  profile_name: (value, path, errors) => {
+    if (typeof value !== 'string' || !value.trim()) {
+      errors[path] = 'Profile name is required';
+    } else if (value.length > MAX_PROFILE_NAME_LENGTH) {
+      errors[path] = `Must be at most ${MAX_PROFILE_NAME_LENGTH} characters`;
+    }
+  },
+  newsletter_name: (value, path, errors) => {
+    if (typeof value !== 'string') errors[path] = 'Must be a string';
+  },
+  tone: (value, path, errors) => {
+    if (!Array.isArray(value) || value.length === 0) {
+      errors[path] = 'Pick at least one tone';
+    } else if (value.length > MAX_TONES) {
+      errors[path] = `Pick at most ${MAX_TONES} tones`;
+    } else {
+      const unknown = value.filter((tone) => !TONE_OPTIONS.includes(tone));
+      if (unknown.length > 0) {
+        errors[path] = `Unknown tone ${unknown.map((tone) => `"${tone}"`).join(', ')}`;
+      }
+    }
+  },
+  formality: scale,
+  detail_level: scale,
+  sentence_style: oneOf(SentenceStyle),
+  vocabulary_level: oneOf(VocabularyLevel),
+  common_phrases: phraseList,
+  avoid_phrases: phraseList,
+  uses_questions: flag,
+  uses_data: flag,
+  uses_anecdotes: flag,
+  uses_metaphors: flag,
+  uses_humor: flag,
+  paragraph_pattern: oneOf(ParagraphPattern),
+  samples: validateSamples,
+};
+
+// Questionnaire fields a user can edit. Everything else on a profile (id, stats,
+// status, prompts) is owned by the server. Keep in sync with the tracked_fields
+// list in record_voice_profile_version (supabase/schema.sql).
+export const VOICE_PROFILE_FORM_FIELDS = Object.keys(FORM_FIELD_VALIDATORS) as Array<keyof VoiceProfileFormData>;
+
+// Every form field must be present and valid, and nothing else may be.
+// Nested paths are prefixed with `prefix` (e.g. "profile.").
+export function validateVoiceProfileFormData(data: unknown, prefix = ''): VoiceProfileFieldErrors {
+  const errors: VoiceProfileFieldErrors = {};
+
+  if (!isRecord(data)) {
+    errors[prefix.replace(/\.$/, '') || 'profile'] = 'Profile data is missing';
+    return errors;
+  }
+
+  for (const field of VOICE_PROFILE_FORM_FIELDS) {
+    if (data[field] === undefined) {
+      errors[`${prefix}${field}`] = 'Required';
+    } else {
+      FORM_FIELD_VALIDATORS[field](data[field], `${prefix}${field}`, errors);
+    }
+  }
+
+  for (const key of Object.keys(data)) {
+    if (!(key in FORM_FIELD_VALIDATORS)) {
+      errors[`${prefix}${key}`] = 'Unknown field';
+    }
+  }
+
+  return errors;
+}
+
+// Copy just the form fields out of a profile, wizard state or version snapshot
+export function pickFormFields(source: Partial<VoiceProfileFormData>): Partial<VoiceProfileFormData> {
+  const picked: Record<string, unknown> = {};
+  for (const field of VOICE_PROFILE_FORM_FIELDS) {
+    if (source[field] !== undefined) {
+      picked[field] = source[field];
+    }
+  }
+  return picked as Partial<VoiceProfileFormData>;
+}
+
+// Names of the form fields as the wizard shows them
+const FORM_FIELD_LABELS: Record<keyof VoiceProfileFormData, string> = {
+  profile_name: 'Profile name',
+  newsletter_name: 'Newsletter name',
+  tone: 'Tone',
+  formality: 'Formality',
+  detail_level: 'Detail level',
+  sentence_style: 'Sentence style',
+  vocabulary_level: 'Vocabulary level',
+  common_phrases: 'Common phrases',
+  avoid_phrases: 'Phrases to avoid',
+  uses_questions: 'Uses questions',
+  uses_data: 'Uses data',
+  uses_anecdotes: 'Uses anecdotes',
+  uses_metaphors: 'Uses metaphors',
+  uses_humor: 'Uses humor',
+  paragraph_pattern: 'Paragraph pattern',
+  samples: 'Writing samples',
+};
+
+// One line a user can act on, e.g. "Tone: Pick at most 5 tones; Writing
+// sample 3 text: Sample text is required"
+export function describeVoiceProfileErrors(errors: VoiceProfileFieldErrors): string {
+  return Object.entries(errors)
+    .map(([path, message]) => {
+      const [, field, index, part] = path.match(/^(\w+)(?:\[(\d+)\])?(?:\.(\w+))?$/) || [];
+      const label = FORM_FIELD_LABELS[field as keyof VoiceProfileFormData] || field || path;
+      const item = index === undefined ? label : `${label.replace(/s$/, '')} ${Number(index) + 1}`;
+      return `${part ? `${item} ${part}` : item}: ${message}`;
+    })
+    .join('; ');
+}
+
+// The write path: validated form data -> the questionnaire columns. Throws with
+// every failing field listed rather than writing a partial row; callers show
+// the message, so it names fields the way the wizard does.
+export function toVoiceProfileFormRow(formData: VoiceProfileFormData): VoiceProfileFormRow {
+  const errors = validateVoiceProfileFormData(formData);
+  if (Object.keys(errors).length > 0) {
+    throw new Error(`Fix these fields before saving: ${describeVoiceProfileErrors(errors)}`);
+  }
+
+  const row = {} as Record<keyof VoiceProfileFormData, unknown>;
+  for (const field of VOICE_PROFILE_FORM_FIELDS) {
+    row[field] = formData[field];
+  }
+  row.profile_name = formData.profile_name.trim();
+  return row as VoiceProfileFormRow;
+}
+
+function toNumber(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Rows and snapshots saved before a column was written consistently come back
+// with nulls; paragraph_pattern was never persisted before, and generation
+// treated a missing value as 'varied', so that's what it reads as.
+export function formDataFromRecord(record: Partial<Record<keyof VoiceProfileFormData, unknown>>): VoiceProfileFormData {
+  return {
+    profile_name: (record.profile_name as string) || '',
+    newsletter_name: (record.newsletter_name as string | null) || '',
+    tone: (record.tone as VoiceProfileFormData['tone']) || [],
+    formality: (record.formality as number) ?? 3,
+    detail_level: (record.detail_level as number) ?? 3,
+    sentence_style: (record.sentence_style as SentenceStyle) || SentenceStyle.Mixed,
+    vocabulary_level: (record.vocabulary_level as VocabularyLevel) || VocabularyLevel.Professional,
+    common_phrases: (record.common_phrases as string[]) || [],
+    avoid_phrases: (record.avoid_phrases as string[]) || [],
+    uses_questions: Boolean(record.uses_questions),
+    uses_data: Boolean(record.uses_data),
+    uses_anecdotes: Boolean(record.uses_anecdotes),
+    uses_metaphors: Boolean(record.uses_metaphors),
+    uses_humor: Boolean(record.uses_humor),
+    paragraph_pattern: (record.paragraph_pattern as ParagraphPattern) || ParagraphPattern.Varied,
+    samples: (record.samples as WritingSample[]) || [],
+  };
+}
+
+// The read path: a voice_profiles row -> VoiceProfile
+export function voiceProfileFromRow(row: VoiceProfileRow): VoiceProfile {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    ...formDataFromRecord(row),
+    avg_sentence_length: toNumber(row.avg_sentence_length),
+    voice_prompt: row.voice_prompt,
+    system_prompt: row.system_prompt,
+    status: (row.status || 'draft') as VoiceProfileStatus,
+    total_generations: row.total_generations ?? 0,
+    average_rating: toNumber(row.average_rating),
+    approved_at: row.approved_at,
+    review_notes: row.review_notes,
+    last_used_at: row.last_used_at,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
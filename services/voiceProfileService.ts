@@ -1,5 +1,19 @@
-import { supabase, TABLES } from '../lib/supabase';
-import type { VoiceProfile, VoiceProfileFormData, VoiceProfileStatus } from '../types';
+import { supabase, TABLES, getAccessTokenFromStorage } from '../lib/supabase';
+import { buildAnalysisFields } from './voiceAnalysisService';
+import {
+  VOICE_PROFILE_FORM_FIELDS,
+  formDataFromRecord,
+  pickFormFields,
+  toVoiceProfileFormRow,
+  voiceProfileFromRow,
+  type VoiceProfileRow,
+} from './voiceProfileMapper';
+import type {
+  VoiceProfile,
+  VoiceProfileFormData,
+  VoiceProfileVersion,
+  VoiceProfileStatus,
+} from '../types';
 
 // Check if we're in demo mode (no Supabase configured)
 const isDemoMode = !import.meta.env.VITE_SUPABASE_URL ||
@@ -7,29 +21,53 @@ const isDemoMode = !import.meta.env.VITE_SUPABASE_URL ||
 
 // In-memory storage for demo mode
 let demoProfiles: VoiceProfile[] = [];
-
-// Generate a simple UUID for demo mode
-function generateId(): string {
-  return 'demo-' + Math.random().toString(36).substring(2, 15);
+let demoVersions: VoiceProfileVersion[] = [];
+
+function diffFormFields(
+  previous: VoiceProfile,
+  next: VoiceProfile
+): VoiceProfileVersion['changes'] {
+  const changes: VoiceProfileVersion['changes'] = {};
+  for (const field of VOICE_PROFILE_FORM_FIELDS) {
+    const from = previous[field] ?? null;
+    const to = next[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
 }
 
-// Helper to get access token from localStorage
-function getAccessTokenFromStorage(): string | null {
-  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-  if (!supabaseUrl) return null;
+// Demo counterpart of record_voice_profile_version in supabase/schema.sql
+function recordDemoVersion(profile: VoiceProfile, changes: VoiceProfileVersion['changes']): void {
+  const latest = demoVersions.find(v => v.profile_id === profile.id);
+  const snapshot = {} as Record<string, unknown>;
+  for (const field of VOICE_PROFILE_FORM_FIELDS) {
+    snapshot[field] = profile[field] ?? null;
+  }
 
-  const storageKey = `sb-${new URL(supabaseUrl).hostname.split('.')[0]}-auth-token`;
-  const storedSession = localStorage.getItem(storageKey);
+  demoVersions = [
+    {
+      id: generateId(),
+      profile_id: profile.id,
+      user_id: profile.user_id,
+      version_number: (latest?.version_number || 0) + 1,
+      snapshot: snapshot as unknown as VoiceProfileFormData,
+      changes,
+      created_at: profile.updated_at,
+    },
+    ...demoVersions,
+  ];
+}
 
-  if (storedSession) {
-    try {
-      const parsed = JSON.parse(storedSession);
-      return parsed.access_token || null;
-    } catch {
-      return null;
-    }
-  }
-  return null;
+// Demo counterpart of set_generation_profile_version in supabase/schema.sql
+export function getDemoLatestVersion(profileId: string): VoiceProfileVersion | null {
+  return demoVersions.find(v => v.profile_id === profileId) || null;
+}
+
+// Generate a simple UUID for demo mode
+function generateId(): string {
+  return 'demo-' + Math.random().toString(36).substring(2, 15);
 }
 
 export async function getVoiceProfiles(userId: string): Promise<VoiceProfile[]> {
@@ -79,7 +117,7 @@ export async function getVoiceProfiles(userId: string): Promise<VoiceProfile[]>
 
     const data = await response.json();
     console.log('getVoiceProfiles: Got', data.length, 'profiles');
-    return data as VoiceProfile[];
+    return (data as VoiceProfileRow[]).map(voiceProfileFromRow);
   } catch (err) {
     clearTimeout(timeoutId);
     if (err instanceof Error && err.name === 'AbortError') {
@@ -144,7 +182,7 @@ export async function getVoiceProfile(profileId: string): Promise<VoiceProfile |
       return null;
     }
 
-    return data[0] as VoiceProfile;
+    return voiceProfileFromRow(data[0] as VoiceProfileRow);
   } catch (err) {
     clearTimeout(timeoutId);
     if (err instanceof Error && err.name === 'AbortError') {
@@ -156,49 +194,43 @@ export async function getVoiceProfile(profileId: string): Promise<VoiceProfile |
   }
 }
 
+// New profiles wait for review ('ready') unless the caller asks for another status
 export async function createVoiceProfile(
   userId: string,
-  formData: VoiceProfileFormData
+  formData: VoiceProfileFormData,
+  { systemPrompt = null, status = 'ready' as VoiceProfileStatus }: { systemPrompt?: string | null; status?: VoiceProfileStatus } = {}
 ): Promise<VoiceProfile> {
+  const formRow = toVoiceProfileFormRow(formData);
+  const analysisFields = buildAnalysisFields(formData);
+
   if (isDemoMode) {
     const now = new Date().toISOString();
-    const newProfile: VoiceProfile = {
+    const newProfile = voiceProfileFromRow({
       id: generateId(),
       user_id: userId,
-      ...formData,
-      status: 'ready' as VoiceProfileStatus, // Auto-approve in demo mode
+      ...formRow,
+      ...analysisFields,
+      system_prompt: systemPrompt,
+      status,
       total_generations: 0,
-      avg_sentence_length: null,
-      voice_prompt: null,
-      system_prompt: null,
       average_rating: null,
-      approved_at: now,
+      approved_at: null,
+      review_notes: null,
       last_used_at: null,
       created_at: now,
       updated_at: now,
-    };
+    });
     demoProfiles = [newProfile, ...demoProfiles];
+    recordDemoVersion(newProfile, {});
     return newProfile;
   }
 
   const insertData = {
     user_id: userId,
-    profile_name: formData.profile_name,
-    newsletter_name: formData.newsletter_name,
-    tone: formData.tone,
-    formality: formData.formality,
-    detail_level: formData.detail_level,
-    sentence_style: formData.sentence_style,
-    vocabulary_level: formData.vocabulary_level,
-    common_phrases: formData.common_phrases,
-    avoid_phrases: formData.avoid_phrases,
-    uses_questions: formData.uses_questions,
-    uses_data: formData.uses_data,
-    uses_anecdotes: formData.uses_anecdotes,
-    uses_metaphors: formData.uses_metaphors,
-    uses_humor: formData.uses_humor,
-    samples: formData.samples,
-    status: 'ready' as VoiceProfileStatus,
+    ...formRow,
+    ...analysisFields,
+    system_prompt: systemPrompt,
+    status,
     total_generations: 0,
   };
 
@@ -213,29 +245,52 @@ export async function createVoiceProfile(
     throw error;
   }
 
-  return data as VoiceProfile;
+  return voiceProfileFromRow(data as VoiceProfileRow);
 }
 
+// A saved edit goes back to review, so the profile loses its approval
+const RESUBMITTED_FOR_REVIEW = {
+  status: 'ready' as VoiceProfileStatus,
+  approved_at: null,
+};
+
+// Only questionnaire fields and the analysis derived from them are written;
+// the on_voice_profile_saved trigger records a new version when any of the
+// questionnaire fields change.
 export async function updateVoiceProfile(
   profileId: string,
-  updates: Partial<VoiceProfileFormData>
+  formData: VoiceProfileFormData
 ): Promise<VoiceProfile> {
+  const formRow = toVoiceProfileFormRow(formData);
+  const analysisFields = buildAnalysisFields(formData);
+
   if (isDemoMode) {
     const index = demoProfiles.findIndex(p => p.id === profileId);
     if (index === -1) throw new Error('Profile not found');
 
-    demoProfiles[index] = {
-      ...demoProfiles[index],
-      ...updates,
+    const previous = demoProfiles[index];
+    const next: VoiceProfile = {
+      ...previous,
+      ...formDataFromRecord(formRow),
+      ...analysisFields,
+      ...RESUBMITTED_FOR_REVIEW,
       updated_at: new Date().toISOString(),
     };
-    return demoProfiles[index];
+    const changes = diffFormFields(previous, next);
+    if (Object.keys(changes).length > 0) {
+      recordDemoVersion(next, changes);
+    }
+
+    demoProfiles[index] = next;
+    return next;
   }
 
   const { data, error } = await supabase
     .from(TABLES.VOICE_PROFILES)
     .update({
-      ...updates,
+      ...formRow,
+      ...analysisFields,
+      ...RESUBMITTED_FOR_REVIEW,
       updated_at: new Date().toISOString(),
     })
     .eq('id', profileId)
@@ -247,12 +302,106 @@ export async function updateVoiceProfile(
     throw error;
   }
 
-  return data as VoiceProfile;
+  return voiceProfileFromRow(data as VoiceProfileRow);
+}
+
+// Newest first
+export async function getVoiceProfileVersions(profileId: string): Promise<VoiceProfileVersion[]> {
+  if (isDemoMode) {
+    return demoVersions.filter(r => r.profile_id === profileId);
+  }
+
+  // Use direct fetch API to avoid Supabase client hanging
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase configuration missing');
+  }
+
+  const accessToken = getAccessTokenFromStorage();
+  if (!accessToken) {
+    throw new Error('No valid session - please sign in again');
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 30000);
+
+  try {
+    const response = await fetch(
+      `${supabaseUrl}/rest/v1/${TABLES.VOICE_PROFILE_VERSIONS}?profile_id=eq.${profileId}&select=*&order=version_number.desc`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': supabaseKey,
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        signal: controller.signal,
+      }
+    );
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('getVoiceProfileVersions: Error response:', errorText);
+      throw new Error(`Supabase fetch failed: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    // Older snapshots can hold nulls for fields that weren't persisted yet
+    return ((data as VoiceProfileVersion[]) || []).map((version) => ({
+      ...version,
+      snapshot: formDataFromRecord(version.snapshot),
+    }));
+  } catch (err) {
+    clearTimeout(timeoutId);
+    if (err instanceof Error && err.name === 'AbortError') {
+      console.error('getVoiceProfileVersions: Request timed out after 30s');
+      throw new Error('Request timed out - please try again');
+    }
+    throw err;
+  }
+}
+
+// Rolling back saves the old snapshot as a new version, so history is never rewritten
+export async function restoreVoiceProfileVersion(
+  profileId: string,
+  version: VoiceProfileVersion
+): Promise<VoiceProfile> {
+  return updateVoiceProfile(profileId, version.snapshot);
+}
+
+// "Name (copy)", then "Name (copy 2)" and so on until the name is unused
+export function getDuplicateProfileName(name: string, existingNames: string[]): string {
+  const base = name.replace(/ \(copy(?: \d+)?\)$/, '');
+  const taken = new Set(existingNames);
+  let candidate = `${base} (copy)`;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${base} (copy ${n})`;
+  }
+  return candidate;
+}
+
+// Copies the questionnaire and samples into a new draft. Stats, prompts,
+// review state and voice examples stay with the original.
+export async function duplicateVoiceProfile(
+  userId: string,
+  profile: VoiceProfile,
+  profileName: string
+): Promise<VoiceProfile> {
+  return createVoiceProfile(
+    userId,
+    { ...(pickFormFields(profile) as VoiceProfileFormData), profile_name: profileName },
+    { status: 'draft' as VoiceProfileStatus }
+  );
 }
 
 export async function deleteVoiceProfile(profileId: string): Promise<void> {
   if (isDemoMode) {
     demoProfiles = demoProfiles.filter(p => p.id !== profileId);
+    demoVersions = demoVersions.filter(r => r.profile_id !== profileId);
     return;
   }
 
@@ -267,32 +416,37 @@ export async function deleteVoiceProfile(profileId: string): Promise<void> {
   }
 }
 
+// Review outcome: approving clears old review notes, sending back to draft
+// records why. Any status other than approved drops the approval.
 export async function updateVoiceProfileStatus(
   profileId: string,
-  status: VoiceProfileStatus
+  status: VoiceProfileStatus,
+  reviewNotes?: string
 ): Promise<VoiceProfile> {
+  const now = new Date().toISOString();
+  const updates: Record<string, any> = {
+    status,
+    updated_at: now,
+    approved_at: status === 'approved' ? now : null,
+  };
+
+  if (status === 'approved') {
+    updates.review_notes = null;
+  } else if (status === 'draft') {
+    updates.review_notes = reviewNotes?.trim() || null;
+  }
+
   if (isDemoMode) {
     const index = demoProfiles.findIndex(p => p.id === profileId);
     if (index === -1) throw new Error('Profile not found');
 
     demoProfiles[index] = {
       ...demoProfiles[index],
-      status,
-      updated_at: new Date().toISOString(),
-      approved_at: status === 'approved' ? new Date().toISOString() : demoProfiles[index].approved_at,
+      ...updates,
     };
     return demoProfiles[index];
   }
 
-  const updates: Record<string, any> = {
-    status,
-    updated_at: new Date().toISOString(),
-  };
-
-  if (status === 'approved') {
-    updates.approved_at = new Date().toISOString();
-  }
-
   const { data, error } = await supabase
     .from(TABLES.VOICE_PROFILES)
     .update(updates)
@@ -305,7 +459,18 @@ export async function updateVoiceProfileStatus(
     throw error;
   }
 
-  return data as VoiceProfile;
+  return voiceProfileFromRow(data as VoiceProfileRow);
+}
+
+// Demo counterpart of update_voice_profile_stats in supabase/schema.sql
+export function setDemoAverageRating(profileId: string, averageRating: number | null): void {
+  const index = demoProfiles.findIndex(p => p.id === profileId);
+  if (index === -1) return;
+
+  demoProfiles[index] = {
+    ...demoProfiles[index],
+    average_rating: averageRating,
+  };
 }
 
 // Get profiles that are ready for generation
@@ -329,5 +494,5 @@ export async function getReadyProfiles(userId: string): Promise<VoiceProfile[]>
     throw error;
   }
 
-  return data as VoiceProfile[];
+  return (data as VoiceProfileRow[]).map(voiceProfileFromRow);
 }
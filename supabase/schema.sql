@@ -11,6 +11,8 @@ CREATE TABLE IF NOT EXISTS users (
   id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
   email TEXT NOT NULL,
   full_name TEXT,
+  -- Team setting: generation only accepts approved voice profiles
+  require_approved_profiles BOOLEAN NOT NULL DEFAULT FALSE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -45,7 +47,7 @@ CREATE TABLE IF NOT EXISTS voice_profiles (
   uses_humor BOOLEAN DEFAULT false,
 
   -- Structure preferences
-  paragraph_pattern TEXT,
+  paragraph_pattern TEXT CHECK (paragraph_pattern IN ('short_mixed', 'long_flowing', 'varied')),
 
   -- Generated AI prompts
   voice_prompt TEXT,
@@ -56,6 +58,8 @@ CREATE TABLE IF NOT EXISTS voice_profiles (
   total_generations INTEGER DEFAULT 0,
   average_rating DECIMAL(3,2),
   approved_at TIMESTAMP WITH TIME ZONE,
+  -- Reviewer notes when the profile is sent back to draft
+  review_notes TEXT,
   last_used_at TIMESTAMP WITH TIME ZONE,
 
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -64,6 +68,25 @@ CREATE TABLE IF NOT EXISTS voice_profiles (
   CONSTRAINT valid_profile_name CHECK (LENGTH(profile_name) BETWEEN 1 AND 100)
 );
 
+-- ============================================
+-- Voice profile versions (immutable snapshot per save)
+-- ============================================
+CREATE TABLE IF NOT EXISTS voice_profile_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  profile_id UUID NOT NULL REFERENCES voice_profiles(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL CHECK (version_number > 0),
+
+  -- Questionnaire fields as they were after this save
+  snapshot JSONB NOT NULL,
+  -- { "<field>": { "from": <old value>, "to": <new value> } }, empty for version 1
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(profile_id, version_number)
+);
+
 -- ============================================
 -- Generations table
 -- ============================================
@@ -71,6 +94,9 @@ CREATE TABLE IF NOT EXISTS generations (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   profile_id UUID REFERENCES voice_profiles(id) ON DELETE SET NULL,
+  -- Profile version current when the generation was created (set by trigger)
+  profile_version_id UUID REFERENCES voice_profile_versions(id) ON DELETE SET NULL,
+  profile_version INTEGER,
 
   -- Input data
   content_type TEXT NOT NULL CHECK (content_type IN ('Twitter', 'YouTube', 'Article')),
@@ -101,7 +127,7 @@ CREATE TABLE IF NOT EXISTS generations (
 );
 
 -- ============================================
--- Subscriptions table (for future billing)
+-- Subscriptions table (synced from Stripe by /api/stripe-webhook)
 -- ============================================
 CREATE TABLE IF NOT EXISTS subscriptions (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -111,6 +137,8 @@ CREATE TABLE IF NOT EXISTS subscriptions (
   stripe_customer_id TEXT UNIQUE,
   stripe_subscription_id TEXT UNIQUE,
   stripe_price_id TEXT,
+  -- created time of the last customer.subscription.* event applied; older ones are skipped
+  stripe_event_at TIMESTAMP WITH TIME ZONE,
 
   -- Plan details
   plan_name TEXT NOT NULL DEFAULT 'starter' CHECK (plan_name IN ('starter', 'professional', 'agency')),
@@ -134,23 +162,157 @@ CREATE TABLE IF NOT EXISTS subscriptions (
   CONSTRAINT one_subscription_per_user UNIQUE (user_id)
 );
 
+-- ============================================
+-- Stripe events table (ids of webhook events already applied; service role only)
+-- ============================================
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  processed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================
+-- Newsletters table (one row per generated article)
+-- ============================================
+CREATE TABLE IF NOT EXISTS newsletters (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  generation_id UUID NOT NULL REFERENCES generations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Newsletter details
+  newsletter_number INTEGER NOT NULL CHECK (newsletter_number BETWEEN 1 AND 5),
+  title TEXT NOT NULL,
+  subject_line TEXT NOT NULL,
+  preview_text TEXT NOT NULL,
+  content_markdown TEXT NOT NULL,
+  content_html TEXT,
+  -- Subject line / preview text candidates ([{ subject_line, preview_text }])
+  subject_variants JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  -- Metadata
+  word_count INTEGER,
+  source_type TEXT,
+  newsletter_type TEXT,
+
+  -- User feedback
+  rating INTEGER CHECK (rating BETWEEN 1 AND 5),
+  feedback_text TEXT,
+  was_published BOOLEAN DEFAULT false,
+  published_at TIMESTAMP WITH TIME ZONE,
+
+  -- newsletter_versions.version_number the copy above started from
+  current_version_number INTEGER,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_newsletter_in_generation UNIQUE (generation_id, newsletter_number)
+);
+
+-- ============================================
+-- Newsletter versions table (every copy an article has had)
+-- ============================================
+CREATE TABLE IF NOT EXISTS newsletter_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  newsletter_id UUID NOT NULL REFERENCES newsletters(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+
+  title TEXT NOT NULL,
+  subject_line TEXT NOT NULL,
+  preview_text TEXT NOT NULL,
+  content_markdown TEXT NOT NULL,
+  word_count INTEGER,
+
+  -- How the copy came about, and the instructions that went with the request
+  source TEXT NOT NULL CHECK (source IN ('generated', 'regenerated', 'revised', 'edited')),
+  instructions TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_newsletter_version UNIQUE (newsletter_id, version_number)
+);
+
+-- ============================================
+-- Voice examples table (passages marked as on/off voice)
+-- ============================================
+CREATE TABLE IF NOT EXISTS voice_examples (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  profile_id UUID NOT NULL REFERENCES voice_profiles(id) ON DELETE CASCADE,
+  generation_id UUID REFERENCES generations(id) ON DELETE SET NULL,
+  newsletter_id UUID REFERENCES newsletters(id) ON DELETE SET NULL,
+
+  -- Example data
+  content TEXT NOT NULL,
+  example_type TEXT NOT NULL CHECK (example_type IN ('good', 'bad', 'neutral')),
+
+  -- User feedback
+  rating INTEGER CHECK (rating BETWEEN 1 AND 5),
+  feedback_text TEXT,
+  learned_from BOOLEAN DEFAULT false,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_example_content CHECK (LENGTH(content) > 0)
+);
+
+-- ============================================
+-- Email templates table (brand layouts for email HTML exports)
+-- ============================================
+CREATE TABLE IF NOT EXISTS email_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+
+  -- What the template applies to; a newsletter name match wins over a profile match
+  newsletter_name TEXT,
+  profile_id UUID REFERENCES voice_profiles(id) ON DELETE SET NULL,
+
+  -- Content area markup with {{title}}, {{body}}, {{preheader}}, {{unsubscribe_url}}, ... placeholders
+  layout_html TEXT NOT NULL,
+  accent_color TEXT NOT NULL DEFAULT '#4f46e5' CHECK (accent_color ~ '^#[0-9a-fA-F]{6}$'),
+  background_color TEXT NOT NULL DEFAULT '#f1f5f9' CHECK (background_color ~ '^#[0-9a-fA-F]{6}$'),
+  text_color TEXT NOT NULL DEFAULT '#1e293b' CHECK (text_color ~ '^#[0-9a-fA-F]{6}$'),
+  -- Sponsor blocks placed in the article ([{ position: top | middle | bottom, html }])
+  sponsor_slots JSONB NOT NULL DEFAULT '[]'::jsonb,
+  unsubscribe_url TEXT NOT NULL DEFAULT '',
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_template_name CHECK (LENGTH(name) > 0),
+  CONSTRAINT layout_has_body CHECK (layout_html LIKE '%{{body}}%')
+);
+
 -- ============================================
 -- Indexes for performance
 -- ============================================
 CREATE INDEX IF NOT EXISTS idx_voice_profiles_user ON voice_profiles(user_id);
 CREATE INDEX IF NOT EXISTS idx_voice_profiles_status ON voice_profiles(status);
+CREATE INDEX IF NOT EXISTS idx_generations_profile_version ON generations(profile_version_id);
 CREATE INDEX IF NOT EXISTS idx_generations_user ON generations(user_id);
 CREATE INDEX IF NOT EXISTS idx_generations_status ON generations(status);
 CREATE INDEX IF NOT EXISTS idx_generations_created ON generations(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_subscriptions_user ON subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_newsletters_generation ON newsletters(generation_id);
+CREATE INDEX IF NOT EXISTS idx_newsletters_user ON newsletters(user_id);
+CREATE INDEX IF NOT EXISTS idx_newsletter_versions_newsletter ON newsletter_versions(newsletter_id);
+CREATE INDEX IF NOT EXISTS idx_voice_examples_profile ON voice_examples(profile_id);
+CREATE INDEX IF NOT EXISTS idx_email_templates_user ON email_templates(user_id);
 
 -- ============================================
 -- Row Level Security (RLS)
 -- ============================================
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE voice_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE voice_profile_versions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE generations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE newsletters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE newsletter_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE voice_examples ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_templates ENABLE ROW LEVEL SECURITY;
 
 -- Users policies
 CREATE POLICY "Users can view own profile" ON users
@@ -175,6 +337,10 @@ CREATE POLICY "Users can update own voice profiles" ON voice_profiles
 CREATE POLICY "Users can delete own voice profiles" ON voice_profiles
   FOR DELETE USING (auth.uid() = user_id);
 
+-- Voice profile versions policies (rows are written by the version trigger only and never change)
+CREATE POLICY "Users can view own voice profile versions" ON voice_profile_versions
+  FOR SELECT USING (auth.uid() = user_id);
+
 -- Generations policies
 CREATE POLICY "Users can view own generations" ON generations
   FOR SELECT USING (auth.uid() = user_id);
@@ -189,6 +355,63 @@ CREATE POLICY "Users can update own generations" ON generations
 CREATE POLICY "Users can view own subscription" ON subscriptions
   FOR SELECT USING (auth.uid() = user_id);
 
+-- Newsletters policies (rows are inserted by the API routes with the service role)
+CREATE POLICY "Users can view own newsletters" ON newsletters
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- The row must stay with a generation the user owns; on_newsletter_update
+-- also stops generation_id, user_id and newsletter_number from changing
+CREATE POLICY "Users can update own newsletters" ON newsletters
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM generations g WHERE g.id = generation_id AND g.user_id = auth.uid())
+  );
+
+-- Newsletter versions policies (rows never change; users add one when switching versions)
+CREATE POLICY "Users can view own newsletter versions" ON newsletter_versions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own newsletter versions" ON newsletter_versions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM newsletters n WHERE n.id = newsletter_id AND n.user_id = auth.uid())
+  );
+
+-- Voice examples policies (ownership comes from the voice profile)
+CREATE POLICY "Users can view own voice examples" ON voice_examples
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM voice_profiles p WHERE p.id = profile_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can insert own voice examples" ON voice_examples
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM voice_profiles p WHERE p.id = profile_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update own voice examples" ON voice_examples
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM voice_profiles p WHERE p.id = profile_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete own voice examples" ON voice_examples
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM voice_profiles p WHERE p.id = profile_id AND p.user_id = auth.uid())
+  );
+
+-- Email templates policies
+CREATE POLICY "Users can view own email templates" ON email_templates
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own email templates" ON email_templates
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own email templates" ON email_templates
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own email templates" ON email_templates
+  FOR DELETE USING (auth.uid() = user_id);
+
 -- ============================================
 -- Functions
 -- ============================================
@@ -236,6 +459,309 @@ CREATE TRIGGER update_voice_profiles_updated_at
   BEFORE UPDATE ON voice_profiles
   FOR EACH ROW EXECUTE FUNCTION update_updated_at();
 
+-- Snapshot the questionnaire fields into a new voice_profile_versions row when
+-- a profile is created and whenever a save changes any of them. Stats columns
+-- (total_generations, average_rating, ...) are not versioned.
+CREATE OR REPLACE FUNCTION public.record_voice_profile_version()
+RETURNS TRIGGER AS $$
+DECLARE
+  tracked_fields TEXT[] := ARRAY[
+    'profile_name', 'newsletter_name', 'tone', 'formality', 'detail_level',
+    'sentence_style', 'vocabulary_level', 'common_phrases', 'avoid_phrases',
+    'uses_questions', 'uses_data', 'uses_anecdotes', 'uses_metaphors', 'uses_humor',
+    'paragraph_pattern', 'samples'
+  ];
+  field TEXT;
+  old_row JSONB;
+  new_row JSONB := to_jsonb(NEW);
+  snapshot JSONB := '{}'::jsonb;
+  changes JSONB := '{}'::jsonb;
+  next_version INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    old_row := to_jsonb(OLD);
+  END IF;
+
+  FOREACH field IN ARRAY tracked_fields LOOP
+    snapshot := snapshot || jsonb_build_object(field, new_row->field);
+    IF TG_OP = 'UPDATE' AND old_row->field IS DISTINCT FROM new_row->field THEN
+      changes := changes || jsonb_build_object(
+        field, jsonb_build_object('from', old_row->field, 'to', new_row->field)
+      );
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'UPDATE' AND changes = '{}'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(MAX(version_number), 0) + 1 INTO next_version
+  FROM voice_profile_versions
+  WHERE profile_id = NEW.id;
+
+  INSERT INTO voice_profile_versions (profile_id, user_id, version_number, snapshot, changes)
+  VALUES (NEW.id, NEW.user_id, next_version, snapshot, changes);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_voice_profile_updated ON voice_profiles;
+DROP TRIGGER IF EXISTS on_voice_profile_saved ON voice_profiles;
+CREATE TRIGGER on_voice_profile_saved
+  AFTER INSERT OR UPDATE ON voice_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.record_voice_profile_version();
+
+-- Stamp every new generation with the profile's latest version. Always
+-- overwrites, so clients cannot attribute a generation to another version.
+CREATE OR REPLACE FUNCTION public.set_generation_profile_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.profile_version_id := NULL;
+  NEW.profile_version := NULL;
+
+  IF NEW.profile_id IS NOT NULL THEN
+    SELECT id, version_number INTO NEW.profile_version_id, NEW.profile_version
+    FROM voice_profile_versions
+    WHERE profile_id = NEW.profile_id
+    ORDER BY version_number DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_generation_created ON generations;
+CREATE TRIGGER on_generation_created
+  BEFORE INSERT ON generations
+  FOR EACH ROW EXECUTE FUNCTION public.set_generation_profile_version();
+
 CREATE TRIGGER update_subscriptions_updated_at
   BEFORE UPDATE ON subscriptions
   FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER update_newsletters_updated_at
+  BEFORE UPDATE ON newsletters
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- A newsletter belongs to its generation for good: the rating trigger follows
+-- generation_id to the voice profile, so it must not be re-pointed
+CREATE OR REPLACE FUNCTION public.prevent_newsletter_reassignment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.generation_id IS DISTINCT FROM OLD.generation_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.newsletter_number IS DISTINCT FROM OLD.newsletter_number THEN
+    RAISE EXCEPTION 'generation_id, user_id and newsletter_number of a newsletter cannot change';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER on_newsletter_update
+  BEFORE UPDATE ON newsletters
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_newsletter_reassignment();
+
+CREATE TRIGGER update_email_templates_updated_at
+  BEFORE UPDATE ON email_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- Generation quota
+-- ============================================
+
+-- Atomically claim one generation from the user's quota. Rolls the billing
+-- period forward first if current_period_end has passed, then increments
+-- generations_this_period only when it is still below generations_limit.
+-- A Stripe subscription that is past due or canceled claims nothing until it
+-- is active again; accounts without one (the free starter allowance, also
+-- what a deleted subscription falls back to) are not gated on status.
+DROP FUNCTION IF EXISTS public.claim_generation_quota(UUID);
+CREATE OR REPLACE FUNCTION public.claim_generation_quota(p_user_id UUID)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  subscription_status TEXT,
+  generations_this_period INTEGER,
+  generations_limit INTEGER,
+  current_period_end TIMESTAMP WITH TIME ZONE
+) AS $$
+DECLARE
+  sub subscriptions%ROWTYPE;
+  period_length INTERVAL;
+BEGIN
+  SELECT * INTO sub FROM subscriptions s WHERE s.user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No subscription found for user %', p_user_id;
+  END IF;
+
+  IF NOW() >= sub.current_period_end THEN
+    period_length := GREATEST(sub.current_period_end - sub.current_period_start, INTERVAL '1 day');
+    WHILE sub.current_period_end <= NOW() LOOP
+      sub.current_period_start := sub.current_period_end;
+      sub.current_period_end := sub.current_period_end + period_length;
+    END LOOP;
+    sub.generations_this_period := 0;
+  END IF;
+
+  allowed := COALESCE(sub.generations_this_period, 0) < sub.generations_limit
+    AND (sub.stripe_subscription_id IS NULL OR sub.status IN ('active', 'trialing'));
+  IF allowed THEN
+    sub.generations_this_period := COALESCE(sub.generations_this_period, 0) + 1;
+  END IF;
+
+  UPDATE subscriptions s
+  SET current_period_start = sub.current_period_start,
+      current_period_end = sub.current_period_end,
+      generations_this_period = sub.generations_this_period
+  WHERE s.id = sub.id;
+
+  subscription_status := sub.status;
+  generations_this_period := sub.generations_this_period;
+  generations_limit := sub.generations_limit;
+  current_period_end := sub.current_period_end;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Give back a generation claimed at p_claimed_at (e.g. when the n8n run
+-- fails). Claims from a previous billing period are not refunded.
+CREATE OR REPLACE FUNCTION public.refund_generation_quota(p_user_id UUID, p_claimed_at TIMESTAMP WITH TIME ZONE)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE subscriptions
+  SET generations_this_period = GREATEST(COALESCE(generations_this_period, 0) - 1, 0)
+  WHERE user_id = p_user_id
+    AND p_claimed_at >= current_period_start;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Quota functions are only called by the API routes with the service role
+REVOKE EXECUTE ON FUNCTION public.claim_generation_quota(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_generation_quota(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Voice profile stats
+-- ============================================
+
+-- Recompute a profile's average_rating from every rated newsletter generated
+-- with it. total_generations is maintained by /api/generate, not here.
+CREATE OR REPLACE FUNCTION public.update_voice_profile_stats(p_profile_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF p_profile_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE voice_profiles
+  SET average_rating = (
+    SELECT ROUND(AVG(n.rating)::NUMERIC, 2)
+    FROM newsletters n
+    JOIN generations g ON g.id = n.generation_id
+    WHERE g.profile_id = p_profile_id
+      AND n.rating IS NOT NULL
+  )
+  WHERE id = p_profile_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.handle_newsletter_rating_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.update_voice_profile_stats(
+    (SELECT g.profile_id FROM generations g WHERE g.id = COALESCE(NEW.generation_id, OLD.generation_id))
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Deleting a generation cascades to its newsletters after the generation row
+-- is gone, so recompute from the generation side as well
+CREATE OR REPLACE FUNCTION public.handle_generation_deleted()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.update_voice_profile_stats(OLD.profile_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_newsletter_rating_change ON newsletters;
+CREATE TRIGGER on_newsletter_rating_change
+  AFTER INSERT OR DELETE OR UPDATE OF rating ON newsletters
+  FOR EACH ROW EXECUTE FUNCTION public.handle_newsletter_rating_change();
+
+DROP TRIGGER IF EXISTS on_generation_deleted ON generations;
+CREATE TRIGGER on_generation_deleted
+  AFTER DELETE ON generations
+  FOR EACH ROW EXECUTE FUNCTION public.handle_generation_deleted();
+
+REVOKE EXECUTE ON FUNCTION public.update_voice_profile_stats(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Newsletters backfill
+-- ============================================
+
+-- Copy articles from generations completed before the newsletters table
+-- existed. Safe to re-run: existing rows are left untouched.
+INSERT INTO newsletters (
+  generation_id, user_id, newsletter_number, title, subject_line, preview_text,
+  content_markdown, word_count, source_type, newsletter_type, created_at
+)
+SELECT
+  g.id,
+  g.user_id,
+  COALESCE((article->>'idea_number')::INTEGER, ordinality::INTEGER),
+  COALESCE(article->>'title', ''),
+  COALESCE(article->>'subject_line', ''),
+  COALESCE(article->>'preview_text', ''),
+  COALESCE(NULLIF(article->>'markdown_content', ''), article->>'content', ''),
+  (article->>'word_count')::INTEGER,
+  article->>'source_type',
+  article->>'newsletter_name',
+  COALESCE(g.completed_at, g.created_at)
+FROM generations g
+CROSS JOIN LATERAL jsonb_array_elements(g.newsletters) WITH ORDINALITY AS a(article, ordinality)
+WHERE g.status = 'completed'
+  AND jsonb_typeof(g.newsletters) = 'array'
+  AND COALESCE((article->>'idea_number')::INTEGER, ordinality::INTEGER) BETWEEN 1 AND 5
+ON CONFLICT (generation_id, newsletter_number) DO NOTHING;
+
+-- ============================================
+-- Voice profile versions backfill
+-- ============================================
+
+-- Versions replace the diff-only voice_profile_revisions table
+DROP FUNCTION IF EXISTS public.record_voice_profile_revision();
+DROP TABLE IF EXISTS voice_profile_revisions;
+
+-- Give profiles created before versioning their current state as version 1.
+-- Safe to re-run: profiles that already have a version are skipped.
+INSERT INTO voice_profile_versions (profile_id, user_id, version_number, snapshot, created_at)
+SELECT
+  p.id,
+  p.user_id,
+  1,
+  jsonb_build_object(
+    'profile_name', p.profile_name,
+    'newsletter_name', p.newsletter_name,
+    'tone', p.tone,
+    'formality', p.formality,
+    'detail_level', p.detail_level,
+    'sentence_style', p.sentence_style,
+    'vocabulary_level', p.vocabulary_level,
+    'common_phrases', p.common_phrases,
+    'avoid_phrases', p.avoid_phrases,
+    'uses_questions', p.uses_questions,
+    'uses_data', p.uses_data,
+    'uses_anecdotes', p.uses_anecdotes,
+    'uses_metaphors', p.uses_metaphors,
+    'uses_humor', p.uses_humor,
+    'paragraph_pattern', p.paragraph_pattern,
+    'samples', p.samples
+  ),
+  COALESCE(p.updated_at, p.created_at)
+FROM voice_profiles p
+WHERE NOT EXISTS (
+  SELECT 1 FROM voice_profile_versions v WHERE v.profile_id = p.id
+);
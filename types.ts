@@ -44,6 +44,12 @@ export enum ParagraphPattern {
   Varied = 'varied'
 }
 
+export enum VoiceExampleType {
+  Good = 'good',
+  Bad = 'bad',
+  Neutral = 'neutral'
+}
+
 export enum SubscriptionPlan {
   Starter = 'starter',
   Professional = 'professional',
@@ -82,6 +88,8 @@ export interface User {
   id: string;
   email: string;
   full_name: string | null;
+  // Team setting: only approved voice profiles can be used for generation
+  require_approved_profiles: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -149,12 +157,81 @@ export interface VoiceProfile extends VoiceProfileFormData {
   total_generations: number;
   average_rating: number | null;
   approved_at: string | null;
+  // Why the profile was sent back to draft during review
+  review_notes: string | null;
   last_used_at: string | null;
 
   created_at: string;
   updated_at: string;
 }
 
+// Short test paragraph written with a profile on the review screen.
+// 'local' means no preview workflow is configured and the text was templated.
+export interface VoicePreview {
+  paragraph: string;
+  source: 'n8n' | 'local';
+}
+
+// -------------------- Voice Profile Versions --------------------
+
+export interface VoiceProfileFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+// Immutable snapshot written on every save that changes the questionnaire
+export interface VoiceProfileVersion {
+  id: string;
+  profile_id: string;
+  user_id: string;
+  version_number: number;
+  snapshot: VoiceProfileFormData;
+  // Fields that differ from the previous version; empty for version 1
+  changes: Partial<Record<keyof VoiceProfileFormData, VoiceProfileFieldChange>>;
+  created_at: string;
+}
+
+// -------------------- Voice Examples --------------------
+
+// A passage the user marked as sounding (or not sounding) like them
+export interface VoiceExample {
+  id: string;
+  profile_id: string;
+  generation_id: string | null;
+  newsletter_id: string | null;
+
+  content: string;
+  example_type: VoiceExampleType;
+
+  rating: number | null;
+  feedback_text: string | null;
+  learned_from: boolean;
+
+  created_at: string;
+}
+
+export type VoiceExampleInput = Pick<VoiceExample, 'profile_id' | 'content' | 'example_type'> &
+  Partial<Pick<VoiceExample, 'generation_id' | 'newsletter_id' | 'rating' | 'feedback_text'>>;
+
+// -------------------- Voice Profile Export --------------------
+
+export const VOICE_PROFILE_EXPORT_FORMAT = 'voiceclone.voice-profile';
+// Bump when the document shape changes; imports accept this version and older
+export const VOICE_PROFILE_EXPORT_SCHEMA_VERSION = 1;
+
+export type VoiceExampleExport = Pick<VoiceExample, 'content' | 'example_type' | 'rating' | 'feedback_text'>;
+
+// Portable JSON document for moving a voice profile between workspaces
+export interface VoiceProfileExport {
+  format: typeof VOICE_PROFILE_EXPORT_FORMAT;
+  schema_version: number;
+  exported_at: string;
+  profile: VoiceProfileFormData;
+  // voice_prompt is rebuilt from the profile on import; it's included for reference
+  prompts: Pick<VoiceProfile, 'voice_prompt' | 'system_prompt'>;
+  voice_examples: VoiceExampleExport[];
+}
+
 // -------------------- Generation Request --------------------
 
 export interface GenerationRequest {
@@ -179,11 +256,19 @@ export interface GenerationRequest {
 
 // -------------------- Newsletter Output --------------------
 
+// One subject line / preview text pair to A/B test
+export interface SubjectVariant {
+  subject_line: string;
+  preview_text: string;
+}
+
 export interface NewsletterArticle {
   idea_number: number;
   title: string;
   subject_line: string;
   preview_text: string;
+  // Alternatives the workflow wrote, the pair above first; missing from older runs
+  subject_variants?: SubjectVariant[];
   content: string;
   markdown_content: string;
   word_count: number;
@@ -193,6 +278,105 @@ export interface NewsletterArticle {
   created_at: string;
 }
 
+// Row in the newsletters table, one per NewsletterArticle of a generation
+export interface Newsletter {
+  id: string;
+  generation_id: string;
+  user_id: string;
+
+  // Newsletter details
+  newsletter_number: number;
+  title: string;
+  subject_line: string;
+  preview_text: string;
+  content_markdown: string;
+  content_html: string | null;
+  // Subject line / preview text candidates; the pair above is the one in use
+  subject_variants: SubjectVariant[];
+
+  // Metadata
+  word_count: number | null;
+  source_type: string | null;
+  newsletter_type: string | null;
+
+  // User feedback
+  rating: number | null;
+  feedback_text: string | null;
+  was_published: boolean;
+  published_at: string | null;
+
+  // The version the copy above started from; null until the article has history
+  current_version_number: number | null;
+
+  created_at: string;
+  updated_at: string;
+}
+
+// How a version's copy came about
+export type NewsletterVersionSource = 'generated' | 'regenerated' | 'revised' | 'edited';
+
+// One copy in an article's history (see services/newsletterVersioning.ts)
+export interface NewsletterVersion {
+  id: string;
+  newsletter_id: string;
+  user_id: string;
+  version_number: number;
+  title: string;
+  subject_line: string;
+  preview_text: string;
+  content_markdown: string;
+  word_count: number | null;
+  source: NewsletterVersionSource;
+  // What the user asked for, for regenerations and revisions
+  instructions: string | null;
+  created_at: string;
+}
+
+// Fields a user can change on a stored newsletter
+export type NewsletterUpdate = Partial<Pick<
+  Newsletter,
+  'title' | 'subject_line' | 'preview_text' | 'content_markdown' | 'subject_variants' |
+  'was_published' | 'rating' | 'feedback_text'
+>>;
+
+// -------------------- Email Templates --------------------
+
+export type SponsorSlotPosition = 'top' | 'middle' | 'bottom';
+
+export interface SponsorSlot {
+  position: SponsorSlotPosition;
+  html: string;
+}
+
+// Brand layout for the email HTML export of one newsletter
+export interface EmailTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+
+  // What the template applies to; a newsletter name match wins over a profile match
+  newsletter_name: string | null;
+  profile_id: string | null;
+
+  // Markup of the email's content area, with {{body}} where the article goes
+  layout_html: string;
+  accent_color: string;
+  background_color: string;
+  text_color: string;
+  sponsor_slots: SponsorSlot[];
+  // URL or ESP merge tag (e.g. *|UNSUB|*) filled into {{unsubscribe_url}}
+  unsubscribe_url: string;
+
+  created_at: string;
+  updated_at: string;
+}
+
+export type EmailTemplateInput = Pick<
+  EmailTemplate,
+  'name' | 'newsletter_name' | 'profile_id' | 'layout_html' | 'accent_color' | 'background_color' |
+  'text_color' | 'sponsor_slots' | 'unsubscribe_url'
+>;
+
 // Simplified version for preview (matches current UI)
 export interface GeneratedContent {
   subject: string;
@@ -212,6 +396,8 @@ export interface Generation {
   id: string;
   user_id: string;
   profile_id: string | null;
+  profile_version_id: string | null;
+  profile_version: number | null;
 
   // Input data
   content_type: ContentSource;
@@ -271,9 +457,27 @@ export interface N8nWebhookPayload {
     uses_humor: boolean;
     paragraph_pattern: ParagraphPattern;
     samples: WritingSample[];
+    // Assembled from the questionnaire and sample analysis when the profile is saved
+    avg_sentence_length: number | null;
+    voice_prompt: string | null;
+    // Best-rated passages the user marked as on-voice / off-voice
+    good_examples: string[];
+    bad_examples: string[];
   };
 
   callback_url: string;
+
+  // Subject line / preview text pairs to write per article, for A/B tests
+  subject_variant_count: number;
+
+  // Set when only one idea of an existing generation is rewritten. The
+  // workflow must then answer synchronously with just that article.
+  regenerate?: {
+    idea_number: number;
+    instructions: string | null;
+    previous_title: string;
+    previous_content: string;
+  };
 }
 
 export interface N8nWebhookResponse {
@@ -317,6 +521,8 @@ export interface Subscription {
   stripe_customer_id: string | null;
   stripe_subscription_id: string | null;
   stripe_price_id: string | null;
+  // When the last applied customer.subscription.* event was created
+  stripe_event_at: string | null;
 
   // Plan details
   plan_name: SubscriptionPlan;
@@ -338,6 +544,14 @@ export interface Subscription {
   updated_at: string;
 }
 
+// Generations included per billing period for each plan. The starter limit
+// matches the default given to new accounts in supabase/schema.sql.
+export const PLAN_GENERATION_LIMITS: Record<SubscriptionPlan, number> = {
+  [SubscriptionPlan.Starter]: 20,
+  [SubscriptionPlan.Professional]: 100,
+  [SubscriptionPlan.Agency]: 500,
+};
+
 // -------------------- API Response Types --------------------
 
 export interface ApiError {
@@ -355,7 +569,7 @@ export interface ApiResponse<T> {
 
 // -------------------- UI State Types --------------------
 
-export type AppView = 'dashboard' | 'create-profile' | 'generate' | 'history' | 'settings';
+export type AppView = 'dashboard' | 'create-profile' | 'review-profile' | 'voice-examples' | 'generate' | 'history' | 'settings';
 
 export interface AppState {
   currentView: AppView;
@@ -3,8 +3,6 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string;
   readonly VITE_SUPABASE_ANON_KEY: string;
-  readonly VITE_N8N_WEBHOOK_URL: string;
-  readonly VITE_CALLBACK_URL: string;
 }
 
 interface ImportMeta {